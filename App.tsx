@@ -1,7 +1,49 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { HandController } from './components/HandController';
+import { MouseKeyboardController, TouchController } from './components/PointerController';
+import { ReplayController } from './components/ReplayController';
+import { ThemePicker } from './components/ThemePicker';
+import { FormationPanel } from './components/FormationPanel';
+import { MusicPanel } from './components/MusicPanel';
+import { GalleryPanel } from './components/GalleryPanel';
+import { PhotoCard } from './components/PhotoCard';
+import { SlideshowPanel } from './components/SlideshowPanel';
+import { SlideCaption } from './components/SlideCaption';
+import { VideoExportPanel, VideoExportRequest } from './components/VideoExportPanel';
+import { PosterPanel, PosterRequest } from './components/PosterPanel';
+import { SharePanel, CardViewerBar } from './components/SharePanel';
+import { GestureBindingsPanel } from './components/GestureBindingsPanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { CustomGesturePanel } from './components/CustomGesturePanel';
+import { CameraSettingsPanel } from './components/CameraSettingsPanel';
 import { MagicScene } from './components/MagicScene';
-import { AppState, HandGestureData } from './types';
+import { AppState, HandGestureData, GalleryPhoto, PhotoSwipe, InputSourceId, PlaylistTrack, PhotoDetails, EMPTY_PHOTO_DETAILS } from './types';
+import { loadPhotos, addPhotos, updatePhoto, savePhotoDetails, removePhotos, savePhotoOrder, PhotoRecord, loadMessage, saveMessage, loadTheme, saveTheme, loadLayout, saveLayout, loadAudioReactive, saveAudioReactive,
+    loadTracks, addTracks, removeTrack, saveTrackOrder, loadPlaylistSettings, savePlaylistSettings,
+    loadSlideshowSettings, saveSlideshowSettings, replaceLibrary, loadBindings, saveBindings,
+    loadCalibration, saveCalibration, loadCustomGestures, saveCustomGestures,
+    loadCameraSettings, saveCameraSettings } from './services/galleryStore';
+import { CARD_EXTENSION, SceneCard, createSceneCard, readSceneCard } from './services/sceneBundle';
+import { VIDEO_FORMATS, VideoRecording, isVideoRecordingSupported, recordCanvas } from './services/videoRecorder';
+import { createMusicPlayer, MusicPlayerEvents } from './services/musicPlayer';
+import { NEUTRAL_GESTURE, GestureThresholds, HandFeed, hasGesture } from './utils/gestures';
+import { CalibrationProfile, DEFAULT_PROFILE, normalizeProfiles } from './utils/calibration';
+import { reduceGesture, INITIAL_INTERACTION, InteractionState } from './utils/interaction';
+import { DEFAULT_BINDINGS, GESTURES, GESTURE_ACTIONS, GestureBinding, GestureId, describeGesture, isGestureActive, normalizeBindings, syncCustomBindings } from './utils/bindings';
+import { CustomGesture, normalizeCustomGestures } from './utils/customGestures';
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, normalizeCameraSettings } from './utils/cameraSettings';
+import { BUILT_IN_THEMES, DEFAULT_THEME, ThemeDefinition, applyThemeToDocument } from './utils/theme';
+import { DEFAULT_LAYOUT, LayoutParams, normalizeLayout } from './utils/formations';
+import { AudioAnalyser, AudioReactiveSettings, DEFAULT_AUDIO_REACTIVE, createAudioAnalyser, normalizeAudioReactive } from './utils/audioAnalysis';
+import { PreparedPhoto, preparePhoto } from './utils/photoPipeline';
+import { DEFAULT_PLAYLIST_SETTINGS, PlaylistSettings, normalizePlaylistSettings, shuffleOrder, stepTrack, trackTitle } from './utils/playlist';
+import { DEFAULT_SLIDESHOW_SETTINGS, SlideshowSettings, BEAT_WAIT_MS, nextSlide, normalizeSlideshowSettings } from './utils/slideshow';
+import { CinematicShot, buildCinematicScript, shotAt } from './utils/cinematic';
+import { SceneOverlayContent, drawSceneOverlay, loadOverlayFonts } from './utils/sceneOverlay';
+import { downloadBlob, fileTimestamp } from './utils/download';
+import { POSTER_FRAMINGS, POSTER_SETTLE_MS, POSTER_SIZES, SceneCapture, composePoster } from './utils/poster';
 // --- 请新增下面这两行 ---
 // @ts-ignore
 import localMusicPath from './music.mp3';
@@ -9,12 +51,74 @@ import localMusicPath from './music.mp3';
 // ---------------------------------------------------------------------------
 // 部署说明 (DEPLOYMENT INSTRUCTIONS):
 // 1. 在您的项目文件夹中放入一个名为 "music.mp3" 的文件 (与 index.html 同级)。
-// 2. 代码会自动优先加载 "./music.mp3"。
-// 3. 如果找不到本地文件 (例如在现在的预览环境中)，它会自动回退使用下面的 ONLINE_FALLBACK_URL。
+// 2. 代码会自动优先加载 "./music.mp3" (主题可以在 "music" 字段中指定其他曲目)。
+// 3. 所有资源均在本地打包 (离线可用)；如果找不到 music.mp3，界面会提示缺少音乐文件。
 // ---------------------------------------------------------------------------
 const LOCAL_MUSIC_URL = localMusicPath;
-const ONLINE_FALLBACK_URL = "https://upload.wikimedia.org/wikipedia/commons/9/9b/We_Wish_You_A_Merry_Christmas.ogg";
-const MAX_PHOTOS = 20;
+const MAX_PHOTOS = 200;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// The user's own scene, put aside while a greeting card is being viewed
+interface OwnScene {
+  photos: GalleryPhoto[];
+  tracks: PlaylistTrack[];
+  currentTrackUrl: string | null;
+  message: string;
+  theme: ThemeDefinition;
+  layout: LayoutParams;
+  audioReactive: AudioReactiveSettings;
+  playlist: PlaylistSettings;
+  slideshow: SlideshowSettings;
+}
+
+const revokeSceneUrls = (photos: GalleryPhoto[], tracks: PlaylistTrack[]) => {
+  photos.forEach(p => {
+      URL.revokeObjectURL(p.url);
+      URL.revokeObjectURL(p.thumbUrl);
+  });
+  tracks.forEach(t => URL.revokeObjectURL(t.url));
+};
+
+const toPhotoRecord = ({ takenAt, ...image }: PreparedPhoto, name: string, id = uuidv4()): PhotoRecord => ({
+  ...image,
+  id,
+  name,
+  addedAt: Date.now(),
+  details: { ...EMPTY_PHOTO_DETAILS, takenAt: takenAt ?? '' }
+});
+
+const toGalleryPhoto = (photo: PhotoRecord, storeKey?: number): GalleryPhoto => ({
+  id: photo.id,
+  name: photo.name,
+  addedAt: photo.addedAt,
+  details: photo.details,
+  url: URL.createObjectURL(photo.blob),
+  thumbUrl: URL.createObjectURL(photo.thumb),
+  width: photo.width,
+  height: photo.height,
+  aspect: photo.width / photo.height,
+  size: photo.blob.size + photo.thumb.size,
+  storeKey
+});
+
+// Tablets without a usable camera fall back to touch, everything else to mouse & keys
+const prefersTouch = () => typeof window !== 'undefined' && window.matchMedia('(pointer: coarse)').matches;
+
+const INPUT_SOURCES: { id: InputSourceId, icon: string, label: string }[] = [
+  { id: 'camera', icon: '📷', label: 'Hand Tracking' },
+  { id: 'mouse', icon: '🖱️', label: 'Mouse & Keys' },
+  { id: 'touch', icon: '👆', label: 'Touch' },
+  { id: 'replay', icon: '🎞️', label: 'Replay Recording' },
+];
+
+// Footer legend wording per input source
+const GESTURE_HINTS: Record<InputSourceId, Record<GestureId | 'twoHands' | 'trained', string>> = {
+  camera: { fist: 'Close Fist', open: 'Open Hand', point: 'Point Finger', victory: 'Victory Sign', thumbsUp: 'Thumbs Up', pinch: 'Pinch', swipeLeft: 'Swipe Left', swipeRight: 'Swipe Right', twoHands: 'Two Hands', trained: 'Trained Pose' },
+  mouse: { fist: 'Hold F', open: 'Hold O', point: 'Hold P', victory: 'Hold V', thumbsUp: 'Press T', pinch: 'Hold I', swipeLeft: 'Right Arrow', swipeRight: 'Left Arrow', twoHands: 'Camera Only', trained: 'Camera Only' },
+  touch: { fist: 'Double Tap', open: 'Spread Fingers', point: 'Long Press', victory: 'Tap ✨', thumbsUp: 'Tap ⏭', pinch: 'Pinch Fingers', swipeLeft: 'Flick Left', swipeRight: 'Flick Right', twoHands: 'Camera Only', trained: 'Camera Only' },
+  replay: { fist: 'Close Fist', open: 'Open Hand', point: 'Point Finger', victory: 'Victory Sign', thumbsUp: 'Thumbs Up', pinch: 'Pinch', swipeLeft: 'Swipe Left', swipeRight: 'Swipe Right', twoHands: 'Two Hands', trained: 'Trained Pose' },
+};
 
 // Icons
 const CameraIcon = () => (
@@ -56,48 +160,108 @@ const CheckIcon = () => (
 
 const StatusItem = ({ active, label }: { active: boolean, label: string }) => (
   <div className={`flex items-center gap-3 transition-opacity duration-300 ${active ? 'opacity-100' : 'opacity-40'}`}>
-    <div className={`w-2 h-2 rounded-full shadow-[0_0_8px_rgba(255,215,0,0.8)] ${active ? 'bg-[#FFD700]' : 'bg-transparent border border-[#F2E8C9]'}`} />
-    <span className="text-xs text-[#F2E8C9] tracking-widest font-light">{label}</span>
+    <div className={`w-2 h-2 rounded-full shadow-[0_0_8px_rgb(var(--color-accent)/0.8)] ${active ? 'bg-accent' : 'bg-transparent border border-ink'}`} />
+    <span className="text-xs text-ink tracking-widest font-light">{label}</span>
   </div>
 );
 
 const Instruction = ({ label, icon, desc, active }: { label: string, icon: string, desc: string, active: boolean }) => (
   <div className={`flex flex-col items-center gap-1 transition-all duration-300 ${active ? 'opacity-100 scale-110' : 'opacity-50'}`}>
     <span className="text-2xl filter drop-shadow-md">{icon}</span>
-    <span className={`text-[10px] uppercase tracking-widest font-bold ${active ? 'text-[#FFD700]' : 'text-[#F2E8C9]'}`}>{label}</span>
-    <span className="text-[9px] text-[#F2E8C9]/70 font-light">{desc}</span>
+    <span className={`text-[10px] uppercase tracking-widest font-bold ${active ? 'text-accent' : 'text-ink'}`}>{label}</span>
+    <span className="text-[9px] text-ink/70 font-light">{desc}</span>
   </div>
 );
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.TREE);
-  const [gestureData, setGestureData] = useState<HandGestureData>({
-    isFist: false,
-    isOpen: false,
-    isPinching: false,
-    isPointing: false,
-    handPosition: { x: 0.5, y: 0.5 }
-  });
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [gestureData, setGestureData] = useState<HandGestureData>(NEUTRAL_GESTURE);
+  const [photos, setPhotos] = useState<GalleryPhoto[]>([]);
   const [focusId, setFocusId] = useState<string | null>(null);
+  const [photoSwipe, setPhotoSwipe] = useState<PhotoSwipe | null>(null);
+  const [preparingCount, setPreparingCount] = useState(0); // Uploads still being decoded & downscaled
+  const storedBytes = useMemo(() => photos.reduce((sum, p) => sum + (p.storeKey !== undefined ? p.size : 0), 0), [photos]);
   
   // Refs for gesture handler to avoid stale closures
   const photosRef = useRef(photos);
   useEffect(() => { photosRef.current = photos; }, [photos]);
 
-  const focusIdRef = useRef(focusId);
-  useEffect(() => { focusIdRef.current = focusId; }, [focusId]);
-  
-  const wasPointingRef = useRef(false);
+  // Gesture machine state, kept in sync with clicks that change state directly
+  const interactionRef = useRef<InteractionState>(INITIAL_INTERACTION);
+  useEffect(() => {
+      interactionRef.current = { ...interactionRef.current, appState, focusId };
+  }, [appState, focusId]);
+
+  // Theme (colours, materials, text, fonts and default music)
+  const [theme, setTheme] = useState<ThemeDefinition>(DEFAULT_THEME);
+  useEffect(() => applyThemeToDocument(theme), [theme]);
+
+  // Formation shown in the TREE state, plus its counts and sizes
+  const [layout, setLayout] = useState<LayoutParams>(DEFAULT_LAYOUT);
 
   // Audio State
   const [isMuted, setIsMuted] = useState(false); // Default to false (try to play)
-  const [audioSrc, setAudioSrc] = useState(LOCAL_MUSIC_URL); // Start by trying local
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+
+  // Playlist: the uploaded tracks, or the theme's track while there are none
+  const [tracks, setTracks] = useState<PlaylistTrack[]>([]);
+  const [playlistSettings, setPlaylistSettings] = useState<PlaylistSettings>(DEFAULT_PLAYLIST_SETTINGS);
+  const [currentTrackUrl, setCurrentTrackUrl] = useState<string | null>(null);
+  const tracksRef = useRef(tracks);
+  useEffect(() => { tracksRef.current = tracks; }, [tracks]);
+  const currentTrack = tracks.find(t => t.url === currentTrackUrl) ?? tracks[0] ?? null;
+  const audioSrc = currentTrack?.url ?? theme.music ?? LOCAL_MUSIC_URL;
+  const trackName = currentTrack?.title ?? `${theme.name} Theme`;
+  const shuffleOrderRef = useRef<number[]>([]);
+
+  // Two-deck crossfading player; its events go through a ref so they see the current state
+  const musicEventsRef = useRef<MusicPlayerEvents>({ onTrackEnding: () => {}, onPlay: () => {}, onError: () => {} });
+  const [player] = useState(() => createMusicPlayer({
+      onTrackEnding: () => musicEventsRef.current.onTrackEnding(),
+      onPlay: () => musicEventsRef.current.onPlay(),
+      onError: url => musicEventsRef.current.onError(url),
+  }));
+  useEffect(() => () => player.dispose(), [player]);
+  const skipTrackRef = useRef<(direction: 1 | -1) => void>(() => {});
+
+  // Music-driven glow (see utils/audioAnalysis.ts)
+  const [audioReactive, setAudioReactive] = useState<AudioReactiveSettings>(DEFAULT_AUDIO_REACTIVE);
+  const [audioAnalyser, setAudioAnalyser] = useState<AudioAnalyser | null>(null);
+  const audioAnalyserRef = useRef<AudioAnalyser | null>(null);
+
+  // Slideshow: steps the focus on a timer (optionally on the beat) until a gesture pauses it
+  const [slideshow, setSlideshow] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW_SETTINGS);
+  const [isSlideshowPlaying, setIsSlideshowPlaying] = useState(false);
+  const slideshowPlayingRef = useRef(isSlideshowPlaying);
+  useEffect(() => { slideshowPlayingRef.current = isSlideshowPlaying; }, [isSlideshowPlaying]);
+  const advanceSlideRef = useRef(() => {});
+  const awaitingBeatRef = useRef(false);
+
+  // Video export: the scene canvas is found inside its container; the overlay follows the live state
+  const sceneContainerRef = useRef<HTMLDivElement>(null);
+  const [videoProgress, setVideoProgress] = useState<{ elapsed: number, duration: number } | null>(null);
+  const recordingRef = useRef<VideoRecording | null>(null);
+  const videoCancelledRef = useRef(false); // Cancel can come while fonts load or the tree assembles
+  const captureRef = useRef<SceneCapture | null>(null);
+  const [isRenderingPoster, setIsRenderingPoster] = useState(false);
+  const overlayRef = useRef<SceneOverlayContent>({ theme: DEFAULT_THEME, message: '', photo: null });
+
+  // Greeting cards: while one is open (viewer mode) editing is hidden and nothing is saved
+  const [viewerCard, setViewerCard] = useState<string | null>(null); // File name of the open card
+  const viewerBundleRef = useRef<SceneCard | null>(null);
+  const ownSceneRef = useRef<OwnScene | null>(null);
+  const [isExportingCard, setIsExportingCard] = useState(false);
 
   // Text Message State
   const [inputText, setInputText] = useState("");
   const [userMessage, setUserMessage] = useState("");
+  const userMessageRef = useRef(userMessage);
+  useEffect(() => { userMessageRef.current = userMessage; }, [userMessage]);
+
+  // Nothing left to spell once the wish is cleared
+  useEffect(() => {
+      if (!userMessage && appState === AppState.TEXT) setAppState(AppState.TREE);
+  }, [userMessage, appState]);
 
   // Delete confirmation state
   const [deleteConfirm, setDeleteConfirm] = useState(false);
@@ -107,97 +271,339 @@ const App: React.FC = () => {
 
   const [showInstructions, setShowInstructions] = useState(true);
 
-  // Auto-play on mount
-  useEffect(() => {
-      if (audioRef.current) {
-          audioRef.current.volume = 0.5;
-          // Attempt auto-play
-          const playPromise = audioRef.current.play();
-          if (playPromise !== undefined) {
-            playPromise.catch(error => {
-              console.log("Browser prevented auto-play. User interaction required.");
-              setIsMuted(true); // Switch to muted state visually if auto-play fails
-            });
-          }
+  // What each gesture does (see utils/bindings.ts); the footer legend is built from it
+  const [bindings, setBindings] = useState<GestureBinding[]>(DEFAULT_BINDINGS);
+  const bindingsRef = useRef(bindings);
+  useEffect(() => { bindingsRef.current = bindings; }, [bindings]);
+
+  // Calibration profiles (hand-relative thresholds); gestures are ignored while the wizard runs
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE.id);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const handFeedRef = useRef<HandFeed | null>(null);
+  const thresholds = (profiles.find(p => p.id === activeProfileId) ?? DEFAULT_PROFILE).thresholds;
+
+  // Trained poses (utils/customGestures.ts), bound like the built-in gestures; recording them also mutes gestures
+  const [customGestures, setCustomGestures] = useState<CustomGesture[]>([]);
+  const [isRecordingGesture, setIsRecordingGesture] = useState(false);
+
+  // Input Source (camera by default; if it can't start, mouse or touch takes over and the notice offers a retry)
+  const [inputSource, setInputSource] = useState<InputSourceId>('camera');
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
+
+  const handleSourceUnavailable = useCallback((reason: string) => {
+      const fallback: InputSourceId = prefersTouch() ? 'touch' : 'mouse';
+      setInputNotice(reason);
+      setInputSource(fallback);
+  }, []);
+
+  const selectInputSource = (id: InputSourceId) => {
+      setInputNotice(null);
+      setInputSource(id);
+  };
+
+  const handleCalibrationStart = () => {
+      setIsSlideshowPlaying(false);
+      gestureCooldownRef.current = Infinity;
+      setGestureData(NEUTRAL_GESTURE);
+      setIsCalibrating(true);
+  };
+
+  const endCalibration = () => {
+      setIsCalibrating(false);
+      gestureCooldownRef.current = Date.now() + 1000;
+  };
+
+  const handleCalibrationSave = (name: string, calibrated: GestureThresholds) => {
+      const profile: CalibrationProfile = { id: uuidv4(), name, thresholds: calibrated, createdAt: Date.now() };
+      setProfiles(prev => [...prev, profile]);
+      setActiveProfileId(profile.id);
+      endCalibration();
+  };
+
+  const handleProfileDelete = (id: string) => {
+      setProfiles(prev => prev.filter(p => p.id !== id));
+      if (id === activeProfileId) setActiveProfileId(DEFAULT_PROFILE.id);
+  };
+
+  const handleGestureRecording = useCallback((isRecording: boolean) => {
+      setIsRecordingGesture(isRecording);
+      if (isRecording) {
+          setIsSlideshowPlaying(false);
+          setGestureData(NEUTRAL_GESTURE);
       }
-  }, [audioSrc]); // Re-try autoplay if source changes (fallback)
+      gestureCooldownRef.current = isRecording ? Infinity : Date.now() + 1000;
+  }, []);
+
+  // The wizard reads the camera, so it can't outlive it
+  useEffect(() => {
+      if (isCalibrating && inputSource !== 'camera') endCalibration();
+  }, [isCalibrating, inputSource]);
+
+  // Restore persisted gallery, wish, theme & formation before saving anything back
+  const [isRestored, setIsRestored] = useState(false);
 
-  // Handle Mute Toggle
   useEffect(() => {
-      if (audioRef.current) {
-          audioRef.current.muted = isMuted;
-          if (!isMuted) {
-              const playPromise = audioRef.current.play();
-               if (playPromise !== undefined) {
-                playPromise.catch(e => console.error("Play failed", e));
+      let cancelled = false;
+      const restore = async () => {
+          try {
+              const [stored, message, savedTheme, savedLayout, savedAudioReactive, storedTracks, savedPlaylist, savedSlideshow, savedBindings, savedCalibration, savedGestures, savedCamera] = await Promise.all([
+                  loadPhotos(), loadMessage(), loadTheme(), loadLayout(), loadAudioReactive(), loadTracks(), loadPlaylistSettings(),
+                  loadSlideshowSettings(), loadBindings(), loadCalibration(), loadCustomGestures(), loadCameraSettings()
+              ]);
+              if (cancelled) return;
+              setUserMessage(prev => prev || message);
+              if (savedTheme) {
+                  // Built-in packs may have been updated since they were saved
+                  setTheme(BUILT_IN_THEMES.find(t => t.id === savedTheme.id) ?? savedTheme);
+              }
+              if (savedLayout) setLayout(normalizeLayout(savedLayout));
+              if (savedAudioReactive) setAudioReactive(normalizeAudioReactive(savedAudioReactive));
+              setTracks(prev => [...storedTracks.map(({ key, title, blob }) => ({
+                  url: URL.createObjectURL(blob),
+                  title,
+                  storeKey: key
+              })), ...prev]);
+              if (savedPlaylist) setPlaylistSettings(normalizePlaylistSettings(savedPlaylist));
+              if (savedSlideshow) setSlideshow(normalizeSlideshowSettings(savedSlideshow));
+              if (savedCamera) setCameraSettings(normalizeCameraSettings(savedCamera));
+              const trained = normalizeCustomGestures(savedGestures);
+              setCustomGestures(trained);
+              if (savedBindings) setBindings(normalizeBindings(savedBindings, trained.map(g => g.id)));
+              if (savedCalibration) {
+                  const savedProfiles = normalizeProfiles(savedCalibration.profiles);
+                  setProfiles(savedProfiles);
+                  if (savedProfiles.some(p => p.id === savedCalibration.activeId)) setActiveProfileId(savedCalibration.activeId);
+              }
+
+              // Photos saved by older versions (no thumbnail, id or details) are upgraded once, in place
+              const restored: GalleryPhoto[] = [];
+              for (const { key, blob, thumb, width, height, id, name, addedAt, details } of stored) {
+                  let prepared: PreparedPhoto;
+                  if (thumb && width && height) {
+                      prepared = { blob, thumb, width, height };
+                  } else {
+                      try {
+                          prepared = await preparePhoto(blob);
+                      } catch (err) {
+                          console.error("Could not prepare a saved photo", err);
+                          continue;
+                      }
+                  }
+                  if (cancelled) return;
+                  const { takenAt, ...image } = prepared;
+                  const record: PhotoRecord = {
+                      ...image,
+                      id: id ?? uuidv4(),
+                      name: name ?? 'Photo',
+                      addedAt: addedAt ?? Date.now(),
+                      details: details ?? { ...EMPTY_PHOTO_DETAILS, takenAt: takenAt ?? '' }
+                  };
+                  if (prepared.thumb !== thumb || !id || !details) {
+                      updatePhoto(key, record).catch(err => console.error("Could not upgrade saved photo", err));
+                  }
+                  restored.push(toGalleryPhoto(record, key));
               }
+              setPhotos(prev => [...restored, ...prev]);
+          } catch (err) {
+              console.error("Could not restore saved gallery", err);
+          } finally {
+              if (!cancelled) setIsRestored(true);
           }
+      };
+      restore();
+      return () => { cancelled = true; };
+  }, []);
+
+  // Persist the wish whenever it changes (after restore so we don't clobber it, and never a card's)
+  useEffect(() => {
+      if (!isRestored || viewerCard) return;
+      saveMessage(userMessage).catch(err => console.error("Could not save wish message", err));
+  }, [userMessage, isRestored, viewerCard]);
+
+  useEffect(() => {
+      if (!isRestored || viewerCard) return;
+      saveTheme(theme).catch(err => console.error("Could not save theme", err));
+  }, [theme, isRestored, viewerCard]);
+
+  useEffect(() => {
+      if (!isRestored || viewerCard) return;
+      saveLayout(layout).catch(err => console.error("Could not save formation", err));
+  }, [layout, isRestored, viewerCard]);
+
+  useEffect(() => {
+      if (!isRestored || viewerCard) return;
+      saveAudioReactive(audioReactive).catch(err => console.error("Could not save audio settings", err));
+  }, [audioReactive, isRestored, viewerCard]);
+
+  useEffect(() => {
+      if (!isRestored || viewerCard) return;
+      savePlaylistSettings(playlistSettings).catch(err => console.error("Could not save playlist settings", err));
+  }, [playlistSettings, isRestored, viewerCard]);
+
+  useEffect(() => {
+      if (!isRestored || viewerCard) return;
+      saveSlideshowSettings(slideshow).catch(err => console.error("Could not save slideshow settings", err));
+  }, [slideshow, isRestored, viewerCard]);
+
+  // Bindings belong to the device (e.g. a venue's setup), so they're saved even while viewing a card
+  useEffect(() => {
+      if (!isRestored) return;
+      saveBindings(bindings).catch(err => console.error("Could not save gesture bindings", err));
+  }, [bindings, isRestored]);
+
+  useEffect(() => {
+      if (!isRestored) return;
+      saveCalibration(profiles, activeProfileId).catch(err => console.error("Could not save calibration profiles", err));
+  }, [profiles, activeProfileId, isRestored]);
+
+  // New trained gestures get a (disabled) binding and deleted ones lose theirs
+  useEffect(() => {
+      if (!isRestored) return;
+      setBindings(prev => syncCustomBindings(prev, customGestures));
+      saveCustomGestures(customGestures).catch(err => console.error("Could not save custom gestures", err));
+  }, [customGestures, isRestored]);
+
+  useEffect(() => {
+      if (!isRestored) return;
+      saveCameraSettings(cameraSettings).catch(err => console.error("Could not save camera settings", err));
+  }, [cameraSettings, isRestored]);
+
+  // Free every object URL when the app unmounts
+  useEffect(() => () => {
+      photosRef.current.forEach(p => {
+          URL.revokeObjectURL(p.url);
+          URL.revokeObjectURL(p.thumbUrl);
+      });
+      tracksRef.current.forEach(t => URL.revokeObjectURL(t.url));
+  }, []);
+
+  // Start the current track, crossfading from the previous one (this is also the auto-play on mount)
+  useEffect(() => {
+      setAudioError(null);
+      player.play(audioSrc, playlistSettings.crossfade).catch(err => {
+          // Switching tracks quickly aborts the pending play(), which isn't a blocked auto-play
+          if (err?.name !== 'NotAllowedError') return;
+          console.log("Browser prevented auto-play. User interaction required.");
+          setIsMuted(true); // Switch to muted state visually if auto-play fails
+      });
+  }, [audioSrc, player]);
+
+  // A lone track loops unless repeat is off; longer playlists only loop with "repeat one"
+  const loopTrack = tracks.length <= 1 ? tracks.length === 0 || playlistSettings.repeat !== 'off' : playlistSettings.repeat === 'one';
+  useEffect(() => player.setLoop(loopTrack), [player, loopTrack]);
+  useEffect(() => player.setVolume(playlistSettings.volume), [player, playlistSettings.volume]);
+  useEffect(() => player.setCrossfade(playlistSettings.crossfade), [player, playlistSettings.crossfade]);
+
+  // New shuffle whenever the tracks or the shuffle switch change, starting from the current track
+  useEffect(() => {
+      shuffleOrderRef.current = shuffleOrder(tracks.length, currentTrack ? tracks.indexOf(currentTrack) : -1);
+  }, [tracks, playlistSettings.shuffle]);
+
+  // Handle Mute Toggle
+  useEffect(() => {
+      player.setMuted(isMuted);
+      if (!isMuted) player.resume().catch(e => console.error("Play failed", e));
+  }, [isMuted, player]);
+
+  /** Moves through the playlist; `auto` when the current track is running out on its own. */
+  const skipTrack = (direction: 1 | -1, auto = false) => {
+      if (tracks.length === 0) return;
+      const current = currentTrack ? tracks.indexOf(currentTrack) : -1;
+      const next = stepTrack(current, tracks.length, direction, playlistSettings, shuffleOrderRef.current, auto);
+      // End of the playlist with repeat off: let the last track finish
+      if (next === null) return;
+      if (tracks[next].url === audioSrc) {
+          player.play(audioSrc, playlistSettings.crossfade).catch(e => console.error("Play failed", e));
+      } else {
+          setCurrentTrackUrl(tracks[next].url);
       }
-  }, [isMuted]);
+  };
 
-  // Handle Audio Error (Fallback Logic)
-  const handleAudioError = () => {
-      if (audioSrc === LOCAL_MUSIC_URL) {
-          console.log("Local music.mp3 not found, falling back to online music.");
-          setAudioSrc(ONLINE_FALLBACK_URL);
+  // Attach the analyser once music is actually playing: the decks are only audible
+  // through the audio context afterwards, and a context created before a user gesture
+  // would stay suspended. Tracks from other origins can't be analysed, so they're left alone.
+  const attachAudioAnalyser = () => {
+      if (player.elements.every(element => element.paused)) return;
+      if (!audioAnalyserRef.current) {
+          const url = new URL(audioSrc, window.location.href);
+          if (url.origin !== window.location.origin && url.protocol !== 'data:') return;
+          try {
+              audioAnalyserRef.current = createAudioAnalyser(player.elements);
+              setAudioAnalyser(audioAnalyserRef.current);
+          } catch (err) {
+              console.error("Could not analyse the music", err);
+              return;
+          }
       }
+      audioAnalyserRef.current.resume().catch(err => console.error("Could not resume audio analysis", err));
   };
 
-  // Gesture State Logic Machine
+  // Autoplay can start the music while the context stays suspended; any interaction wakes it
+  useEffect(() => {
+      const wake = () => audioAnalyserRef.current?.resume().catch(() => {});
+      window.addEventListener('pointerdown', wake);
+      window.addEventListener('keydown', wake);
+      return () => {
+          window.removeEventListener('pointerdown', wake);
+          window.removeEventListener('keydown', wake);
+      };
+  }, []);
+
+  const handleAudioReactiveChange = (next: AudioReactiveSettings) => {
+      setAudioReactive(next);
+      if (next.enabled && !audioReactive.enabled) attachAudioAnalyser();
+  };
+
+  // Player events and the thumbs-up gesture always act on the latest playlist
+  useEffect(() => {
+      skipTrackRef.current = direction => skipTrack(direction);
+      musicEventsRef.current = {
+          onTrackEnding: () => skipTrack(1, true),
+          onPlay: () => { if (audioReactive.enabled || slideshow.beatSync) attachAudioAnalyser(); },
+          // Handle Audio Error (no online fallback, the app must work offline)
+          onError: url => {
+              console.error(`Music file could not be loaded: ${url}`);
+              const track = tracks.find(t => t.url === url);
+              setAudioError(track ? `Can't play: ${track.title}` : `Missing asset: ${url.split('/').pop()}`);
+              setIsMuted(true);
+          },
+      };
+  });
+
+  // Gesture State Logic Machine (see utils/interaction.ts)
   const handleGesture = useCallback((data: HandGestureData) => {
     // If cooldown is active, ignore gestures
     if (Date.now() < gestureCooldownRef.current) return;
 
     setGestureData(data);
-    
-    // Check if this is a "Fresh" point (started this frame)
-    const isFreshPoint = data.isPointing && !wasPointingRef.current;
-    wasPointingRef.current = data.isPointing;
-
-    setAppState(prev => {
-        // 1. Reset to Tree on Fist
-        if (data.isFist) {
-             setFocusId(null);
-             setDeleteConfirm(false);
-             return AppState.TREE;
-        }
-
-        // 2. Pointing -> Select a Random Photo & Inspect
-        if (data.isPointing && photosRef.current.length > 0) {
-            if (prev !== AppState.INSPECT || isFreshPoint) {
-                const randomIdx = Math.floor(Math.random() * photosRef.current.length);
-                setFocusId(`photo-${randomIdx}`);
-                setDeleteConfirm(false);
-                return AppState.INSPECT;
-            }
-            return AppState.INSPECT;
-        }
-
-        // 3. Open Hand -> Scatter / Expand
-        if (data.isOpen) {
-            if (prev === AppState.INSPECT) {
-                setFocusId(null);
-                setDeleteConfirm(false);
-            }
-            return AppState.SCATTER;
-        }
-
-        // 4. Pinch -> Fallback inspect
-        if (prev === AppState.SCATTER && data.isPinching && photosRef.current.length > 0) {
-             if (!focusIdRef.current) {
-                 setFocusId(`photo-0`); 
-                 setDeleteConfirm(false);
-             }
-             return AppState.INSPECT;
-        }
-
-        return prev;
+
+    // The slideshow runs hands-free; any gesture takes over
+    if (slideshowPlayingRef.current && hasGesture(data)) setIsSlideshowPlaying(false);
+
+    const prev = interactionRef.current;
+    const { state, photoSwipe, skipTrack } = reduceGesture(prev, data, {
+        photoIds: photosRef.current.map(p => p.id),
+        hasMessage: !!userMessageRef.current,
+        now: Date.now(),
+        random: Math.random,
+        bindings: bindingsRef.current
     });
+    interactionRef.current = state;
+
+    if (skipTrack) skipTrackRef.current(skipTrack);
+    if (photoSwipe) setPhotoSwipe(photoSwipe);
+    if (state.appState !== prev.appState || state.focusId !== prev.focusId) {
+        setAppState(state.appState);
+        setFocusId(state.focusId);
+        setDeleteConfirm(false);
+    }
   }, []);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const remainingSlots = MAX_PHOTOS - photos.length;
+      const remainingSlots = MAX_PHOTOS - photos.length - preparingCount;
       if (remainingSlots <= 0) {
           alert(`Photo gallery is full! Maximum ${MAX_PHOTOS} photos allowed.`);
           return;
@@ -209,7 +615,33 @@ const App: React.FC = () => {
           newFiles = newFiles.slice(0, remainingSlots);
       }
 
-      const newPhotos = newFiles.map((file: File) => URL.createObjectURL(file));
+      // Allow re-selecting the same files later
+      e.target.value = '';
+
+      // One at a time: a decoded 12 MP photo alone takes ~50 MB
+      setPreparingCount(count => count + newFiles.length);
+      const prepared: PhotoRecord[] = [];
+      const unreadable: string[] = [];
+      for (const file of newFiles) {
+          try {
+              prepared.push(toPhotoRecord(await preparePhoto(file), file.name));
+          } catch (err) {
+              console.error(`Could not read photo ${file.name}`, err);
+              unreadable.push(file.name);
+          }
+          setPreparingCount(count => count - 1);
+      }
+      if (unreadable.length > 0) alert(`These files could not be read as photos: ${unreadable.join(', ')}`);
+      if (prepared.length === 0) return;
+
+      let keys: number[] = [];
+      try {
+          keys = await addPhotos(prepared);
+      } catch (err) {
+          console.error("Could not save photos, they will be lost on reload", err);
+      }
+
+      const newPhotos = prepared.map((photo, i) => toGalleryPhoto(photo, keys[i]));
       setPhotos(prev => [...prev, ...newPhotos]);
     }
   };
@@ -224,6 +656,48 @@ const App: React.FC = () => {
       }
   };
 
+  const handleTrackUpload = async (files: File[]) => {
+      const audioFiles = files.filter(file => file.type.startsWith('audio/'));
+      if (audioFiles.length < files.length) alert("Only audio files can be added to the playlist.");
+      if (audioFiles.length === 0) return;
+
+      const entries = audioFiles.map(file => ({ title: trackTitle(file.name), blob: file }));
+      let keys: number[] = [];
+      try {
+          keys = await addTracks(entries);
+      } catch (err) {
+          console.error("Could not save tracks, they will be lost on reload", err);
+      }
+
+      setTracks(prev => [...prev, ...entries.map((entry, i) => ({
+          url: URL.createObjectURL(entry.blob),
+          title: entry.title,
+          storeKey: keys[i]
+      }))]);
+  };
+
+  const handleTrackRemove = (url: string) => {
+      const removed = tracks.find(t => t.url === url);
+      if (!removed) return;
+      // The fading-out deck may still be reading it
+      setTimeout(() => URL.revokeObjectURL(url), (playlistSettings.crossfade + 1) * 1000);
+      if (removed.storeKey !== undefined) {
+          removeTrack(removed.storeKey).catch(err => console.error("Could not remove stored track", err));
+      }
+      if (removed === currentTrack && tracks.length > 1) skipTrack(1);
+      setTracks(prev => prev.filter(t => t.url !== url));
+  };
+
+  const handleTrackMove = (index: number, direction: 1 | -1) => {
+      const target = index + direction;
+      if (target < 0 || target >= tracks.length) return;
+      const reordered = [...tracks];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      setTracks(reordered);
+      const keys = reordered.flatMap(t => t.storeKey !== undefined ? [t.storeKey] : []);
+      saveTrackOrder(keys).catch(err => console.error("Could not save playlist order", err));
+  };
+
   const toggleMute = () => {
       setIsMuted(!isMuted);
   };
@@ -235,30 +709,101 @@ const App: React.FC = () => {
       setAppState(AppState.INSPECT);
   };
 
+  const deletePhotos = (ids: string[]) => {
+      const removed = photos.filter(p => ids.includes(p.id));
+      if (removed.length === 0) return;
+      removed.forEach(p => {
+          URL.revokeObjectURL(p.url);
+          URL.revokeObjectURL(p.thumbUrl);
+      });
+      const keys = removed.flatMap(p => p.storeKey !== undefined ? [p.storeKey] : []);
+      if (keys.length > 0) {
+          removePhotos(keys).catch(err => console.error("Could not remove stored photos", err));
+      }
+      setPhotos(prev => prev.filter(p => !ids.includes(p.id)));
+
+      if (focusId && ids.includes(focusId)) {
+          setFocusId(null);
+          setDeleteConfirm(false);
+          setAppState(AppState.SCATTER);
+          // Prevent gesture system from immediately triggering logic
+          gestureCooldownRef.current = Date.now() + 2000;
+      }
+  };
+
   const handleDeleteClick = () => {
     if (!deleteConfirm) {
         setDeleteConfirm(true);
         // Reset confirmation after 3 seconds if not confirmed
         setTimeout(() => setDeleteConfirm(false), 3000);
-    } else {
+    } else if (focusId) {
         // Perform actual delete
-        if (focusId && focusId.startsWith('photo-')) {
-            const indexStr = focusId.split('-')[1];
-            const index = parseInt(indexStr);
-            if (!isNaN(index)) {
-                const newPhotos = [...photos];
-                newPhotos.splice(index, 1);
-                setPhotos(newPhotos);
-                setFocusId(null);
-                setDeleteConfirm(false);
-                setAppState(AppState.SCATTER);
-                // Prevent gesture system from immediately triggering logic
-                gestureCooldownRef.current = Date.now() + 2000;
-            }
-        }
+        deletePhotos([focusId]);
     }
   };
 
+  const handlePhotosReorder = (ids: string[]) => {
+      const byId = new Map(photos.map(p => [p.id, p]));
+      const reordered = ids.flatMap(id => byId.get(id) ?? []);
+      setPhotos(reordered);
+      const keys = reordered.flatMap(p => p.storeKey !== undefined ? [p.storeKey] : []);
+      savePhotoOrder(keys).catch(err => console.error("Could not save gallery order", err));
+  };
+
+  // Swaps the image but keeps the id, so the photo stays where it is in the scene and the gallery
+  const handlePhotoReplace = async (id: string, file: File) => {
+      const previous = photos.find(p => p.id === id);
+      if (!previous) return;
+      let record: PhotoRecord;
+      try {
+          const prepared = await preparePhoto(file);
+          // Keep what was written about it; the date follows the new picture if it has one
+          record = {
+              ...toPhotoRecord(prepared, file.name, id),
+              details: { ...previous.details, takenAt: prepared.takenAt ?? previous.details.takenAt }
+          };
+      } catch (err) {
+          console.error(`Could not read photo ${file.name}`, err);
+          alert(`${file.name} could not be read as a photo.`);
+          return;
+      }
+      if (previous.storeKey !== undefined) {
+          updatePhoto(previous.storeKey, record).catch(err => console.error("Could not save replaced photo", err));
+      }
+      URL.revokeObjectURL(previous.url);
+      URL.revokeObjectURL(previous.thumbUrl);
+      const replacement = toGalleryPhoto(record, previous.storeKey);
+      setPhotos(prev => prev.map(p => p.id === id ? replacement : p));
+  };
+
+  const handlePhotoDetailsChange = (id: string, details: PhotoDetails) => {
+      const photo = photos.find(p => p.id === id);
+      if (!photo) return;
+      setPhotos(prev => prev.map(p => p.id === id ? { ...p, details } : p));
+      if (photo.storeKey !== undefined) {
+          savePhotoDetails(photo.storeKey, details).catch(err => console.error("Could not save photo details", err));
+      }
+  };
+
+  // Picking a new formation shows it off: assemble so the decorations morph into it
+  const handleLayoutChange = (next: LayoutParams) => {
+      if (next.formation !== layout.formation) {
+          setFocusId(null);
+          setAppState(AppState.TREE);
+          setDeleteConfirm(false);
+          gestureCooldownRef.current = Date.now() + 1000;
+      }
+      setLayout(next);
+  };
+
+  // The ✨ button toggles the decorations spelling out the wish
+  const toggleSpellWish = () => {
+      setFocusId(null);
+      setDeleteConfirm(false);
+      setAppState(appState === AppState.TEXT ? AppState.TREE : AppState.TEXT);
+      gestureCooldownRef.current = Date.now() + 1000;
+  };
+
   const handleCloseInspect = () => {
       setFocusId(null);
       setAppState(AppState.SCATTER);
@@ -266,114 +811,518 @@ const App: React.FC = () => {
       gestureCooldownRef.current = Date.now() + 1000;
   };
 
+  // Starting shows the inspected photo first (or the first one); leaving INSPECT in any way ends the show
+  const handleSlideshowPlayingChange = (playing: boolean) => {
+      if (playing) {
+          const first = appState === AppState.INSPECT && focusId ? focusId : photos[0]?.id;
+          if (!first) return;
+          setFocusId(first);
+          setAppState(AppState.INSPECT);
+          setDeleteConfirm(false);
+          gestureCooldownRef.current = Date.now() + 1000;
+      }
+      setIsSlideshowPlaying(playing);
+  };
+
+  const handleSlideshowChange = (next: SlideshowSettings) => {
+      setSlideshow(next);
+      if (next.beatSync && !slideshow.beatSync) attachAudioAnalyser();
+  };
+
+  useEffect(() => {
+      if (appState !== AppState.INSPECT) setIsSlideshowPlaying(false);
+  }, [appState]);
+
+  useEffect(() => {
+      advanceSlideRef.current = () => {
+          const current = interactionRef.current.focusId;
+          const next = nextSlide(photosRef.current.map(p => p.id), current, slideshow.shuffle);
+          if (!next || next === current) return;
+          if (current) setPhotoSwipe({ fromId: current, toId: next, direction: 1, startedAt: Date.now() });
+          setFocusId(next);
+      };
+  });
+
+  // Each slide gets its time, then (with beat sync) waits up to BEAT_WAIT_MS for a beat
+  useEffect(() => {
+      if (!isSlideshowPlaying) return;
+      let beatTimer: ReturnType<typeof setTimeout> | undefined;
+      const timer = setTimeout(() => {
+          if (!slideshow.beatSync) {
+              advanceSlideRef.current();
+              return;
+          }
+          awaitingBeatRef.current = true;
+          beatTimer = setTimeout(() => advanceSlideRef.current(), BEAT_WAIT_MS);
+      }, slideshow.interval * 1000);
+      return () => {
+          clearTimeout(timer);
+          clearTimeout(beatTimer);
+          awaitingBeatRef.current = false;
+      };
+  }, [isSlideshowPlaying, focusId, slideshow.interval, slideshow.beatSync]);
+
+  const handleBeat = useCallback(() => {
+      if (!awaitingBeatRef.current) return;
+      awaitingBeatRef.current = false;
+      advanceSlideRef.current();
+  }, []);
+
+  useEffect(() => {
+      overlayRef.current = {
+          theme,
+          message: appState === AppState.TEXT ? '' : userMessage,
+          photo: appState === AppState.INSPECT ? photos.find(p => p.id === focusId)?.details ?? null : null
+      };
+  });
+
+  // Steps the scene to a cinematic shot, sliding between photos like a swipe
+  const playShot = (shot: CinematicShot, previous: CinematicShot | null) => {
+      if (shot.appState === AppState.INSPECT && previous?.focusId && shot.focusId) {
+          setPhotoSwipe({ fromId: previous.focusId, toId: shot.focusId, direction: 1, startedAt: Date.now() });
+      }
+      setAppState(shot.appState);
+      setFocusId(shot.focusId);
+      setDeleteConfirm(false);
+  };
+
+  const handleVideoRecord = async ({ formatId, duration, cinematic }: VideoExportRequest) => {
+      const format = VIDEO_FORMATS.find(f => f.id === formatId) ?? VIDEO_FORMATS[0];
+      const source = sceneContainerRef.current?.querySelector('canvas');
+      if (!source || recordingRef.current) return;
+
+      attachAudioAnalyser();
+      const audio = !isMuted && audioAnalyserRef.current ? audioAnalyserRef.current.captureStream() : null;
+      setIsSlideshowPlaying(false);
+      setVideoProgress({ elapsed: 0, duration });
+      videoCancelledRef.current = false;
+      await loadOverlayFonts(overlayRef.current, format.width, format.height);
+
+      // The script owns the scene for the whole clip; gestures are ignored until it's done
+      const script = cinematic ? buildCinematicScript(photos.map(p => p.id), duration) : null;
+      let shot: CinematicShot | null = null;
+      if (script) {
+          gestureCooldownRef.current = Infinity;
+          shot = script[0];
+          playShot(shot, null);
+          // Let the tree assemble before the clip starts
+          await new Promise(resolve => setTimeout(resolve, 1500));
+      }
+      if (videoCancelledRef.current) {
+          setVideoProgress(null);
+          if (script) gestureCooldownRef.current = Date.now() + 1000;
+          return;
+      }
+
+      let shownStep = -1;
+      const recording = recordCanvas(source, {
+          width: format.width,
+          height: format.height,
+          duration,
+          audio,
+          drawOverlay: (ctx, width, height) => drawSceneOverlay(ctx, width, height, overlayRef.current),
+          onProgress: elapsed => {
+              // A few updates a second are plenty for the progress bar
+              if (Math.floor(elapsed * 4) !== shownStep) {
+                  shownStep = Math.floor(elapsed * 4);
+                  setVideoProgress({ elapsed, duration });
+              }
+              if (!script) return;
+              const next = shotAt(script, elapsed);
+              if (next !== shot) {
+                  playShot(next, shot);
+                  shot = next;
+              }
+          },
+      });
+      recordingRef.current = recording;
+
+      try {
+          const blob = await recording.result;
+          if (blob) downloadBlob(blob, `magic-tree_${fileTimestamp()}.webm`);
+      } catch (err) {
+          console.error("Video recording failed", err);
+          alert("The video could not be recorded.");
+      } finally {
+          recordingRef.current = null;
+          setVideoProgress(null);
+          if (script) gestureCooldownRef.current = Date.now() + 1000;
+      }
+  };
+
+  // Frames the scene as asked (waiting for it to settle), then renders it at print size
+  const handlePosterExport = async ({ framing, sizeId, withText }: PosterRequest) => {
+      const size = POSTER_SIZES.find(s => s.id === sizeId) ?? POSTER_SIZES[0];
+      const target = POSTER_FRAMINGS.find(f => f.id === framing) ?? POSTER_FRAMINGS[0];
+      const targetFocus = target.appState === AppState.INSPECT ? focusId ?? photos[0]?.id ?? null : null;
+      if (target.appState === AppState.INSPECT && !targetFocus) return;
+
+      setIsRenderingPoster(true);
+      setIsSlideshowPlaying(false);
+      const reframed = target.appState !== appState || targetFocus !== focusId;
+      gestureCooldownRef.current = Infinity;
+      setAppState(target.appState);
+      setFocusId(targetFocus);
+      setDeleteConfirm(false);
+
+      try {
+          await new Promise(resolve => setTimeout(resolve, reframed ? POSTER_SETTLE_MS : 100));
+          if (withText) await loadOverlayFonts(overlayRef.current, size.width, size.height);
+          const capture = captureRef.current;
+          if (!capture) throw new Error('The scene is not ready');
+          const frame = capture(size.width, size.height);
+          const blob = await composePoster(frame, withText ? overlayRef.current : null);
+          downloadBlob(blob, `magic-tree-poster_${fileTimestamp()}.png`);
+          // The capture shrinks sizes the GPU can't allocate
+          if (frame.width < size.width) {
+              alert(`This device can't render ${size.width} × ${size.height}, so the poster was saved at ${frame.width} × ${frame.height}.`);
+          }
+      } catch (err) {
+          console.error("Poster export failed", err);
+          alert("The poster could not be rendered.");
+      } finally {
+          setIsRenderingPoster(false);
+          gestureCooldownRef.current = Date.now() + 1000;
+      }
+  };
+
+  const handleVideoCancel = () => {
+      videoCancelledRef.current = true;
+      recordingRef.current?.cancel();
+  };
+
+  // Packs the scene as shown (photos, wish, playlist, theme and settings) into one file
+  const handleCardExport = async () => {
+      setIsExportingCard(true);
+      try {
+          const blobOf = async (url: string) => (await fetch(url)).blob();
+          const cardPhotos: PhotoRecord[] = [];
+          for (const { id, name, addedAt, details, url, thumbUrl, width, height } of photos) {
+              cardPhotos.push({ id, name, addedAt, details, width, height, blob: await blobOf(url), thumb: await blobOf(thumbUrl) });
+          }
+          const cardTracks = [];
+          for (const track of tracks) cardTracks.push({ title: track.title, blob: await blobOf(track.url) });
+          const blob = await createSceneCard({
+              message: userMessage,
+              theme,
+              layout,
+              audioReactive,
+              playlist: playlistSettings,
+              slideshow,
+              photos: cardPhotos,
+              tracks: cardTracks
+          });
+          downloadBlob(blob, `magic-tree-card_${fileTimestamp()}${CARD_EXTENSION}`);
+      } catch (err) {
+          console.error("Greeting card export failed", err);
+          alert("The greeting card could not be saved.");
+      } finally {
+          setIsExportingCard(false);
+      }
+  };
+
+  // Shows a card in place of the user's scene, which is put aside until the card is closed
+  const handleCardOpen = async (file: File) => {
+      let card: SceneCard;
+      try {
+          card = await readSceneCard(file);
+      } catch (err) {
+          console.error(`Could not open greeting card ${file.name}`, err);
+          alert(`${file.name} could not be opened. ${(err as Error).message}`);
+          return;
+      }
+
+      if (!ownSceneRef.current) {
+          ownSceneRef.current = {
+              photos, tracks, currentTrackUrl, message: userMessage, theme, layout, audioReactive,
+              playlist: playlistSettings, slideshow
+          };
+      } else {
+          // Opening a card over another one: the first card is dropped
+          const previous = { photos, tracks };
+          setTimeout(() => revokeSceneUrls(previous.photos, previous.tracks), (playlistSettings.crossfade + 1) * 1000);
+      }
+      viewerBundleRef.current = card;
+
+      setIsSlideshowPlaying(false);
+      setFocusId(null);
+      setAppState(AppState.TREE);
+      setDeleteConfirm(false);
+      gestureCooldownRef.current = Date.now() + 1000;
+      setPhotos(card.photos.map(photo => toGalleryPhoto(photo)));
+      setTracks(card.tracks.map(({ title, blob }) => ({ url: URL.createObjectURL(blob), title })));
+      setCurrentTrackUrl(null);
+      setUserMessage(card.message);
+      setTheme(card.theme);
+      setLayout(card.layout);
+      setAudioReactive(card.audioReactive);
+      setPlaylistSettings(card.playlist);
+      setSlideshow(card.slideshow);
+      setViewerCard(file.name);
+  };
+
+  const handleCardClose = () => {
+      const own = ownSceneRef.current;
+      if (!own) return;
+      const shown = { photos, tracks };
+      setTimeout(() => revokeSceneUrls(shown.photos, shown.tracks), (playlistSettings.crossfade + 1) * 1000);
+
+      setIsSlideshowPlaying(false);
+      setFocusId(null);
+      setAppState(AppState.TREE);
+      setDeleteConfirm(false);
+      gestureCooldownRef.current = Date.now() + 1000;
+      setPhotos(own.photos);
+      setTracks(own.tracks);
+      setCurrentTrackUrl(own.currentTrackUrl);
+      setUserMessage(own.message);
+      setTheme(own.theme);
+      setLayout(own.layout);
+      setAudioReactive(own.audioReactive);
+      setPlaylistSettings(own.playlist);
+      setSlideshow(own.slideshow);
+      ownSceneRef.current = null;
+      viewerBundleRef.current = null;
+      setViewerCard(null);
+  };
+
+  // Makes the card the user's own scene; leaving viewer mode lets the settings effects save it
+  const handleCardKeep = async () => {
+      const card = viewerBundleRef.current;
+      const own = ownSceneRef.current;
+      if (!card || !own) return;
+      if (!confirm("Keep this card? It replaces your own photos, music, wish and settings.")) return;
+
+      let keys: { photoKeys: number[], trackKeys: number[] };
+      try {
+          keys = await replaceLibrary(card.photos, card.tracks);
+      } catch (err) {
+          console.error("Could not save the greeting card", err);
+          alert("The card could not be saved in this browser, so your own scene was left as it was.");
+          return;
+      }
+      setPhotos(prev => prev.map((p, i) => ({ ...p, storeKey: keys.photoKeys[i] })));
+      setTracks(prev => prev.map((t, i) => ({ ...t, storeKey: keys.trackKeys[i] })));
+      revokeSceneUrls(own.photos, own.tracks);
+      ownSceneRef.current = null;
+      viewerBundleRef.current = null;
+      setViewerCard(null);
+  };
+
   const isInspectMode = appState === AppState.INSPECT;
+  const focusedPhoto = isInspectMode ? photos.find(p => p.id === focusId) : undefined;
+  const isTextMode = appState === AppState.TEXT;
+  const hints = GESTURE_HINTS[inputSource];
+  // One legend entry per gesture that's switched on: built-in ones first, then trained ones
+  const legend = [...GESTURES.map(g => g.id), ...customGestures.map(g => g.id)].flatMap(id => {
+      const binding = bindings.find(b => b.gesture === id);
+      const gesture = describeGesture(id, customGestures);
+      if (!gesture || !binding?.enabled || binding.states.length === 0) return [];
+      const action = GESTURE_ACTIONS.find(a => a.id === binding.action);
+      const desc = GESTURES.some(g => g.id === id) ? hints[id as GestureId] : hints.trained;
+      return [{ id, icon: gesture.icon, desc, label: action?.label ?? binding.action, binding }];
+  });
+  // The footer is hidden while a photo is open, so the gestures that step between photos get their own row
+  const inspectLegend = legend.filter(({ binding }) =>
+      binding.states.includes(AppState.INSPECT) && (binding.action === 'nextPhoto' || binding.action === 'previousPhoto'));
 
   return (
-    <div className="relative w-full h-screen bg-[#2d2436] overflow-hidden">
+    <div className="relative w-full h-screen bg-surface overflow-hidden">
       
       {/* 3D Scene Layer */}
-      <div className="absolute inset-0 z-0">
+      <div ref={sceneContainerRef} className="absolute inset-0 z-0">
         <MagicScene 
+            theme={theme}
+            layout={layout}
             appState={appState} 
             gesture={gestureData} 
             photos={photos} 
+            message={userMessage}
+            audio={audioReactive.enabled || (isSlideshowPlaying && slideshow.beatSync) ? audioAnalyser : null}
+            audioSensitivity={audioReactive.sensitivity}
+            audioPulse={audioReactive.enabled}
+            onBeat={handleBeat}
             focusId={focusId} 
+            photoSwipe={photoSwipe}
+            kenBurns={isSlideshowPlaying ? slideshow.interval : null}
+            captureRef={captureRef}
             onPhotoSelect={handlePhotoSelect}
         />
       </div>
 
-      {/* Embedded Background Audio with Fallback Error Handling */}
-      <audio 
-          ref={audioRef} 
-          src={audioSrc} 
-          loop 
-          onError={handleAudioError}
-      />
-
       {/* UI Overlay */}
       <div className="absolute inset-0 z-10 pointer-events-none w-full h-full">
         
         {/* Title */}
         <div className="absolute top-8 left-8 pointer-events-auto">
-            <h1 className="text-7xl cursive text-[#FFD700] drop-shadow-[0_3px_10px_rgba(0,0,0.5,0.5)]">
-              Merry Christmas
+            <h1 className="text-7xl cursive text-accent drop-shadow-[0_3px_10px_rgba(0,0,0.5,0.5)]">
+              {theme.text.title}
             </h1>
-            <p className="text-sm text-[#F2E8C9] font-light tracking-widest mt-2 ml-1 uppercase cinzel opacity-80">Interactive 3D Experience</p>
+            <p className="text-sm text-ink font-light tracking-widest mt-2 ml-1 uppercase cinzel opacity-80">{theme.text.subtitle}</p>
         </div>
 
         {/* Message Display */}
-        {userMessage && (
+        {userMessage && !isTextMode && (
             <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-full text-center pointer-events-none z-20 px-8">
-                <p className="text-[#F2E8C9]/80 text-lg md:text-xl font-light cinzel tracking-[0.5em] mb-4 uppercase drop-shadow-md animate-pulse">
-                    A Wish For You
+                <p className="text-ink/80 text-lg md:text-xl font-light cinzel tracking-[0.5em] mb-4 uppercase drop-shadow-md animate-pulse">
+                    {theme.text.wishHeading}
                 </p>
-                <h2 className="text-5xl md:text-7xl cursive text-[#FFD700] drop-shadow-[0_0_25px_rgba(255,215,0,0.8)] leading-tight animate-[fadeIn_1s_ease-out]">
+                <h2 className="text-5xl md:text-7xl cursive text-accent drop-shadow-[0_0_25px_rgb(var(--color-accent)/0.8)] leading-tight animate-[fadeIn_1s_ease-out]">
                     {userMessage}
                 </h2>
             </div>
         )}
           
-        {/* Top Right Controls (Music & Photo) */}
+        {/* Top Right Controls (Music, Photo, Gallery, Theme & Formation) */}
         <div className="absolute top-8 right-8 flex flex-col items-end gap-5 pointer-events-auto">
             
-            {/* 1. Music Toggle Button */}
-            <button 
-                onClick={toggleMute}
-                className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-500 shadow-xl backdrop-blur-md z-50
-                    ${!isMuted 
-                        ? 'bg-[#FFD700]/20 border-[#FFD700] text-[#FFD700] shadow-[0_0_20px_rgba(255,215,0,0.5)] animate-[spin_4s_linear_infinite]' 
-                        : 'bg-[#2d2436]/60 border-[#F2E8C9]/30 text-[#F2E8C9]/30'
-                    }`}
-                title={isMuted ? "Click to Play Music" : "Click to Mute"}
-            >
-                <MusicNoteIcon />
-                {!isMuted && (
-                    <span className="absolute -bottom-1 -right-1 flex h-3 w-3">
-                        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-[#FFD700] opacity-75"></span>
-                        <span className="relative inline-flex rounded-full h-3 w-3 bg-[#FFD700]"></span>
+            {/* 1. Music Toggle Button + Playlist + Missing File Notice */}
+            <div className="flex items-center gap-3">
+                {audioError && (
+                    <span className="text-[10px] text-red-300/80 tracking-widest uppercase font-light">
+                        {audioError}
                     </span>
                 )}
-            </button>
+                {!viewerCard && <MusicPanel
+                    tracks={tracks}
+                    currentUrl={audioSrc}
+                    title={trackName}
+                    settings={playlistSettings}
+                    onSettingsChange={setPlaylistSettings}
+                    onUpload={handleTrackUpload}
+                    onSelect={setCurrentTrackUrl}
+                    onMove={handleTrackMove}
+                    onRemove={handleTrackRemove}
+                    onSkip={direction => skipTrack(direction)}
+                    audioReactive={audioReactive}
+                    onAudioReactiveChange={handleAudioReactiveChange}
+                />}
+                <button 
+                    onClick={toggleMute}
+                    className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-500 shadow-xl backdrop-blur-md z-50
+                        ${!isMuted 
+                            ? 'bg-accent/20 border-accent text-accent shadow-[0_0_20px_rgb(var(--color-accent)/0.5)] animate-[spin_4s_linear_infinite]' 
+                            : 'bg-surface/60 border-ink/30 text-ink/30'
+                        }`}
+                    title={isMuted ? "Click to Play Music" : "Click to Mute"}
+                >
+                    <MusicNoteIcon />
+                    {!isMuted && (
+                        <span className="absolute -bottom-1 -right-1 flex h-3 w-3">
+                            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-accent opacity-75"></span>
+                            <span className="relative inline-flex rounded-full h-3 w-3 bg-accent"></span>
+                        </span>
+                    )}
+                </button>
+            </div>
 
-             {/* 2. Photo Upload Button (Camera Icon) */}
-            <label 
-                className="relative flex items-center justify-center w-14 h-14 rounded-full border border-[#F2E8C9]/30 bg-[#2d2436]/40 hover:bg-[#F2E8C9]/10 hover:border-[#FFD700] hover:text-[#FFD700] text-[#F2E8C9] transition-all duration-300 shadow-lg backdrop-blur-md cursor-pointer group z-50"
-                title={`Upload Photos (${photos.length}/${MAX_PHOTOS})`}
-            >
-                <CameraIcon />
-                <input type="file" multiple accept="image/*" onChange={handleFileUpload} className="hidden" />
-                
-                {/* Count Badge */}
-                {photos.length >= 0 && (
-                    <span className="absolute -top-1 -right-1 flex h-5 w-5 items-center justify-center rounded-full bg-[#FFD700] text-[#2d2436] text-[10px] font-bold shadow-sm ring-2 ring-[#2d2436]">
-                        {photos.length}
+             {/* 2. Photo Upload Button (Camera Icon) + Local Storage Usage */}
+            {!viewerCard && <div className="flex items-center gap-3">
+                {preparingCount > 0 ? (
+                    <span className="text-[10px] text-accent/80 tracking-widest uppercase font-light animate-pulse">
+                        preparing {preparingCount}…
+                    </span>
+                ) : storedBytes > 0 && (
+                    <span className="text-[10px] text-ink/60 tracking-widest uppercase font-light" title="Photos saved in this browser">
+                        stored {formatMegabytes(storedBytes)}
                     </span>
                 )}
-            </label>
+                <label 
+                    className="relative flex items-center justify-center w-14 h-14 rounded-full border border-ink/30 bg-surface/40 hover:bg-ink/10 hover:border-accent hover:text-accent text-ink transition-all duration-300 shadow-lg backdrop-blur-md cursor-pointer group z-50"
+                    title={`Upload Photos (${photos.length}/${MAX_PHOTOS})`}
+                >
+                    <CameraIcon />
+                    <input type="file" multiple accept="image/*" onChange={handleFileUpload} className="hidden" />
+                    
+                    {/* Count Badge */}
+                    {photos.length >= 0 && (
+                        <span className="absolute -top-1 -right-1 flex h-5 min-w-5 px-1 items-center justify-center rounded-full bg-accent text-surface text-[10px] font-bold shadow-sm ring-2 ring-surface">
+                            {photos.length}
+                        </span>
+                    )}
+                </label>
+            </div>}
+
+            {/* Gallery Manager */}
+            {!viewerCard && (
+                <GalleryPanel
+                    photos={photos}
+                    onReorder={handlePhotosReorder}
+                    onDelete={deletePhotos}
+                    onReplace={handlePhotoReplace}
+                    onInspect={handlePhotoSelect}
+                />
+            )}
+
+            <SlideshowPanel
+                settings={slideshow}
+                onSettingsChange={handleSlideshowChange}
+                isPlaying={isSlideshowPlaying}
+                canPlay={photos.length > 0}
+                onPlayingChange={handleSlideshowPlayingChange}
+            />
+
+            <VideoExportPanel
+                supported={isVideoRecordingSupported()}
+                isRecording={videoProgress !== null}
+                elapsed={videoProgress?.elapsed ?? 0}
+                duration={videoProgress?.duration ?? 0}
+                notice={isMuted ? "Music is muted, so the clip will be silent." : null}
+                onRecord={handleVideoRecord}
+                onCancel={handleVideoCancel}
+            />
+
+            <PosterPanel hasPhotos={photos.length > 0} isRendering={isRenderingPoster || videoProgress !== null} onExport={handlePosterExport} />
+
+            {/* Greeting Card (save this scene / open someone else's) */}
+            {isRestored && <SharePanel isExporting={isExportingCard} onExport={handleCardExport} onOpen={handleCardOpen} />}
+
+            {/* Theme Switcher & Formation Picker */}
+            {!viewerCard && <ThemePicker theme={theme} onChange={setTheme} />}
+            {!viewerCard && <FormationPanel layout={layout} onChange={handleLayoutChange} />}
         </div>
 
         {/* BOTTOM RIGHT AREA: Input + Hand Controller */}
         {/* Moved Input UP to bottom-36 to sit ABOVE the camera feed (which is bottom-4 + h-28 = ~8-9rem high) */}
-        <div className="absolute bottom-36 right-4 pointer-events-auto z-40">
+        <div className="absolute bottom-36 right-4 pointer-events-auto z-40 flex items-center gap-2">
+            {/* Spell the wish with the decorations */}
+            <button
+                onClick={toggleSpellWish}
+                disabled={!userMessage}
+                className={`w-12 h-12 rounded-xl border backdrop-blur-md shadow-lg text-lg transition-all duration-300 disabled:opacity-30 disabled:cursor-not-allowed ${
+                    isTextMode
+                    ? 'bg-accent/20 border-accent shadow-[0_0_15px_rgb(var(--color-accent)/0.4)]'
+                    : 'bg-surface/40 border-ink/20 hover:border-accent'
+                }`}
+                title={isTextMode ? "Back to the Tree" : "Spell the Wish in Lights"}
+            >
+                ✨
+            </button>
              {/* 3. Message Input (Moved to Bottom Right) */}
-            <form onSubmit={handleMessageSubmit} className="relative flex items-center group h-12">
+            {!viewerCard && <form onSubmit={handleMessageSubmit} className="relative flex items-center group h-12">
                 <input 
                     type="text" 
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                     placeholder="写下你想说..."
-                    className="bg-[#2d2436]/40 backdrop-blur-md border border-[#F2E8C9]/20 rounded-xl pl-5 pr-12 py-3 text-sm text-[#F2E8C9] placeholder-[#F2E8C9]/30 focus:outline-none focus:border-[#F2E8C9]/50 focus:bg-[#2d2436]/60 w-64 h-full shadow-lg transition-all duration-300"
+                    className="bg-surface/40 backdrop-blur-md border border-ink/20 rounded-xl pl-5 pr-12 py-3 text-sm text-ink placeholder-ink/30 focus:outline-none focus:border-ink/50 focus:bg-surface/60 w-64 h-full shadow-lg transition-all duration-300"
                 />
-                <button type="submit" className="absolute right-3 text-[#F2E8C9]/60 hover:text-[#FFD700] transition-colors p-1" title="Send Wish">
+                <button type="submit" className="absolute right-3 text-ink/60 hover:text-accent transition-colors p-1" title="Send Wish">
                     <SendIcon />
                 </button>
-            </form>
+            </form>}
         </div>
 
-        {/* Photo Management Control (Visible only when Inspecting) */}
-        {isInspectMode && focusId && focusId.startsWith('photo') && (
+        {/* Caption / date / note of the inspected photo; remounted per photo so drafts don't carry over */}
+        {focusedPhoto && !isSlideshowPlaying && !viewerCard && (
+            <PhotoCard key={focusedPhoto.id} photo={focusedPhoto} onChange={details => handlePhotoDetailsChange(focusedPhoto.id, details)} />
+        )}
+        {focusedPhoto && (isSlideshowPlaying || viewerCard) && <SlideCaption photo={focusedPhoto} />}
+
+        {/* Photo Management Control (Visible only when Inspecting, hidden during the slideshow) */}
+        {isInspectMode && focusId && !isSlideshowPlaying && (
             <div className="absolute bottom-12 left-1/2 transform -translate-x-1/2 pointer-events-auto flex items-center gap-4 animate-[fadeIn_0.5s_ease-out] z-50">
-                 <button 
+                 {!viewerCard && <button 
                     onClick={handleDeleteClick}
                     className={`flex items-center gap-2 px-6 py-2 backdrop-blur-md border rounded-full transition-all shadow-lg group duration-300 ${
                         deleteConfirm 
@@ -385,10 +1334,10 @@ const App: React.FC = () => {
                      <span className="text-sm font-cinzel tracking-wider">
                         {deleteConfirm ? 'CONFIRM' : 'DELETE'}
                      </span>
-                 </button>
+                 </button>}
                  <button 
                     onClick={handleCloseInspect}
-                    className="flex items-center gap-2 px-6 py-2 bg-black/60 hover:bg-black/80 backdrop-blur-md border border-[#F2E8C9]/30 rounded-full text-[#F2E8C9] hover:text-white transition-all shadow-lg"
+                    className="flex items-center gap-2 px-6 py-2 bg-black/60 hover:bg-black/80 backdrop-blur-md border border-ink/30 rounded-full text-ink hover:text-white transition-all shadow-lg"
                  >
                      <CloseIcon />
                      <span className="text-sm font-cinzel tracking-wider">CLOSE</span>
@@ -396,12 +1345,77 @@ const App: React.FC = () => {
             </div>
         )}
 
+        {isInspectMode && focusId && !isSlideshowPlaying && showInstructions && inspectLegend.length > 0 && (
+            <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-6 pointer-events-none z-50">
+                {inspectLegend.map(({ id, icon, desc, label }) => (
+                    <span key={id} className={`flex items-center gap-1.5 text-[9px] uppercase tracking-widest transition-opacity ${
+                        isGestureActive(gestureData, id) ? 'text-accent' : 'text-ink/60'
+                    }`}>
+                        <span className="text-base">{icon}</span>{label}<span className="text-ink/40 normal-case tracking-wider">{desc}</span>
+                    </span>
+                ))}
+            </div>
+        )}
+
+        {viewerCard && <CardViewerBar name={viewerCard} onKeep={handleCardKeep} onClose={handleCardClose} />}
+
         {/* Status Indicator */}
         <div className="absolute top-1/2 left-8 transform -translate-y-1/2 pointer-events-auto">
             <div className="flex flex-col gap-4">
                 <StatusItem active={appState === AppState.TREE} label="ASSEMBLED" />
                 <StatusItem active={appState === AppState.SCATTER} label="SCATTERED" />
                 <StatusItem active={appState === AppState.INSPECT} label="FOCUSED" />
+                <StatusItem active={isTextMode} label="SPELLING" />
+            </div>
+        </div>
+
+        {/* Input Source Picker (sits left of the controller preview) */}
+        <div className="absolute bottom-4 right-44 pointer-events-auto z-40 flex flex-col items-end gap-2">
+            {inputNotice && (
+                <div className="flex items-center gap-2 max-w-[16rem]">
+                    <span className="text-[9px] text-ink/60 tracking-wider text-right">
+                        {inputNotice} — using {INPUT_SOURCES.find(s => s.id === inputSource)?.label}
+                    </span>
+                    <button
+                        onClick={() => selectInputSource('camera')}
+                        className="shrink-0 text-[9px] text-accent hover:text-ink uppercase tracking-widest"
+                    >
+                        Retry Camera
+                    </button>
+                </div>
+            )}
+            <div className="flex gap-1 bg-surface/40 backdrop-blur-md border border-ink/20 rounded-full p-1 shadow-lg">
+                <CameraSettingsPanel settings={cameraSettings} onChange={setCameraSettings} />
+                <GestureBindingsPanel bindings={bindings} customGestures={customGestures} onChange={setBindings} />
+                <CustomGesturePanel
+                    gestures={customGestures}
+                    onChange={setCustomGestures}
+                    feedRef={handFeedRef}
+                    canRecord={inputSource === 'camera' && !isCalibrating}
+                    onRecordingChange={handleGestureRecording}
+                />
+                <CalibrationPanel
+                    profiles={profiles}
+                    activeId={activeProfileId}
+                    canCalibrate={inputSource === 'camera' && !isCalibrating && !isRecordingGesture}
+                    onSelect={setActiveProfileId}
+                    onDelete={handleProfileDelete}
+                    onCalibrate={handleCalibrationStart}
+                />
+                {INPUT_SOURCES.map(source => (
+                    <button
+                        key={source.id}
+                        onClick={() => selectInputSource(source.id)}
+                        title={source.label}
+                        className={`w-8 h-8 rounded-full text-sm transition-all duration-300 ${
+                            inputSource === source.id
+                            ? 'bg-accent/20 ring-1 ring-accent'
+                            : 'opacity-50 hover:opacity-100'
+                        }`}
+                    >
+                        {source.icon}
+                    </button>
+                ))}
             </div>
         </div>
 
@@ -412,17 +1426,17 @@ const App: React.FC = () => {
                 : (showInstructions ? 'opacity-100 pointer-events-auto' : 'opacity-0 hover:opacity-100 pointer-events-auto')
             } 
             text-center z-20`}>
-            <div className="inline-block bg-[#2d2436]/60 backdrop-blur-lg border border-[#F2E8C9]/10 rounded-xl p-6 shadow-xl">
-                <div className="grid grid-cols-5 gap-8 text-center">
-                    <Instruction label="Assemble" icon="✊" desc="Close Fist" active={gestureData.isFist} />
-                    <Instruction label="Scatter" icon="🖐️" desc="Open Hand" active={gestureData.isOpen} />
-                    <Instruction label="Random" icon="☝️" desc="Point Finger" active={gestureData.isPointing} />
-                    <Instruction label="Select" icon="👆" desc="Click Photo" active={false} />
-                    <Instruction label="Inspect" icon="🤏" desc="Pinch" active={gestureData.isPinching} />
+            <div className="inline-block bg-surface/60 backdrop-blur-lg border border-ink/10 rounded-xl p-6 shadow-xl">
+                <div className="grid grid-flow-col auto-cols-fr gap-8 text-center">
+                    {legend.map(({ id, icon, desc, label }) => (
+                        <Instruction key={id} label={label} icon={icon} desc={desc} active={isGestureActive(gestureData, id)} />
+                    ))}
+                    <Instruction label="Select" icon="👆" desc={inputSource === 'touch' ? 'Tap Photo' : 'Click Photo'} active={false} />
+                    <Instruction label="Zoom & Spin" icon="🙌" desc={hints.twoHands} active={!!gestureData.twoHand} />
                 </div>
                 <button 
                     onClick={() => setShowInstructions(false)} 
-                    className="mt-4 text-xs text-[#F2E8C9]/60 hover:text-white underline"
+                    className="mt-4 text-xs text-ink/60 hover:text-white underline"
                 >
                     Hide Overlay
                 </button>
@@ -431,7 +1445,21 @@ const App: React.FC = () => {
 
       </div>
 
-      <HandController onGesture={handleGesture} />
+      {isCalibrating && (
+          <CalibrationWizard
+              feedRef={handFeedRef}
+              suggestedName={`Profile ${profiles.length + 1}`}
+              onSave={handleCalibrationSave}
+              onCancel={endCalibration}
+          />
+      )}
+
+      {inputSource === 'camera' && (
+          <HandController onGesture={handleGesture} onUnavailable={handleSourceUnavailable} thresholds={thresholds} handFeedRef={handFeedRef} customGestures={customGestures} camera={cameraSettings} />
+      )}
+      {inputSource === 'mouse' && <MouseKeyboardController onGesture={handleGesture} />}
+      {inputSource === 'touch' && <TouchController onGesture={handleGesture} />}
+      {inputSource === 'replay' && <ReplayController onGesture={handleGesture} />}
 
     </div>
   );
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { CalibrationProfile, DEFAULT_PROFILE } from '../utils/calibration';
+
+interface CalibrationPanelProps {
+  profiles: CalibrationProfile[]; // Calibrated ones; the default profile is always listed first
+  activeId: string;
+  canCalibrate: boolean; // Calibration needs the camera as the input source
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCalibrate: () => void;
+}
+
+// Switches between calibration profiles and starts a new calibration
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ profiles, activeId, canCalibrate, onSelect, onDelete, onCalibrate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-11 right-0 w-56 max-h-[70vh] overflow-y-auto rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-1">
+          <span className="text-[10px] text-accent tracking-widest uppercase mb-1">Hand Profile</span>
+
+          {[DEFAULT_PROFILE, ...profiles].map(profile => (
+            <div key={profile.id} className="flex items-center gap-1">
+              <button
+                onClick={() => onSelect(profile.id)}
+                className={`flex-1 text-left px-2 py-1 rounded-lg text-[10px] tracking-wider truncate transition-colors ${
+                  profile.id === activeId ? 'bg-accent/20 text-accent' : 'text-ink/70 hover:bg-ink/10'
+                }`}
+                title={profile.createdAt ? `Calibrated ${new Date(profile.createdAt).toLocaleString()}` : 'Built-in thresholds'}
+              >
+                {profile.name}
+              </button>
+              {profile.id !== DEFAULT_PROFILE.id && (
+                <button
+                  onClick={() => confirm(`Delete the profile "${profile.name}"?`) && onDelete(profile.id)}
+                  className="px-1 text-[10px] text-ink/40 hover:text-red-300"
+                  title="Delete Profile"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onCalibrate();
+            }}
+            disabled={!canCalibrate}
+            className="mt-1 py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 disabled:opacity-50 transition-colors"
+          >
+            Calibrate…
+          </button>
+          {!canCalibrate && <span className="text-[9px] text-ink/50 leading-snug">Switch to hand tracking to calibrate.</span>}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Hand Profile & Calibration"
+        className={`w-8 h-8 rounded-full text-sm transition-all duration-300 ${
+          isOpen ? 'bg-accent/20 ring-1 ring-accent' : 'opacity-50 hover:opacity-100'
+        }`}
+      >
+        📏
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureThresholds, HandFeed } from '../utils/gestures';
+import {
+  CALIBRATION_HOLD_MS, CALIBRATION_POSES, CALIBRATION_READY_MS, CalibrationSamples, deriveThresholds
+} from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  feedRef: React.MutableRefObject<HandFeed | null>; // Filled in here, called by HandController every frame
+  suggestedName: string;
+  onSave: (name: string, thresholds: GestureThresholds) => void;
+  onCancel: () => void;
+}
+
+type Phase =
+  | { kind: 'pose', step: number, stage: 'ready' | 'hold', startedAt: number }
+  | { kind: 'done', thresholds: GestureThresholds }
+  | { kind: 'failed', error: string };
+
+const emptySamples = (): CalibrationSamples => ({ open: [], fist: [], point: [], pinch: [] });
+const firstPhase = (): Phase => ({ kind: 'pose', step: 0, stage: 'ready', startedAt: performance.now() });
+
+// Asks for each pose in turn, records it for a few seconds, then offers the derived profile
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ feedRef, suggestedName, onSave, onCancel }) => {
+  const [phase, setPhase] = useState<Phase>(firstPhase);
+  const phaseRef = useRef(phase);
+  const samplesRef = useRef(emptySamples());
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [name, setName] = useState(suggestedName);
+
+  const goTo = (next: Phase) => {
+    phaseRef.current = next;
+    setPhase(next);
+    setProgress(0);
+  };
+
+  const restart = () => {
+    samplesRef.current = emptySamples();
+    goTo(firstPhase());
+  };
+
+  useEffect(() => {
+    feedRef.current = hand => {
+      const current = phaseRef.current;
+      if (current.kind !== 'pose') return;
+      const now = performance.now();
+      setHandVisible(!!hand);
+
+      // The countdown to recording only runs while the hand is in view
+      if (current.stage === 'ready') {
+        if (!hand) {
+          phaseRef.current = { ...current, startedAt: now };
+          setProgress(0);
+          return;
+        }
+        const elapsed = now - current.startedAt;
+        if (elapsed >= CALIBRATION_READY_MS) goTo({ ...current, stage: 'hold', startedAt: now });
+        else setProgress(elapsed / CALIBRATION_READY_MS);
+        return;
+      }
+
+      if (hand) samplesRef.current[CALIBRATION_POSES[current.step].id].push(hand.metrics);
+      const elapsed = now - current.startedAt;
+      if (elapsed < CALIBRATION_HOLD_MS) {
+        setProgress(elapsed / CALIBRATION_HOLD_MS);
+        return;
+      }
+      if (current.step + 1 < CALIBRATION_POSES.length) {
+        goTo({ kind: 'pose', step: current.step + 1, stage: 'ready', startedAt: now });
+        return;
+      }
+      try {
+        goTo({ kind: 'done', thresholds: deriveThresholds(samplesRef.current) });
+      } catch (err) {
+        goTo({ kind: 'failed', error: (err as Error).message });
+      }
+    };
+    return () => { feedRef.current = null; };
+  }, [feedRef]);
+
+  const pose = phase.kind === 'pose' ? CALIBRATION_POSES[phase.step] : null;
+
+  return (
+    <div className="absolute inset-0 z-[45] flex items-center justify-center bg-surface/40 backdrop-blur-sm pointer-events-auto">
+      <div className="w-80 rounded-2xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-2xl p-5 flex flex-col gap-3 text-center">
+        <span className="text-[10px] text-accent tracking-widest uppercase">Gesture Calibration</span>
+
+        {phase.kind === 'pose' && pose && (
+          <>
+            <span className="text-[9px] text-ink/50 uppercase tracking-widest">
+              Pose {phase.step + 1} of {CALIBRATION_POSES.length}
+            </span>
+            <span className="text-5xl">{pose.icon}</span>
+            <span className="text-lg text-ink cinzel">{pose.label}</span>
+            <span className="text-[11px] text-ink/70 leading-snug">{pose.instruction}</span>
+            <div className="h-1.5 rounded-full bg-ink/10 overflow-hidden">
+              <div
+                className={`h-full transition-[width] duration-100 ${phase.stage === 'hold' ? 'bg-accent' : 'bg-ink/30'}`}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+            <span className="text-[10px] text-ink/60 tracking-widest uppercase">
+              {!handVisible ? 'Show your hand to the camera' : phase.stage === 'ready' ? 'Get ready…' : 'Hold it…'}
+            </span>
+          </>
+        )}
+
+        {phase.kind === 'done' && (
+          <>
+            <span className="text-[11px] text-ink/70 leading-snug">
+              All four poses recorded. Name this profile so you can switch back to it later.
+            </span>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="bg-surface/60 border border-ink/20 rounded-lg px-3 py-1.5 text-sm text-ink focus:outline-none focus:border-accent"
+            />
+            <span className="text-[9px] text-ink/50 tracking-wider">
+              Pinch below {phase.thresholds.pinchEnter.toFixed(2)} · fold margin {phase.thresholds.foldMargin.toFixed(2)} (hand lengths)
+            </span>
+            <button
+              onClick={() => onSave(name.trim() || suggestedName, phase.thresholds)}
+              className="py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 transition-colors"
+            >
+              Save &amp; Use
+            </button>
+          </>
+        )}
+
+        {phase.kind === 'failed' && (
+          <>
+            <span className="text-[11px] text-red-300/90 leading-snug">{phase.error}</span>
+            <button
+              onClick={restart}
+              className="py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 transition-colors"
+            >
+              Try Again
+            </button>
+          </>
+        )}
+
+        <div className="flex justify-center gap-4">
+          {phase.kind === 'done' && (
+            <button onClick={restart} className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest">
+              Redo
+            </button>
+          )}
+          <button onClick={onCancel} className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
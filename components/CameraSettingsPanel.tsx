@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS, CONFIDENCE_RANGE, CameraSettings, DEFAULT_CAMERA_SETTINGS
+} from '../utils/cameraSettings';
+import { listCameras } from '../services/cameraStream';
+
+const Toggle = ({ active, onClick, children }: { active: boolean, onClick: () => void, children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 px-1 py-1 rounded-lg text-[9px] uppercase tracking-widest transition-colors ${
+      active ? 'bg-accent/20 text-accent' : 'text-ink/60 hover:bg-ink/10'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const Slider = ({ label, value, onChange }: { label: string, value: number, onChange: (value: number) => void }) => (
+  <label className="flex flex-col gap-0.5">
+    <span className="flex justify-between text-[9px] text-ink/70 uppercase tracking-widest">
+      {label}<span className="text-ink">{Math.round(value * 100)}%</span>
+    </span>
+    <input
+      type="range"
+      min={CONFIDENCE_RANGE[0]}
+      max={CONFIDENCE_RANGE[1]}
+      step={0.05}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-accent"
+    />
+  </label>
+);
+
+interface CameraSettingsPanelProps {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+}
+
+// Picks the camera, its resolution and frame rate, and MediaPipe's model and confidence
+export const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  // Re-listed while open, so a camera plugged in meanwhile shows up
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => listCameras().then(setCameras).catch(err => console.error("Could not list cameras", err));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [isOpen]);
+
+  const update = (patch: Partial<CameraSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-11 right-0 w-60 max-h-[70vh] overflow-y-auto rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Camera</span>
+
+          <select
+            value={settings.deviceId ?? ''}
+            onChange={e => update({ deviceId: e.target.value || null })}
+            className="bg-surface/60 border border-ink/20 rounded-md px-1 py-1 text-[10px] text-ink focus:outline-none focus:border-accent"
+          >
+            <option value="">Default Camera</option>
+            {cameras.filter(c => c.deviceId).map((camera, i) => (
+              <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+            ))}
+          </select>
+          {cameras.length > 0 && cameras.every(c => !c.label) && (
+            <span className="text-[9px] text-ink/50 leading-snug">Camera names appear once the camera has been allowed.</span>
+          )}
+
+          <span className="text-[9px] text-ink/70 uppercase tracking-widest">Resolution</span>
+          <div className="flex gap-1">
+            {CAMERA_RESOLUTIONS.map(r => (
+              <Toggle key={r.id} active={settings.resolution === r.id} onClick={() => update({ resolution: r.id })}>{r.label}</Toggle>
+            ))}
+          </div>
+
+          <span className="text-[9px] text-ink/70 uppercase tracking-widest">Frame Rate</span>
+          <div className="flex gap-1">
+            {CAMERA_FRAME_RATES.map(rate => (
+              <Toggle key={rate} active={settings.frameRate === rate} onClick={() => update({ frameRate: rate })}>{rate} fps</Toggle>
+            ))}
+          </div>
+
+          <span className="text-[9px] text-ink/70 uppercase tracking-widest pt-2 border-t border-ink/10">Hand Model</span>
+          <div className="flex gap-1">
+            <Toggle active={settings.modelComplexity === 0} onClick={() => update({ modelComplexity: 0 })}>Lite</Toggle>
+            <Toggle active={settings.modelComplexity === 1} onClick={() => update({ modelComplexity: 1 })}>Full</Toggle>
+          </div>
+          <Slider label="Detection" value={settings.minDetectionConfidence} onChange={v => update({ minDetectionConfidence: v })} />
+          <Slider label="Tracking" value={settings.minTrackingConfidence} onChange={v => update({ minTrackingConfidence: v })} />
+          <span className="text-[9px] text-ink/50 leading-snug">
+            Lower resolution and the lite model run faster on slow machines; lower confidence keeps hands in dim rooms.
+          </span>
+
+          <button
+            onClick={() => onChange(DEFAULT_CAMERA_SETTINGS)}
+            className="self-end text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Camera Settings"
+        className={`w-8 h-8 rounded-full text-sm transition-all duration-300 ${
+          isOpen ? 'bg-accent/20 ring-1 ring-accent' : 'opacity-50 hover:opacity-100'
+        }`}
+      >
+        🎥
+      </button>
+    </div>
+  );
+};
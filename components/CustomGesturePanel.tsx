@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { HandFeed } from '../utils/gestures';
+import {
+  CUSTOM_GESTURE_ICONS, CustomGesture, MAX_SAMPLES_PER_GESTURE, MIN_SAMPLES_TO_RECOGNISE, SAMPLE_READY_MS,
+  SAMPLE_RECORD_MS, landmarkFeatures, mergeCustomGestures, parseCustomGestures, serializeCustomGestures
+} from '../utils/customGestures';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+
+interface CustomGesturePanelProps {
+  gestures: CustomGesture[];
+  onChange: (gestures: CustomGesture[]) => void;
+  feedRef: React.MutableRefObject<HandFeed | null>; // Filled in while recording, called by HandController every frame
+  canRecord: boolean; // Recording needs the camera as the input source
+  onRecordingChange: (isRecording: boolean) => void;
+}
+
+// What's being recorded: samples for an existing gesture, or a new one
+interface Take {
+  target: { id: string, name: string, icon: string };
+  isNew: boolean;
+  stage: 'ready' | 'record';
+  startedAt: number;
+  samples: number[][];
+}
+
+// Trains custom poses from a few seconds of camera samples, and imports/exports them
+export const CustomGesturePanel: React.FC<CustomGesturePanelProps> = ({ gestures, onChange, feedRef, canRecord, onRecordingChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState(CUSTOM_GESTURE_ICONS[0]);
+  const [take, setTake] = useState<Take | null>(null);
+  const takeRef = useRef<Take | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const gesturesRef = useRef(gestures);
+
+  useEffect(() => { gesturesRef.current = gestures; }, [gestures]);
+
+  const goTo = (next: Take | null) => {
+    takeRef.current = next;
+    setTake(next);
+    setProgress(0);
+  };
+
+  const finish = (done: Take) => {
+    goTo(null);
+    if (done.samples.length < MIN_SAMPLES_TO_RECOGNISE) {
+      setError('Too few frames had your hand in them. Keep it in view and try again.');
+      return;
+    }
+    const current = gesturesRef.current;
+    if (done.isNew) {
+      onChange([...current, { ...done.target, samples: done.samples }]);
+      setName('');
+    } else {
+      // Newest samples win once a gesture is full
+      onChange(current.map(g => g.id === done.target.id
+        ? { ...g, samples: [...g.samples, ...done.samples].slice(-MAX_SAMPLES_PER_GESTURE) }
+        : g));
+    }
+  };
+
+  // The feed only belongs to this panel while a take is running
+  const isRecording = take !== null;
+  useEffect(() => {
+    if (!isRecording) return;
+    onRecordingChange(true);
+    feedRef.current = hand => {
+      const current = takeRef.current;
+      if (!current) return;
+      const now = performance.now();
+      setHandVisible(!!hand);
+
+      if (current.stage === 'ready') {
+        if (!hand) {
+          takeRef.current = { ...current, startedAt: now };
+          setProgress(0);
+          return;
+        }
+        const elapsed = now - current.startedAt;
+        if (elapsed >= SAMPLE_READY_MS) goTo({ ...current, stage: 'record', startedAt: now });
+        else setProgress(elapsed / SAMPLE_READY_MS);
+        return;
+      }
+
+      if (hand) current.samples.push(landmarkFeatures(hand.landmarks, hand.handedness));
+      const elapsed = now - current.startedAt;
+      if (elapsed < SAMPLE_RECORD_MS) setProgress(elapsed / SAMPLE_RECORD_MS);
+      else finish(current);
+    };
+    return () => {
+      feedRef.current = null;
+      onRecordingChange(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording, feedRef]);
+
+  // Leaving the camera abandons the take
+  useEffect(() => {
+    if (!canRecord && takeRef.current) goTo(null);
+  }, [canRecord]);
+
+  const record = (target: Take['target'], isNew: boolean) => {
+    setError(null);
+    goTo({ target, isNew, stage: 'ready', startedAt: performance.now(), samples: [] });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(mergeCustomGestures(gestures, parseCustomGestures(await file.text())));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeCustomGestures(gestures)], { type: 'application/json' });
+    downloadBlob(blob, `gestures_${fileTimestamp()}.json`);
+  };
+
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-11 right-0 w-64 max-h-[70vh] overflow-y-auto rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Custom Gestures</span>
+          <span className="text-[9px] text-ink/50 leading-snug">
+            Hold a pose in front of the camera to teach it, then give it an action under Gesture Bindings.
+          </span>
+
+          {gestures.map(gesture => (
+            <div key={gesture.id} className="flex items-center gap-2">
+              <span className="text-base">{gesture.icon}</span>
+              <span className="flex-1 min-w-0 flex flex-col">
+                <span className="text-[10px] text-ink/80 tracking-wider truncate">{gesture.name}</span>
+                <span className={`text-[8px] tracking-wider ${gesture.samples.length < MIN_SAMPLES_TO_RECOGNISE ? 'text-red-300/80' : 'text-ink/40'}`}>
+                  {gesture.samples.length} samples
+                </span>
+              </span>
+              <button
+                onClick={() => record(gesture, false)}
+                disabled={!canRecord || isRecording || gesture.samples.length >= MAX_SAMPLES_PER_GESTURE}
+                className="px-1 text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest disabled:opacity-40"
+                title="Record More Samples"
+              >
+                + Rec
+              </button>
+              <button
+                onClick={() => confirm(`Delete the gesture "${gesture.name}"?`) && onChange(gestures.filter(g => g.id !== gesture.id))}
+                disabled={isRecording}
+                className="px-1 text-[10px] text-ink/40 hover:text-red-300"
+                title="Delete Gesture"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          {take ? (
+            <div className="flex flex-col gap-1 pt-2 border-t border-ink/10">
+              <span className="text-[10px] text-ink tracking-wider">{take.target.icon} {take.target.name}</span>
+              <div className="h-1.5 rounded-full bg-ink/10 overflow-hidden">
+                <div
+                  className={`h-full transition-[width] duration-100 ${take.stage === 'record' ? 'bg-accent' : 'bg-ink/30'}`}
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[9px] text-ink/60 tracking-widest uppercase">
+                  {!handVisible ? 'Show your hand' : take.stage === 'ready' ? 'Get ready…' : `Recording · ${take.samples.length}`}
+                </span>
+                <button onClick={() => goTo(null)} className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-1 pt-2 border-t border-ink/10">
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="New gesture name"
+                className="bg-surface/60 border border-ink/20 rounded-lg px-2 py-1 text-[11px] text-ink focus:outline-none focus:border-accent"
+              />
+              <div className="flex justify-between">
+                {CUSTOM_GESTURE_ICONS.map(choice => (
+                  <button
+                    key={choice}
+                    onClick={() => setIcon(choice)}
+                    className={`w-6 h-6 rounded-md text-sm transition-colors ${choice === icon ? 'bg-accent/20 ring-1 ring-accent' : 'hover:bg-ink/10'}`}
+                  >
+                    {choice}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => record({ id: uuidv4(), name: name.trim(), icon }, true)}
+                disabled={!canRecord || !name.trim()}
+                className="py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 disabled:opacity-50 transition-colors"
+              >
+                Record Pose
+              </button>
+              {!canRecord && <span className="text-[9px] text-ink/50 leading-snug">Switch to hand tracking to record.</span>}
+            </div>
+          )}
+
+          {error && <span className="text-[9px] text-red-300 leading-tight">{error}</span>}
+
+          <div className="flex justify-between pt-2 border-t border-ink/10">
+            <label className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest cursor-pointer">
+              Import…
+              <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={gestures.length === 0}
+              className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest disabled:opacity-40"
+            >
+              Export JSON
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Custom Gestures"
+        className={`w-8 h-8 rounded-full text-sm transition-all duration-300 ${
+          isOpen || isRecording ? 'bg-accent/20 ring-1 ring-accent' : 'opacity-50 hover:opacity-100'
+        }`}
+      >
+        🤘
+      </button>
+    </div>
+  );
+};
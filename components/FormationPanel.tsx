@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_LAYOUT, FORMATIONS, LAYOUT_RANGES, LayoutParams } from '../utils/formations';
+
+const ShapesIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3l7 12H5l7-12zM4 19h16" />
+  </svg>
+);
+
+type NumericParam = Exclude<keyof LayoutParams, 'formation'>;
+
+// Counts rebuild every decoration, so they apply on release; sizes only move them and apply live
+const PARAMS: { name: NumericParam, label: string, step: number, live: boolean }[] = [
+  { name: 'ornaments', label: 'Ornaments', step: 10, live: false },
+  { name: 'foil', label: 'Foil', step: 10, live: false },
+  { name: 'ribbon', label: 'Ribbon', step: 20, live: false },
+  { name: 'lights', label: 'Lights', step: 10, live: false },
+  { name: 'height', label: 'Height', step: 0.5, live: true },
+  { name: 'radius', label: 'Radius', step: 0.5, live: true },
+];
+
+const ParamSlider = ({ label, value, min, max, step, live, onChange }: {
+  label: string, value: number, min: number, max: number, step: number, live: boolean, onChange: (value: number) => void
+}) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => { if (draft !== value) onChange(draft); };
+
+  return (
+    <label className="flex flex-col gap-0.5">
+      <span className="flex justify-between text-[9px] text-ink/70 uppercase tracking-widest">
+        {label}<span className="text-ink">{draft}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={e => {
+          const next = Number(e.target.value);
+          setDraft(next);
+          if (live) onChange(next);
+        }}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="w-full accent-accent"
+      />
+    </label>
+  );
+};
+
+interface FormationPanelProps {
+  layout: LayoutParams;
+  onChange: (layout: LayoutParams) => void;
+}
+
+// Picks the TREE-state formation and tunes its decoration counts and size
+export const FormationPanel: React.FC<FormationPanelProps> = ({ layout, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center">
+      {isOpen && (
+        <div className="absolute right-16 top-0 w-56 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Formation</span>
+          <div className="grid grid-cols-3 gap-1">
+            {FORMATIONS.map(formation => (
+              <button
+                key={formation.id}
+                onClick={() => onChange({ ...layout, formation: formation.id })}
+                className={`flex flex-col items-center gap-0.5 py-1.5 rounded-lg transition-colors ${
+                  layout.formation === formation.id ? 'bg-accent/20 text-accent' : 'text-ink/80 hover:bg-ink/10'
+                }`}
+              >
+                <span className="text-lg">{formation.icon}</span>
+                <span className="text-[9px] uppercase tracking-widest">{formation.name}</span>
+              </button>
+            ))}
+          </div>
+
+          {PARAMS.map(param => (
+            <ParamSlider
+              key={param.name}
+              {...param}
+              min={LAYOUT_RANGES[param.name][0]}
+              max={LAYOUT_RANGES[param.name][1]}
+              value={layout[param.name]}
+              onChange={value => onChange({ ...layout, [param.name]: value })}
+            />
+          ))}
+
+          <button
+            onClick={() => onChange({ ...DEFAULT_LAYOUT, formation: layout.formation })}
+            className="self-end text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest"
+          >
+            Reset Sizes
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title="Formation"
+      >
+        <ShapesIcon />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { GalleryPhoto } from '../types';
+
+const GalleryIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+  </svg>
+);
+
+/** `ids` with `moved` taken out and reinserted at `target`'s index. */
+const moveTo = (ids: string[], moved: string, target: string): string[] => {
+  const from = ids.indexOf(moved);
+  const to = ids.indexOf(target);
+  if (from < 0 || to < 0 || from === to) return ids;
+  const next = ids.filter(id => id !== moved);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+interface GalleryPanelProps {
+  photos: GalleryPhoto[];
+  onReorder: (ids: string[]) => void;
+  onDelete: (ids: string[]) => void;
+  onReplace: (id: string, file: File) => void;
+  onInspect: (id: string) => void;
+}
+
+// Thumbnail grid: click to select, drag to reorder, double-click to inspect
+export const GalleryPanel: React.FC<GalleryPanelProps> = ({ photos, onReorder, onDelete, onReplace, onInspect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState(false);
+
+  // Forget selections of photos that are gone
+  useEffect(() => {
+    setSelected(prev => {
+      const ids = new Set(photos.map(p => p.id));
+      const kept = [...prev].filter(id => ids.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+  }, [photos]);
+
+  useEffect(() => setDeleteConfirm(false), [selected, isOpen]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (dragId) onReorder(moveTo(photos.map(p => p.id), dragId, targetId));
+    setDragId(null);
+    setOverId(null);
+  };
+
+  const handleDelete = () => {
+    if (!deleteConfirm) {
+      setDeleteConfirm(true);
+      return;
+    }
+    onDelete([...selected]);
+    setSelected(new Set());
+  };
+
+  const handleReplace = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const [id] = [...selected];
+    if (file && id) onReplace(id, file);
+  };
+
+  return (
+    <div className="relative flex items-center">
+      {isOpen && (
+        <div className="absolute right-16 top-0 w-80 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-accent tracking-widest uppercase">Gallery</span>
+            {photos.length > 0 && (
+              <button
+                onClick={() => setSelected(selected.size === photos.length ? new Set() : new Set(photos.map(p => p.id)))}
+                className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest"
+              >
+                {selected.size === photos.length ? 'Select None' : 'Select All'}
+              </button>
+            )}
+          </div>
+
+          {photos.length === 0 ? (
+            <span className="text-[10px] text-ink/60 leading-snug">No photos yet. Upload some with the camera button.</span>
+          ) : (
+            <div className="grid grid-cols-4 gap-1.5 max-h-[50vh] overflow-y-auto pr-1">
+              {photos.map(photo => {
+                const isSelected = selected.has(photo.id);
+                return (
+                  <button
+                    key={photo.id}
+                    draggable
+                    onDragStart={e => {
+                      setDragId(photo.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={e => {
+                      e.preventDefault();
+                      setOverId(photo.id);
+                    }}
+                    onDragLeave={() => setOverId(id => (id === photo.id ? null : id))}
+                    onDrop={e => {
+                      e.preventDefault();
+                      handleDrop(photo.id);
+                    }}
+                    onDragEnd={() => {
+                      setDragId(null);
+                      setOverId(null);
+                    }}
+                    onClick={() => toggleSelected(photo.id)}
+                    onDoubleClick={() => onInspect(photo.id)}
+                    title={`${photo.name} · ${new Date(photo.addedAt).toLocaleDateString()}`}
+                    className={`relative aspect-square rounded-md overflow-hidden ring-2 transition-all ${
+                      isSelected ? 'ring-accent' : 'ring-transparent hover:ring-ink/40'
+                    } ${dragId === photo.id ? 'opacity-40' : ''} ${overId === photo.id && dragId !== photo.id ? 'translate-x-1' : ''}`}
+                  >
+                    <img src={photo.thumbUrl} alt={photo.name} draggable={false} className="w-full h-full object-cover" />
+                    {isSelected && (
+                      <span className="absolute top-0.5 right-0.5 w-4 h-4 rounded-full bg-accent text-surface text-[9px] font-bold flex items-center justify-center">✓</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {selected.size > 0 && (
+            <div className="flex justify-between items-center pt-2 border-t border-ink/10">
+              <button
+                onClick={handleDelete}
+                className={`text-[9px] uppercase tracking-widest transition-colors ${deleteConfirm ? 'text-red-300' : 'text-ink/70 hover:text-red-300'}`}
+              >
+                {deleteConfirm ? `Confirm Delete (${selected.size})` : `Delete (${selected.size})`}
+              </button>
+              {selected.size === 1 && (
+                <label className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest cursor-pointer">
+                  Replace…
+                  <input type="file" accept="image/*" onChange={handleReplace} className="hidden" />
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title="Gallery"
+      >
+        <GalleryIcon />
+      </button>
+    </div>
+  );
+};
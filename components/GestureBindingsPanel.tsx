@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { BINDING_STATES, DEFAULT_BINDINGS, GESTURE_ACTIONS, GestureActionId, GestureBinding, describeGesture, syncCustomBindings } from '../utils/bindings';
+import { CustomGesture } from '../utils/customGestures';
+
+interface GestureBindingsPanelProps {
+  bindings: GestureBinding[];
+  customGestures: CustomGesture[]; // For the names and icons of trained gestures
+  onChange: (bindings: GestureBinding[]) => void;
+}
+
+// Rebinds each gesture to an action, limits it to some states, or turns it off
+export const GestureBindingsPanel: React.FC<GestureBindingsPanelProps> = ({ bindings, customGestures, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (index: number, patch: Partial<GestureBinding>) =>
+    onChange(bindings.map((b, i) => i === index ? { ...b, ...patch } : b));
+
+  const toggleState = (index: number, state: AppState) => {
+    const { states } = bindings[index];
+    update(index, { states: states.includes(state) ? states.filter(s => s !== state) : [...states, state] });
+  };
+
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-11 right-0 w-80 max-h-[70vh] overflow-y-auto rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Gesture Bindings</span>
+          <span className="text-[9px] text-ink/50 leading-snug">
+            Pick what each gesture does and in which states it listens. Higher rows win when two gestures show at once.
+          </span>
+
+          {bindings.map((binding, i) => {
+            const gesture = describeGesture(binding.gesture, customGestures);
+            return (
+              <div key={binding.gesture} className={`flex flex-col gap-1 py-1 border-t border-ink/10 ${binding.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={binding.enabled}
+                    onChange={e => update(i, { enabled: e.target.checked })}
+                    className="accent-accent"
+                    title={binding.enabled ? 'Turn this gesture off' : 'Turn this gesture on'}
+                  />
+                  <span className="text-base">{gesture?.icon}</span>
+                  <span className="flex-1 text-[9px] text-ink/80 uppercase tracking-widest">{gesture?.label}</span>
+                  <select
+                    value={binding.action}
+                    disabled={!binding.enabled}
+                    onChange={e => update(i, { action: e.target.value as GestureActionId })}
+                    className="bg-surface/60 border border-ink/20 rounded-md px-1 py-0.5 text-[10px] text-ink focus:outline-none focus:border-accent"
+                  >
+                    {GESTURE_ACTIONS.map(action => (
+                      <option key={action.id} value={action.id}>{action.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-1 pl-6">
+                  {BINDING_STATES.map(state => (
+                    <button
+                      key={state.id}
+                      onClick={() => toggleState(i, state.id)}
+                      disabled={!binding.enabled}
+                      title={`Listen while in ${state.label}`}
+                      className={`flex-1 py-0.5 rounded-md text-[8px] uppercase tracking-widest transition-colors ${
+                        binding.states.includes(state.id) ? 'bg-accent/20 text-accent' : 'text-ink/40 hover:bg-ink/10'
+                      }`}
+                    >
+                      {state.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => onChange(syncCustomBindings(DEFAULT_BINDINGS, customGestures))}
+            className="self-end text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Gesture Bindings"
+        className={`w-8 h-8 rounded-full text-sm transition-all duration-300 ${
+          isOpen ? 'bg-accent/20 ring-1 ring-accent' : 'opacity-50 hover:opacity-100'
+        }`}
+      >
+        ⚙️
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { GestureLabel, GestureThresholds, HandDiagnostics, thresholdsFor } from '../utils/gestures';
+import { FrameStats } from '../utils/handDiagnostics';
+import { CustomGesture } from '../utils/customGestures';
+
+export interface DiagnosticsSnapshot {
+  hands: HandDiagnostics[];
+  gesture: GestureLabel; // What onGesture reported (after the hold time)
+  customGesture: string | null; // Likewise for trained poses
+  confidence: number;
+  stats: FrameStats;
+}
+
+export const GESTURE_NAMES: Record<GestureLabel, string> = {
+  isFist: 'Fist',
+  isOpen: 'Open',
+  isPinching: 'Pinch',
+  isPointing: 'Point',
+  isVictory: 'Victory',
+  isThumbsUp: 'Thumbs Up',
+  none: '—',
+};
+
+const FINGERS = ['Index', 'Middle', 'Ring', 'Pinky'];
+
+const Row = ({ label, value, ok }: { label: string, value: string, ok?: boolean }) => (
+  <div className="flex justify-between gap-2 text-[10px] tracking-wider">
+    <span className="text-ink/60">{label}</span>
+    <span className={`tabular-nums ${ok === undefined ? 'text-ink' : ok ? 'text-accent' : 'text-ink/40'}`}>{value}</span>
+  </div>
+);
+
+// Bar with the measured value against a threshold marker (both in the same units)
+const Meter = ({ value, threshold, max }: { value: number, threshold: number, max: number }) => (
+  <div className="relative h-1 rounded-full bg-ink/10">
+    <div className="absolute inset-y-0 left-0 rounded-full bg-accent/70" style={{ width: `${Math.min(1, Math.max(0, value / max)) * 100}%` }} />
+    <div className="absolute -inset-y-0.5 w-px bg-ink" style={{ left: `${Math.min(1, threshold / max) * 100}%` }} />
+  </div>
+);
+
+// Expanded diagnostics: every detector's raw metric next to the threshold it's judged by
+export const GestureDiagnosticsPanel: React.FC<{ snapshot: DiagnosticsSnapshot, thresholds: GestureThresholds, customGestures: CustomGesture[] }> = ({
+  snapshot, thresholds, customGestures
+}) => {
+  const { hands, gesture, customGesture, confidence, stats } = snapshot;
+  const fixed = (n: number) => n.toFixed(3);
+  const customName = (id: string) => customGestures.find(g => g.id === id)?.name ?? '?';
+  return (
+    <div className="fixed bottom-4 right-[26rem] z-50 w-64 max-h-[calc(100vh-2rem)] overflow-y-auto rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+      <span className="text-[10px] text-accent tracking-widest uppercase">Hand Diagnostics</span>
+      <Row label="Frame Rate" value={`${stats.fps.toFixed(0)} fps`} />
+      <Row label="MediaPipe Latency" value={`${stats.latency.toFixed(0)} ms`} />
+      <Row label="Gesture" value={`${GESTURE_NAMES[gesture]} · ${Math.round(confidence * 100)}%`} ok={gesture !== 'none'} />
+      {customGestures.length > 0 && (
+        <Row label="Trained Gesture" value={customGesture ? customName(customGesture) : '—'} ok={customGesture !== null} />
+      )}
+
+      {hands.length === 0 && <span className="text-[10px] text-ink/50">No hand in view</span>}
+      {hands.map(hand => {
+        // Calibrated profiles scale with the hand, so each hand gets its own numbers
+        const t = thresholdsFor(thresholds, hand.metrics);
+        return (
+          <div key={hand.handedness} className="flex flex-col gap-1 pt-2 border-t border-ink/10">
+            <span className="text-[9px] text-ink/70 uppercase tracking-widest">
+              {hand.handedness} hand{hand.isPrimary ? ' (primary)' : ''} · {Math.round(hand.score * 100)}%
+            </span>
+            <Row label="This Frame" value={GESTURE_NAMES[hand.raw]} ok={hand.raw !== 'none'} />
+            {customGestures.length > 0 && (
+              <Row
+                label="Trained Match"
+                value={hand.customMatch ? `${customName(hand.customMatch.id)} ${hand.customMatch.distance.toFixed(2)}/${hand.customMatch.limit.toFixed(2)}` : '—'}
+                ok={hand.customMatch !== null}
+              />
+            )}
+
+            <Row label={`Pinch (< ${fixed(t.pinchEnter)})`} value={fixed(hand.metrics.pinchDistance)} ok={hand.metrics.pinchDistance < t.pinchEnter} />
+            <Meter value={hand.metrics.pinchDistance} threshold={t.pinchEnter} max={t.pinchExit * 3} />
+
+            <span className="text-[9px] text-ink/50 tracking-wider">Tip above PIP flips past ±{fixed(t.foldMargin)}</span>
+            {FINGERS.map((finger, i) => (
+              <Row
+                key={finger}
+                label={finger}
+                value={`${fixed(hand.metrics.fingerLift[i])} ${hand.extended[i] ? 'up' : 'down'}`}
+                ok={hand.extended[i]}
+              />
+            ))}
+
+            <Row label="Thumb straight" value={hand.metrics.thumbStraight ? 'yes' : 'no'} ok={hand.metrics.thumbStraight} />
+            <Row label={`Thumb rise (> ${fixed(t.thumbUpMargin)})`} value={fixed(hand.metrics.thumbRise)} ok={hand.metrics.thumbRise > t.thumbUpMargin} />
+            <Row label="Hand size" value={fixed(hand.metrics.handSize)} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
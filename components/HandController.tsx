@@ -1,17 +1,45 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { HandGestureData } from '../types';
+import { Hands, Results } from '@mediapipe/hands';
+import { GestureSourceProps, HandGestureData } from '../types';
+import { GestureThresholds, HandFeed, createHandTracker, labelOf, toTrackedHands } from '../utils/gestures';
+import { createFrameMeter, drawHandSkeleton } from '../utils/handDiagnostics';
+import { CustomGesture, createGestureClassifier } from '../utils/customGestures';
+import { DiagnosticsSnapshot, GestureDiagnosticsPanel, GESTURE_NAMES } from './GestureDiagnosticsPanel';
+import { createLandmarkRecorder } from '../utils/landmarkRecording';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { loadScript } from '../utils/loadScript';
+import { CAMERA_ERRORS, CameraErrorKind, CameraSettings, cameraErrorKind, resolutionOf } from '../utils/cameraSettings';
+import { CameraStream, startCameraStream } from '../services/cameraStream';
 
-// Declare globals loaded via script tags
+// Declare globals set by the self-hosted MediaPipe scripts (the package's types, its script's runtime)
 declare global {
   interface Window {
-    Hands: any;
-    Camera: any;
+    Hands: typeof Hands;
   }
 }
 
-interface Props {
-  onGesture: (data: HandGestureData) => void;
-}
+// MediaPipe scripts, wasm and models are bundled by vite.config.ts (mediapipeAssets)
+const MEDIAPIPE_BASE = `${import.meta.env.BASE_URL}mediapipe`;
+const HANDS_SCRIPT = `${MEDIAPIPE_BASE}/hands/hands.js`;
+
+const handsOptions = (camera: CameraSettings) => ({
+  maxNumHands: 2,
+  modelComplexity: camera.modelComplexity,
+  minDetectionConfidence: camera.minDetectionConfidence,
+  minTrackingConfidence: camera.minTrackingConfidence,
+});
+
+// Loading the scripts & model, then starting the camera; an error stays up until a retry or a fallback
+type Status =
+  | { kind: 'loading' }
+  | { kind: 'starting' }
+  | { kind: 'ready' }
+  | { kind: 'error', error: CameraErrorKind, detail: string };
+
+// Diagnostics: skeleton over the preview, plus the readout (compact) or the full metrics panel (expanded)
+type DiagnosticsView = 'off' | 'compact' | 'expanded';
+const NEXT_VIEW: Record<DiagnosticsView, DiagnosticsView> = { off: 'compact', compact: 'expanded', expanded: 'off' };
+const SNAPSHOT_INTERVAL_MS = 100; // Text readouts don't need every frame
 
 const EyeIcon = ({ visible }: { visible: boolean }) => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -24,133 +52,232 @@ const EyeIcon = ({ visible }: { visible: boolean }) => (
     </svg>
 );
 
-export const HandController: React.FC<Props> = ({ onGesture }) => {
+interface HandControllerProps extends GestureSourceProps {
+  thresholds: GestureThresholds; // From the active calibration profile
+  handFeedRef?: React.MutableRefObject<HandFeed | null>; // Given the primary hand every frame (calibration, training)
+  customGestures: CustomGesture[]; // Trained poses to recognise
+  camera: CameraSettings; // Device, size and MediaPipe settings; changes apply while running
+}
+
+export const HandController: React.FC<HandControllerProps> = ({ onGesture, onUnavailable, thresholds, handFeedRef, customGestures, camera }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loaded, setLoaded] = useState(false);
+  const [status, setStatus] = useState<Status>({ kind: 'loading' });
+  const loaded = status.kind === 'ready';
+  const handsRef = useRef<Hands | null>(null);
+  const [handsReady, setHandsReady] = useState(false);
+  // Bumped by Retry: the first reloads MediaPipe, the second only restarts the camera
+  const [libraryAttempt, setLibraryAttempt] = useState(0);
+  const [cameraAttempt, setCameraAttempt] = useState(0);
   const [isVisible, setIsVisible] = useState(true);
+  // Smooths positions and debounces gestures between MediaPipe and onGesture
+  const trackerRef = useRef(createHandTracker());
+  // Captures the raw landmark stream for replay (see ReplayController)
+  const recorderRef = useRef(createLandmarkRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [diagnosticsView, setDiagnosticsView] = useState<DiagnosticsView>('off');
+  const diagnosticsViewRef = useRef(diagnosticsView);
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot | null>(null);
+  const meterRef = useRef(createFrameMeter());
+  const snapshotAtRef = useRef(0);
+  const thresholdsRef = useRef(thresholds);
 
   useEffect(() => {
-    if (!videoRef.current || !canvasRef.current) return;
+    thresholdsRef.current = thresholds;
+    trackerRef.current.setThresholds(thresholds);
+  }, [thresholds]);
 
-    const videoElement = videoRef.current;
-    
-    // Safety check for MediaPipe global loading
-    const checkLibs = setInterval(() => {
-      if (window.Hands && window.Camera) {
-        clearInterval(checkLibs);
-        initMediaPipe();
-      }
-    }, 100);
-
-    const initMediaPipe = () => {
-      const hands = new window.Hands({
-        locateFile: (file: string) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        },
-      });
-
-      hands.setOptions({
-        maxNumHands: 1,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      hands.onResults(onResults);
-
-      const camera = new window.Camera(videoElement, {
-        onFrame: async () => {
-          if (videoElement.videoWidth) {
-             await hands.send({ image: videoElement });
-          }
-        },
-        width: 320,
-        height: 240,
-      });
-
-      camera.start()
-        .then(() => setLoaded(true))
-        .catch((err: any) => console.error("Camera error:", err));
+  useEffect(() => {
+    trackerRef.current.setClassifier(customGestures.length > 0 ? createGestureClassifier(customGestures) : null);
+  }, [customGestures]);
+
+  // onResults is registered once, so it reads the view through the ref
+  useEffect(() => {
+    diagnosticsViewRef.current = diagnosticsView;
+    if (diagnosticsView === 'off') {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      setSnapshot(null);
+    }
+  }, [diagnosticsView]);
+
+  // MediaPipe loads once per attempt; the camera below restarts without reloading it
+  useEffect(() => {
+    let hands: Hands | null = null;
+    let disposed = false;
+    setStatus({ kind: 'loading' });
+
+    const fail = (err: unknown, detail: string) => {
+      console.error("MediaPipe load error:", err);
+      if (!disposed) setStatus({ kind: 'error', error: 'libraries', detail });
     };
 
-    return () => clearInterval(checkLibs);
+    loadScript(HANDS_SCRIPT)
+      .then(async () => {
+        if (disposed) return;
+        hands = new window.Hands({
+          locateFile: (file: string) => {
+            return `${MEDIAPIPE_BASE}/hands/${file}`;
+          },
+        });
+        hands.setOptions(handsOptions(camera));
+        hands.onResults(onResults);
+
+        // Fetches the wasm & model files up front so a missing one is reported clearly
+        try {
+          await hands.initialize();
+        } catch (err) {
+          fail(err, `Missing asset: hand tracking model files in ${MEDIAPIPE_BASE}/hands/`);
+          return;
+        }
+        if (disposed) return;
+        handsRef.current = hands;
+        setHandsReady(true);
+      })
+      .catch((err: Error) => fail(err, err.message));
+
+    return () => {
+      disposed = true;
+      handsRef.current = null;
+      setHandsReady(false);
+      hands?.close();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [libraryAttempt]);
 
-  const onResults = (results: any) => {
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      const landmarks = results.multiHandLandmarks[0];
-      
-      // Heuristics for gestures
-      const isFist = detectFist(landmarks);
-      const isOpen = detectOpenPalm(landmarks);
-      const isPinching = detectPinch(landmarks);
-      const isPointing = detectPointing(landmarks);
-      
-      // Normalize hand center (using wrist and middle finger base)
-      const wrist = landmarks[0];
-      const middle = landmarks[9];
-      const centerX = (wrist.x + middle.x) / 2;
-      const centerY = (wrist.y + middle.y) / 2;
-
-      onGesture({
-        isFist,
-        isOpen,
-        isPinching,
-        isPointing,
-        handPosition: { x: 1 - centerX, y: centerY }, // Mirror X
-      });
-    } else {
-        // No hand detected
-        onGesture({ isFist: false, isOpen: false, isPinching: false, isPointing: false, handPosition: { x: 0.5, y: 0.5 }});
-    }
-  };
+  const { width, height } = resolutionOf(camera);
 
-  // --- Geometry Helpers ---
-  
-  const detectFist = (lm: any[]) => {
-    // Check if fingertips are below finger pip joints (basic check)
-    // 8: Index Tip, 6: Index PIP. Y increases downwards in screen space
-    const fingersFolded = [8, 12, 16, 20].every(tipIdx => {
-       return lm[tipIdx].y > lm[tipIdx - 2].y;
-    });
-    // Thumb is tricky, ignore for basic fist or check x distance
-    return fingersFolded;
-  };
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!handsReady || !videoElement) return;
+    let stream: CameraStream | null = null;
+    let disposed = false;
+    setStatus({ kind: 'starting' });
+
+    const fail = (err: unknown) => {
+      console.error("Camera error:", err);
+      if (!disposed) setStatus({ kind: 'error', error: cameraErrorKind(err), detail: (err as Error)?.message ?? '' });
+    };
+
+    startCameraStream(videoElement, {
+      deviceId: camera.deviceId,
+      width,
+      height,
+      frameRate: camera.frameRate,
+      onFrame: async () => {
+        if (disposed || !videoElement.videoWidth) return;
+        const sentAt = performance.now();
+        await handsRef.current?.send({ image: videoElement });
+        meterRef.current.tick(performance.now(), performance.now() - sentAt);
+      },
+      onEnded: () => fail(new DOMException('The camera was disconnected.', 'NotFoundError')),
+    })
+      .then(started => {
+        if (disposed) {
+          started.stop();
+          return;
+        }
+        stream = started;
+        setStatus({ kind: 'ready' });
+      })
+      .catch(fail);
+
+    return () => {
+      disposed = true;
+      stream?.stop();
+    };
+  }, [handsReady, cameraAttempt, camera.deviceId, width, height, camera.frameRate]);
 
-  const detectOpenPalm = (lm: any[]) => {
-    // Check if fingertips are above PIP joints
-    const fingersOpen = [8, 12, 16, 20].every(tipIdx => {
-        return lm[tipIdx].y < lm[tipIdx - 2].y;
-    });
-    return fingersOpen;
+  // Model and confidence changes don't need a restart
+  useEffect(() => {
+    handsRef.current?.setOptions(handsOptions(camera));
+  }, [camera.modelComplexity, camera.minDetectionConfidence, camera.minTrackingConfidence]);
+
+  // Blocked, missing or unloadable: the app moves to another input and its notice offers a
+  // camera retry, so only the other errors get a card here
+  const fallsBack = status.kind === 'error' && CAMERA_ERRORS[status.error].fallBack && !!onUnavailable;
+  useEffect(() => {
+    if (status.kind === 'error' && fallsBack) onUnavailable?.(CAMERA_ERRORS[status.error].title);
+  }, [status, fallsBack, onUnavailable]);
+
+  const retry = () => {
+    if (status.kind === 'error' && status.error === 'libraries') setLibraryAttempt(n => n + 1);
+    else setCameraAttempt(n => n + 1);
   };
 
-  const detectPinch = (lm: any[]) => {
-    // Distance between Index Tip (8) and Thumb Tip (4)
-    const dx = lm[8].x - lm[4].x;
-    const dy = lm[8].y - lm[4].y;
-    const dist = Math.sqrt(dx*dx + dy*dy);
-    return dist < 0.05; // Threshold
+  const onResults = (results: Results) => {
+    recorderRef.current.push(results, Date.now());
+    const data = trackerRef.current.update(toTrackedHands(results), Date.now());
+    onGesture(data);
+    if (handFeedRef?.current) handFeedRef.current(trackerRef.current.diagnostics().find(hand => hand.isPrimary) ?? null);
+    if (diagnosticsViewRef.current !== 'off') drawDiagnostics(data);
   };
 
-  const detectPointing = (lm: any[]) => {
-    // Index finger (8) is extended (Tip above PIP)
-    const indexExtended = lm[8].y < lm[6].y;
-    
-    // Other fingers are folded (Tip below PIP)
-    const middleFolded = lm[12].y > lm[10].y;
-    const ringFolded = lm[16].y > lm[14].y;
-    const pinkyFolded = lm[20].y > lm[18].y;
+  const drawDiagnostics = (data: HandGestureData) => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !video || !ctx) return;
+    const hands = trackerRef.current.diagnostics();
+    // Same pixel size as the camera frames, so object-cover crops both alike
+    if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    }
+    const accent = getComputedStyle(document.documentElement).getPropertyValue('--color-accent').trim();
+    drawHandSkeleton(ctx, hands, thresholdsRef.current, accent ? `rgb(${accent})` : '#ffd700');
+
+    const now = performance.now();
+    if (now - snapshotAtRef.current < SNAPSHOT_INTERVAL_MS) return;
+    snapshotAtRef.current = now;
+    setSnapshot({ hands, gesture: labelOf(data), customGesture: data.customGesture, confidence: data.confidence, stats: meterRef.current.read() });
+  };
 
-    return indexExtended && middleFolded && ringFolded && pinkyFolded;
-  }
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder.isRecording()) {
+      recorder.start(Date.now());
+      setIsRecording(true);
+      return;
+    }
+    const recording = recorder.stop();
+    setIsRecording(false);
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    downloadBlob(blob, `hand-session_${fileTimestamp()}.json`);
+  };
 
   return (
-    <div className={`fixed bottom-4 right-4 z-50 transition-all duration-500 ease-in-out ${isVisible ? 'w-36 h-28 opacity-100' : 'w-8 h-8 opacity-60'} rounded-xl overflow-hidden border border-[#F2E8C9]/20 shadow-xl backdrop-blur-md bg-[#2d2436]/40 group hover:border-[#F2E8C9]/40`}>
+    <>
+    <div className={`fixed bottom-4 right-4 z-50 transition-all duration-500 ease-in-out ${
+        !isVisible ? 'w-8 h-8 opacity-60' : status.kind === 'error' && !fallsBack ? 'w-64 h-44 opacity-100' : diagnosticsView === 'expanded' ? 'w-96 h-72 opacity-100' : 'w-36 h-28 opacity-100'
+      } rounded-xl overflow-hidden border border-ink/20 shadow-xl backdrop-blur-md bg-surface/40 group hover:border-ink/40`}>
       
-      {!loaded && isVisible && <div className="absolute inset-0 flex items-center justify-center text-[10px] text-[#F2E8C9]/50 tracking-widest uppercase">Initializing...</div>}
+      {(status.kind === 'loading' || status.kind === 'starting') && isVisible && (
+        <div className="absolute inset-0 flex items-center justify-center text-[10px] text-ink/50 tracking-widest uppercase">
+          {status.kind === 'loading' ? 'Loading Tracking...' : 'Starting Camera...'}
+        </div>
+      )}
+
+      {status.kind === 'error' && !fallsBack && isVisible && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center gap-1 px-4 text-center bg-surface/80">
+          <span className="text-xl">{CAMERA_ERRORS[status.error].icon}</span>
+          <span className="text-[10px] text-ink tracking-widest uppercase">{CAMERA_ERRORS[status.error].title}</span>
+          <span className="text-[9px] text-ink/60 leading-snug" title={status.detail}>{CAMERA_ERRORS[status.error].help}</span>
+          <div className="flex gap-4 mt-1">
+            <button onClick={retry} className="text-[9px] text-accent hover:text-ink uppercase tracking-widest">
+              Retry
+            </button>
+            {onUnavailable && (
+              <button
+                onClick={() => onUnavailable(CAMERA_ERRORS[status.error].title)}
+                className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest"
+              >
+                Use Without Camera
+              </button>
+            )}
+          </div>
+        </div>
+      )}
       
       {/* Video Element - Only visual opacity changes, element remains for processing */}
       <video 
@@ -159,19 +286,57 @@ export const HandController: React.FC<Props> = ({ onGesture }) => {
         playsInline 
       />
       
-      <canvas ref={canvasRef} className="hidden" />
+      {/* Landmark skeleton (diagnostics), mirrored like the video */}
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 w-full h-full object-cover transform scale-x-[-1] pointer-events-none ${diagnosticsView === 'off' || !isVisible ? 'hidden' : ''}`}
+      />
+
+      {/* Diagnostics Toggle: off -> skeleton & readout -> full panel */}
+      {loaded && isVisible && (
+        <button
+          onClick={() => setDiagnosticsView(NEXT_VIEW[diagnosticsView])}
+          className={`absolute top-2 right-8 z-50 text-[9px] tracking-widest uppercase transition-colors ${diagnosticsView !== 'off' ? 'text-accent' : 'text-ink/50 hover:text-accent'}`}
+          title={diagnosticsView === 'off' ? "Show Hand Diagnostics" : diagnosticsView === 'compact' ? "Expand Diagnostics" : "Hide Diagnostics"}
+        >
+          {diagnosticsView === 'expanded' ? '✕' : '◎'}
+        </button>
+      )}
+
+      {isVisible && diagnosticsView !== 'off' && snapshot && (
+        <div className="absolute bottom-1 inset-x-0 text-center text-[9px] text-ink tracking-wider tabular-nums pointer-events-none drop-shadow">
+          {GESTURE_NAMES[snapshot.gesture]} · {snapshot.stats.fps.toFixed(0)} fps · {snapshot.stats.latency.toFixed(0)} ms
+        </div>
+      )}
       
       {/* Toggle Button */}
       <button 
         onClick={() => setIsVisible(!isVisible)}
-        className="absolute top-2 right-2 z-50 text-[#F2E8C9]/50 hover:text-[#FFD700] transition-colors rounded-full"
+        className="absolute top-2 right-2 z-50 text-ink/50 hover:text-accent transition-colors rounded-full"
         title={isVisible ? "Minimize" : "Show Camera"}
       >
         <EyeIcon visible={isVisible} />
       </button>
 
+      {/* Record Landmarks Button */}
+      {loaded && isVisible && (
+        <button
+          onClick={toggleRecording}
+          className={`absolute top-2 left-2 z-50 flex items-center gap-1 text-[9px] tracking-widest uppercase transition-colors ${isRecording ? 'text-red-400' : 'text-ink/50 hover:text-accent'}`}
+          title={isRecording ? "Stop & Download Recording" : "Record Hand Landmarks"}
+        >
+          <span className={`w-2 h-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'border border-current'}`} />
+          {isRecording ? 'Rec' : ''}
+        </button>
+      )}
+
       {/* Status Dot */}
       {loaded && isVisible && <div className="absolute bottom-2 left-2 w-1.5 h-1.5 bg-green-500/80 rounded-full animate-pulse pointer-events-none shadow-[0_0_5px_rgba(0,255,0,0.5)]" />}
     </div>
+
+    {isVisible && diagnosticsView === 'expanded' && snapshot && (
+      <GestureDiagnosticsPanel snapshot={snapshot} thresholds={thresholds} customGestures={customGestures} />
+    )}
+    </>
   );
 };
\ No newline at end of file
@@ -1,43 +1,82 @@
 import React, { useRef, useMemo, useEffect, useState, Suspense } from 'react';
 import { Canvas, useFrame, useThree, useLoader } from '@react-three/fiber';
 import { Environment, Float, Stars, Sparkles } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
+import { EffectComposer, Vignette, Noise } from '@react-three/postprocessing';
+import { BlendFunction, BloomEffect, EffectComposer as EffectComposerImpl } from 'postprocessing';
 import * as THREE from 'three';
-import { AppState, SceneItem, HandGestureData } from '../types';
-
-// Constants
-const TREE_HEIGHT = 16;
-const TREE_RADIUS_BASE = 6.0;
-const ORNAMENT_COUNT = 300; 
-const FOIL_COUNT = 200; 
-const RIBBON_PARTICLE_COUNT = 400; 
-const LIGHT_COUNT = 100; 
+// Bundled HDR (data URI) so reflections don't depend on drei's CDN presets
+import cityEnvironment from '@pmndrs/assets/hdri/city.exr';
+import { AppState, SceneItem, HandGestureData, PhotoSwipe, LayoutKind, LayoutSlot, GalleryPhoto } from '../types';
+import { ThemeDefinition, pickMaterial } from '../utils/theme';
+import { LayoutParams, applyFormation, getFormation } from '../utils/formations';
+import { TEXT_KINDS, sampleTextPoints } from '../utils/textFormation';
+import { AudioAnalyser, AudioLevels, SILENT_LEVELS } from '../utils/audioAnalysis';
+import { kenBurnsPose } from '../utils/slideshow';
+import { SceneCapture } from '../utils/poster';
+
+// Constants (formation sizes and counts live in utils/formations.ts)
 const SCATTER_RADIUS_X = 45; 
 const SCATTER_RADIUS_Y = 25;
 const SCATTER_RADIUS_Z = 20;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5)); // Photo scatter spots around the ring
+
+// --- Sub-components ---
 
-// Color Palette Definition (Nostalgic Winter)
-const PALETTE = {
-    TWILIGHT: '#2d2436', // Background
-    RED: '#C41E3A',       // Cardinal Red
-    GOLD: '#FFD700',      // Glowing Gold (Used for lights/sparks)
-    METALLIC_GOLD: '#CFB53B', // Real Metallic Gold (Darker base for reflection)
-    SILVER: '#E0E0E0',    // Shimmering Silver
-    GREEN: '#1B4D3E',     // Evergreen
-    CREAM: '#F2E8C9',     // Vintage Cream/Paper
-    LIGHT_WARM: '#ffddaa', // Warm Light
-    DEEP_BLUE: '#0033FF'   // Deep Royal Blue
+// Where the star floats while the decorations are scattered
+const STAR_SCATTER_POS = new THREE.Vector3(0, 12, 0);
+
+// --- Audio Reactivity ---
+
+// Samples the music before any other frame callback (negative priority) so every
+// consumer reads the same levels. Without an analyser, or with `pulse` off, the levels
+// stay silent; beats are still reported (e.g. for the slideshow).
+const AudioSampler = ({ audio, sensitivity, pulse, levels, onBeat }: {
+  audio: AudioAnalyser | null, sensitivity: number, pulse: boolean, levels: AudioLevels, onBeat?: () => void
+}) => {
+  const lastBeat = useRef(0);
+  useFrame((state, delta) => {
+    if (!audio) {
+      Object.assign(levels, SILENT_LEVELS);
+      return;
+    }
+    audio.sample(delta, sensitivity, levels);
+    // The beat level only decays between onsets, so a rise is a new beat
+    if (levels.beat > lastBeat.current) onBeat?.();
+    lastBeat.current = levels.beat;
+    if (!pulse) Object.assign(levels, SILENT_LEVELS);
+  }, -1);
+  return null;
 };
 
-// --- Sub-components ---
+// Extra intensity at full level
+const AUDIO_STAR_LIGHT = 20;
+const AUDIO_STAR_EMISSIVE = 3;
+const AUDIO_BLOOM = 1.5;
+
+// Built here rather than through <Bloom>, whose props are diffed by value and rebuild
+// the effect: intensity is set on the instance every frame
+const AudioBloom = ({ levels }: { levels: AudioLevels }) => {
+  const bloom = useMemo(() => new BloomEffect({
+    blendFunction: BlendFunction.ADD, luminanceThreshold: 0.7, mipmapBlur: true, intensity: 1.8, radius: 0.5,
+  }), []);
+  useEffect(() => () => bloom.dispose(), [bloom]);
+  useFrame(() => {
+    bloom.intensity = 1.8 + (levels.bass * 0.6 + levels.beat * 0.4) * AUDIO_BLOOM;
+  });
+  return <primitive object={bloom} dispose={null} />;
+};
 
 // Real 3D Star Geometry
-const StarTopper = ({ position }: { position: THREE.Vector3 }) => {
+const StarTopper = ({ position, star, levels }: { position: THREE.Vector3, star: ThemeDefinition['scene']['star'], levels: AudioLevels }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+  // Glides to a new spot (e.g. when the formation changes) instead of jumping
+  const initialPos = useMemo(() => position.clone(), []);
   
   const starShape = useMemo(() => {
     const shape = new THREE.Shape();
-    const points = 5;
+    const points = star.points;
     const outerRadius = 1.4;
     const innerRadius = 0.6;
     
@@ -51,50 +90,184 @@ const StarTopper = ({ position }: { position: THREE.Vector3 }) => {
     }
     shape.closePath();
     return shape;
-  }, []);
+  }, [star.points]);
 
   const extrudeSettings = { depth: 0.4, bevelEnabled: true, bevelThickness: 0.1, bevelSize: 0.1, bevelSegments: 2 };
 
   useFrame((state, delta) => {
     if (meshRef.current) {
         meshRef.current.rotation.y += delta * 0.5;
+        meshRef.current.position.lerp(position, delta * 3.0);
     }
+    // Glow swells with the bass and flares on beats
+    const pulse = Math.max(levels.bass * 0.7, levels.beat);
+    if (materialRef.current) materialRef.current.emissiveIntensity = 2 + pulse * AUDIO_STAR_EMISSIVE;
+    if (lightRef.current) lightRef.current.intensity = 15 + pulse * AUDIO_STAR_LIGHT;
   });
 
   return (
     <Float speed={2} rotationIntensity={0.5} floatIntensity={0.2}>
-      <mesh ref={meshRef} position={position} rotation={[0, 0, 0]}>
+      <mesh ref={meshRef} position={initialPos} rotation={[0, 0, 0]}>
         <extrudeGeometry args={[starShape, extrudeSettings]} />
         <meshStandardMaterial 
-            color={PALETTE.GOLD} 
-            emissive={PALETTE.GOLD}
+            ref={materialRef}
+            color={star.color} 
+            emissive={star.color}
             emissiveIntensity={2}
             roughness={0.1}
             metalness={1}
         />
-        <pointLight color="#ffaa00" intensity={15} distance={30} decay={2} />
+        <pointLight ref={lightRef} color={star.glow} intensity={15} distance={30} decay={2} />
       </mesh>
     </Float>
   );
 };
 
 // --- Photo Component ---
-const PhotoPanel = ({ url, isFocused }: { url: string, isFocused: boolean }) => {
-    const texture = useLoader(THREE.TextureLoader, url);
+// Photos keep the original panel's area whatever their shape; extreme panoramas are clamped
+const PHOTO_AREA = 2.3 * 3.3;
+const PHOTO_ASPECT_RANGE: [number, number] = [0.4, 2.5];
+const FRAME_BORDER = 0.1;
+const HALO_BORDER = 0.3;
+const PHOTO_ANISOTROPY = 4;
+// Caption strip added under the photo, polaroid-style
+const LABEL_STRIP = 0.5;
+const LABEL_TEXT_HEIGHT = 0.26;
+const LABEL_FONT_SIZE = 64; // Canvas px
+
+/** "caption · date" for photos that print their caption on the frame. */
+const frameLabelOf = ({ details }: GalleryPhoto): string | undefined => {
+    if (!details.captionOnFrame) return undefined;
+    const date = details.takenAt ? new Date(`${details.takenAt}T00:00`).toLocaleDateString() : '';
+    return [details.caption, date].filter(Boolean).join(' · ') || undefined;
+};
+
+// Thumbnails by URL, so they can be freed when their photo leaves the gallery
+const photoTextures = new Map<string, THREE.Texture>();
+
+const configurePhotoTexture = (texture: THREE.Texture) => {
+    texture.generateMipmaps = true;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.anisotropy = PHOTO_ANISOTROPY;
+    texture.needsUpdate = true;
+};
+
+// Sharper texture for the focused photo, loaded in the background and freed again on unfocus
+const useCloseUpTexture = (url: string | undefined, active: boolean) => {
+    const [texture, setTexture] = useState<THREE.Texture | null>(null);
+
+    useEffect(() => {
+        if (!active || !url) return;
+        let cancelled = false;
+        let loaded: THREE.Texture | null = null;
+        new THREE.TextureLoader().loadAsync(url)
+            .then(result => {
+                if (cancelled) {
+                    result.dispose();
+                    return;
+                }
+                configurePhotoTexture(result);
+                loaded = result;
+                setTexture(result);
+            })
+            .catch(err => console.error("Could not load the close-up photo", err));
+        return () => {
+            cancelled = true;
+            loaded?.dispose();
+            setTexture(null);
+        };
+    }, [url, active]);
+
+    return texture;
+};
+
+// Draws the label with the theme's heading font (page fonts cover CJK and work offline);
+// the text is cut with an ellipsis to fit `maxAspect` (strip width / text height)
+const useLabelTexture = (text: string | undefined, fontFamily: string, color: string, maxAspect: number) => {
+    const [label, setLabel] = useState<{ texture: THREE.Texture, aspect: number } | null>(null);
+
+    useEffect(() => {
+        if (!text) return;
+        let cancelled = false;
+        let created: THREE.Texture | null = null;
+        const font = `600 ${LABEL_FONT_SIZE}px ${fontFamily}`;
+        document.fonts.load(font, text)
+            .catch(() => {}) // Drawn in a fallback font instead
+            .then(() => {
+                if (cancelled) return;
+                const canvas = document.createElement('canvas');
+                const ctx = canvas.getContext('2d');
+                if (!ctx) return;
+                const height = Math.round(LABEL_FONT_SIZE * 1.3);
+                const maxWidth = height * maxAspect;
+                ctx.font = font;
+                let shown = text;
+                while (shown.length > 1 && ctx.measureText(shown).width > maxWidth) shown = shown.slice(0, -2) + '…';
+                canvas.width = Math.ceil(Math.min(ctx.measureText(shown).width, maxWidth)) + 2;
+                canvas.height = height;
+                // Resizing resets the context state
+                ctx.font = font;
+                ctx.fillStyle = color;
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(shown, canvas.width / 2, height / 2);
+
+                created = new THREE.CanvasTexture(canvas);
+                created.colorSpace = THREE.SRGBColorSpace;
+                created.anisotropy = PHOTO_ANISOTROPY;
+                setLabel({ texture: created, aspect: canvas.width / height });
+            });
+        return () => {
+            cancelled = true;
+            created?.dispose();
+            setLabel(null);
+        };
+    }, [text, fontFamily, color, maxAspect]);
+
+    return label;
+};
+
+const PhotoPanel = ({ url, closeUpUrl, aspect = 2.3 / 3.3, label, fontFamily, isFocused, frameColor, haloColor }: {
+    url: string, closeUpUrl?: string, aspect?: number, label?: string, fontFamily: string,
+    isFocused: boolean, frameColor: string, haloColor: string
+}) => {
+    const thumbnail = useLoader(THREE.TextureLoader, url);
+    useEffect(() => {
+        configurePhotoTexture(thumbnail);
+        photoTextures.set(url, thumbnail);
+    }, [url, thumbnail]);
+    const closeUp = useCloseUpTexture(closeUpUrl, isFocused);
+
+    const clamped = THREE.MathUtils.clamp(aspect, ...PHOTO_ASPECT_RANGE);
+    const width = Math.sqrt(PHOTO_AREA * clamped);
+    const height = Math.sqrt(PHOTO_AREA / clamped);
+
+    // Ink that reads on the frame colour
+    const labelColor = useMemo(() => new THREE.Color(frameColor).getHSL({ h: 0, s: 0, l: 0 }).l > 0.5 ? '#2b2420' : '#f5efe0', [frameColor]);
+    const labelTexture = useLabelTexture(label, fontFamily, labelColor, width / LABEL_TEXT_HEIGHT);
+    const strip = label ? LABEL_STRIP : 0;
     
     return (
         <group>
             {/* Frame Box */}
-            <mesh position={[0, 0, -0.02]}>
-                <boxGeometry args={[2.5, 3.5, 0.1]} />
-                <meshStandardMaterial color="#fdfdfd" roughness={0.6} metalness={0.1} />
+            <mesh position={[0, -strip / 2, -0.02]}>
+                <boxGeometry args={[width + FRAME_BORDER * 2, height + FRAME_BORDER * 2 + strip, 0.1]} />
+                <meshStandardMaterial color={frameColor} roughness={0.6} metalness={0.1} />
             </mesh>
 
+            {/* Caption printed on the strip below the photo */}
+            {label && labelTexture && (
+                <mesh position={[0, -height / 2 - (FRAME_BORDER + strip) / 2, 0.04]}>
+                    <planeGeometry args={[LABEL_TEXT_HEIGHT * labelTexture.aspect, LABEL_TEXT_HEIGHT]} />
+                    <meshBasicMaterial map={labelTexture.texture} transparent toneMapped={false} />
+                </mesh>
+            )}
+
             {/* Photo Plane */}
             <mesh position={[0, 0, 0.06]}>
-                <planeGeometry args={[2.3, 3.3]} />
+                <planeGeometry args={[width, height]} />
                 <meshBasicMaterial 
-                    map={texture} 
+                    map={closeUp ?? thumbnail} 
                     side={THREE.DoubleSide} 
                     toneMapped={false} 
                 />
@@ -102,200 +275,402 @@ const PhotoPanel = ({ url, isFocused }: { url: string, isFocused: boolean }) =>
             
             {/* Highlight Halo */}
             {isFocused && (
-                 <mesh position={[0, 0, -0.08]}>
-                    <planeGeometry args={[2.9, 3.9]} />
-                    <meshBasicMaterial color={PALETTE.GOLD} transparent opacity={0.5} />
+                 <mesh position={[0, -strip / 2, -0.08]}>
+                    <planeGeometry args={[width + HALO_BORDER * 2, height + HALO_BORDER * 2 + strip]} />
+                    <meshBasicMaterial color={haloColor} transparent opacity={0.5} />
                  </mesh>
             )}
         </group>
     );
 };
 
-interface ItemProps {
+// --- Instanced Decorations (ornaments, foil, ribbons, lights) ---
+
+// Emissive behaviour per decoration role
+type GlowRole = 'light' | 'ribbon' | 'foil' | 'metal' | 'matte' | 'plain';
+// Shared material parameters; one instanced batch per geometry + surface
+type SurfaceKind = 'metallic' | 'matte' | 'light' | 'plain';
+
+const SURFACES: Record<SurfaceKind, { roughness: number; metalness: number; clearcoat: number }> = {
+    metallic: { roughness: 0.15, metalness: 1.0, clearcoat: 1.0 }, // Metallic finishes, Foil, Ribbon
+    matte: { roughness: 0.8, metalness: 0.0, clearcoat: 0.0 },
+    light: { roughness: 0.2, metalness: 0.0, clearcoat: 0.0 },
+    plain: { roughness: 0.2, metalness: 0.8, clearcoat: 1.0 },
+};
+
+const INITIAL_EMISSIVE: Record<GlowRole, number> = { light: 4.0, ribbon: 3.0, foil: 1.0, metal: 0.2, matte: 0.4, plain: 0.4 };
+const STEADY_EMISSIVE: Record<GlowRole, number> = { light: 4.0, ribbon: 3.0, foil: 1.5, metal: 0.2, matte: 0.1, plain: 0.5 };
+// Foil flakes are usually metallic so they share the metal base, plus a bonus below
+const SCATTER_EMISSIVE: Record<GlowRole, number> = { light: 4.0, ribbon: 3.0, foil: 0.2, metal: 0.2, matte: 0.1, plain: 0.6 };
+// Letters need to read against the dark background
+const TEXT_EMISSIVE: Record<GlowRole, number> = { light: 4.0, ribbon: 1.0, foil: 2.0, metal: 1.2, matte: 1.0, plain: 1.2 };
+// Decorations shrink while spelling so strokes stay crisp
+const TEXT_SCALE = 0.6;
+// Music boost at full level: lights follow the treble, ribbons the mids, both flash on beats
+const AUDIO_LIGHT_EMISSIVE = 4.0;
+const AUDIO_RIBBON_EMISSIVE = 3.0;
+
+// The material's finish comes from the theme; the role from what the item is
+const classifyItem = (item: SceneItem): { glow: GlowRole; surface: SurfaceKind } => {
+    const isMetallic = item.finish === 'metallic';
+    const isMatte = item.finish === 'matte';
+    const isFoil = item.id.includes('foil');
+    const isLight = item.id.includes('light');
+    const isRibbon = item.id.includes('ribbon');
+
+    let glow: GlowRole = 'plain';
+    if (isLight) glow = 'light';
+    else if (isRibbon) glow = 'ribbon';
+    else if (isFoil) glow = 'foil';
+    else if (isMetallic) glow = 'metal';
+    else if (isMatte) glow = 'matte';
+
+    let surface: SurfaceKind = 'plain';
+    if (isMetallic || isFoil || isRibbon) surface = 'metallic';
+    else if (isMatte) surface = 'matte';
+    else if (isLight) surface = 'light';
+
+    return { glow, surface };
+};
+
+// Lets each instance carry its own emissive intensity. The emissive colour is
+// the instance colour, matching the old per-mesh `emissive={materialColor}`.
+const applyInstanceEmissive = (material: THREE.MeshPhysicalMaterial) => {
+    material.onBeforeCompile = (shader) => {
+        shader.vertexShader = shader.vertexShader
+            .replace('#include <common>', '#include <common>\nattribute float instanceEmissive;\nvarying float vInstanceEmissive;')
+            .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;');
+        shader.fragmentShader = shader.fragmentShader
+            .replace('#include <common>', '#include <common>\nvarying float vInstanceEmissive;')
+            .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance *= vColor * vInstanceEmissive;');
+    };
+};
+
+interface DecorationBatch {
+    key: string;
+    mesh: THREE.InstancedMesh;
+    emissive: THREE.InstancedBufferAttribute;
+    items: SceneItem[];
+    glow: GlowRole[];
+    baseScale: THREE.Vector3[]; // Geometry dimensions before the animated scale
+    position: THREE.Vector3[];
+    rotation: Float32Array;     // x, y pairs
+    scale: Float32Array;
+    randomOffset: Float32Array;
+    twinkleSpeed: Float32Array;
+}
+
+const buildBatches = (items: SceneItem[]): DecorationBatch[] => {
+    const groups = new Map<string, { type: SceneItem['type']; surface: SurfaceKind; entries: { item: SceneItem; glow: GlowRole }[] }>();
+
+    items.forEach(item => {
+        const { glow, surface } = classifyItem(item);
+        const key = `${item.type}-${surface}`;
+        if (!groups.has(key)) groups.set(key, { type: item.type, surface, entries: [] });
+        groups.get(key)!.entries.push({ item, glow });
+    });
+
+    return Array.from(groups.entries()).map(([key, { type, surface, entries }]) => {
+        const count = entries.length;
+        const geometry = type === 'sphere' ? new THREE.SphereGeometry(1, 32, 32) : new THREE.BoxGeometry(1, 1, 1);
+        const emissive = new THREE.InstancedBufferAttribute(new Float32Array(count), 1);
+        emissive.setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute('instanceEmissive', emissive);
+
+        const material = new THREE.MeshPhysicalMaterial({
+            ...SURFACES[surface],
+            clearcoatRoughness: 0.1,
+            emissive: new THREE.Color('#ffffff'),
+            emissiveIntensity: 1,
+        });
+        applyInstanceEmissive(material);
+
+        const mesh = new THREE.InstancedMesh(geometry, material, count);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        // Instances fly between formations, so a static bounding sphere would cull them
+        mesh.frustumCulled = false;
+
+        const batch: DecorationBatch = {
+            key,
+            mesh,
+            emissive,
+            items: entries.map(e => e.item),
+            glow: entries.map(e => e.glow),
+            baseScale: entries.map(({ item }) => item.id.includes('foil')
+                ? new THREE.Vector3(item.scale, item.scale, 0.05)
+                : new THREE.Vector3(item.scale, item.scale, item.scale)),
+            position: entries.map(() => new THREE.Vector3()),
+            rotation: new Float32Array(count * 2),
+            scale: new Float32Array(count).fill(1),
+            randomOffset: new Float32Array(count).map(() => Math.random() * 100),
+            twinkleSpeed: new Float32Array(count).map(() => Math.random() * 3 + 2),
+        };
+
+        entries.forEach(({ item, glow }, i) => {
+            mesh.setColorAt(i, item.color || new THREE.Color('#ffffff'));
+            emissive.setX(i, INITIAL_EMISSIVE[glow]);
+        });
+
+        return batch;
+    });
+};
+
+// Scratch objects reused every frame
+const _matrix = new THREE.Matrix4();
+const _quaternion = new THREE.Quaternion();
+const _euler = new THREE.Euler();
+const _scale = new THREE.Vector3();
+const _target = new THREE.Vector3();
+
+const InstancedDecorations = ({ items, targetMode, levels }: { items: SceneItem[], targetMode: AppState, levels: AudioLevels }) => {
+    const batches = useMemo(() => buildBatches(items), [items]);
+
+    useEffect(() => () => {
+        batches.forEach(({ mesh }) => {
+            mesh.geometry.dispose();
+            (mesh.material as THREE.Material).dispose();
+            mesh.dispose();
+        });
+    }, [batches]);
+
+    useFrame((state, delta) => {
+        const time = state.clock.elapsedTime;
+        const isScatter = targetMode === AppState.SCATTER;
+        const isText = targetMode === AppState.TEXT;
+        const moveAlpha = delta * 3.0;
+        const scaleAlpha = delta * 4.0;
+        const lightBoost = (levels.treble * 0.6 + levels.beat * 0.4) * AUDIO_LIGHT_EMISSIVE;
+        const ribbonBoost = (levels.mid * 0.6 + levels.beat * 0.4) * AUDIO_RIBBON_EMISSIVE;
+
+        for (const batch of batches) {
+            const { mesh, emissive, items: batchItems, glow, baseScale, position, rotation, scale, randomOffset, twinkleSpeed } = batch;
+
+            for (let i = 0; i < batchItems.length; i++) {
+                const item = batchItems[i];
+                const pos = position[i];
+
+                const isLetter = isText && !!item.textPos;
+
+                // 1. Position Interpolation (decorations stay scattered while inspecting;
+                // while spelling, the ones not in the letters back off behind them)
+                if (targetMode === AppState.TREE) {
+                    _target.copy(item.treePos);
+                } else if (isLetter) {
+                    _target.copy(item.textPos!);
+                } else if (isText) {
+                    _target.copy(item.scatterPos).multiplyScalar(1.2);
+                    _target.z -= 15;
+                } else {
+                    _target.copy(item.scatterPos);
+                }
+                pos.lerp(_target, moveAlpha);
+
+                // 2. Rotation & Scale
+                rotation[i * 2] += 0.005;
+                rotation[i * 2 + 1] += 0.01;
+                scale[i] += ((isLetter ? item.scale * TEXT_SCALE : item.scale) - scale[i]) * scaleAlpha;
+
+                // 3. Emissive (lights & foil twinkle while scattered)
+                let targetEmissive = isLetter ? TEXT_EMISSIVE[glow[i]] : STEADY_EMISSIVE[glow[i]];
+                if (isScatter) {
+                    pos.y += Math.sin(time + randomOffset[i]) * 0.02;
+                    pos.x += Math.cos(time * 0.5 + randomOffset[i]) * 0.02;
+
+                    const sineWave = Math.sin(time * twinkleSpeed[i] + randomOffset[i]);
+                    const flash = sineWave > 0.8 ? 2.0 : 0.0;
+                    const foilBonus = glow[i] === 'foil' ? 2.0 : 0;
+                    const dynamicFlash = (glow[i] === 'light' || glow[i] === 'foil') ? flash : 0;
+                    targetEmissive = SCATTER_EMISSIVE[glow[i]] + dynamicFlash + foilBonus;
+                }
+                if (glow[i] === 'light') targetEmissive += lightBoost;
+                else if (glow[i] === 'ribbon') targetEmissive += ribbonBoost;
+                emissive.setX(i, THREE.MathUtils.lerp(emissive.getX(i), targetEmissive, 0.1));
+
+                _euler.set(rotation[i * 2], rotation[i * 2 + 1], 0);
+                _quaternion.setFromEuler(_euler);
+                _scale.copy(baseScale[i]).multiplyScalar(scale[i]);
+                _matrix.compose(pos, _quaternion, _scale);
+                mesh.setMatrixAt(i, _matrix);
+            }
+
+            mesh.instanceMatrix.needsUpdate = true;
+            emissive.needsUpdate = true;
+        }
+    });
+
+    return (
+        <group>
+            {batches.map(batch => <primitive key={batch.key} object={batch.mesh} />)}
+        </group>
+    );
+};
+
+// --- Photo Items ---
+
+// How far (world units) a swiped photo slides off to the side, and for how long
+const SWIPE_OFFSET_X = 14;
+const SWIPE_EXIT_MS = 600;
+
+interface PhotoItemProps {
   item: SceneItem;
+  theme: ThemeDefinition;
   targetMode: AppState;
-  gesture: HandGestureData;
   focusId: string | null;
+  photoSwipe: PhotoSwipe | null;
+  kenBurns: number | null; // Slide length (s) while the slideshow plays
   onSelect: (id: string) => void;
 }
 
-const MagicItem: React.FC<ItemProps> = ({ item, targetMode, gesture, focusId, onSelect }) => {
-  const meshRef = useRef<any>(null);
+const PhotoItem: React.FC<PhotoItemProps> = ({ item, theme, targetMode, focusId, photoSwipe, kenBurns, onSelect }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const focusedSince = useRef(0);
   const { camera } = useThree(); 
   
   const randomOffset = useMemo(() => Math.random() * 100, []);
-  const twinkleSpeed = useMemo(() => Math.random() * 3 + 2, []);
-
-  // Material helpers
-  const isMetallicGold = useMemo(() => item.color && item.color.getHexString() === new THREE.Color(PALETTE.METALLIC_GOLD).getHexString(), [item.color]);
-  const isSilver = useMemo(() => item.color && item.color.getHexString() === new THREE.Color(PALETTE.SILVER).getHexString(), [item.color]);
-  const isFoil = item.id.includes('foil');
-  const isLight = item.id.includes('light');
-  const isRibbon = item.id.includes('ribbon');
-  const isPhoto = item.type === 'photo';
-  
-  // Matte texture for Cream/Green
-  const isMatte = useMemo(() => {
-      if (!item.color) return false;
-      const c = item.color.getHexString();
-      return c === new THREE.Color(PALETTE.CREAM).getHexString() || 
-             c === new THREE.Color(PALETTE.GREEN).getHexString();
-  }, [item.color]);
+  const focusPos = useMemo(() => new THREE.Vector3(0, 0, 15), []);
+  const targetPos = useMemo(() => new THREE.Vector3(), []);
+  const targetScale = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    if (focusId === item.id) focusedSince.current = Date.now();
+  }, [focusId, item.id, kenBurns]);
+
+  // Incoming photo enters from the side the swipe came from
+  useEffect(() => {
+    if (groupRef.current && photoSwipe && photoSwipe.toId === item.id) {
+        groupRef.current.position.set(photoSwipe.direction * SWIPE_OFFSET_X, 0, focusPos.z);
+    }
+  }, [photoSwipe, item.id, focusPos]);
 
   useFrame((state, delta) => {
-    if (!meshRef.current) return;
+    if (!groupRef.current) return;
+
+    const isSwipingOut = targetMode === AppState.INSPECT && photoSwipe?.fromId === item.id &&
+        focusId !== item.id && Date.now() - photoSwipe.startedAt < SWIPE_EXIT_MS;
+    // Slow pan & zoom on the slideshow's current photo
+    const pose = targetMode === AppState.INSPECT && focusId === item.id && kenBurns
+        ? kenBurnsPose(item.slot?.seed ?? 0.5, (Date.now() - focusedSince.current) / (kenBurns * 1000))
+        : null;
 
     // 1. Position Interpolation
-    let targetPos = item.treePos;
-    
     if (targetMode === AppState.SCATTER) {
-        targetPos = item.scatterPos;
-    } else if (targetMode === AppState.INSPECT) {
-        if (item.type === 'photo') {
-             if (focusId === item.id) {
-                targetPos = new THREE.Vector3(0, 0, 15); 
-             } else {
-                targetPos = item.scatterPos.clone().multiplyScalar(1.2);
-                targetPos.z -= 10;
-             }
+        targetPos.copy(item.scatterPos);
+    } else if (isSwipingOut) {
+        // Outgoing photo slides off before drifting back to its scatter spot
+        targetPos.set(-photoSwipe!.direction * SWIPE_OFFSET_X, 0, focusPos.z);
+    } else if (targetMode === AppState.INSPECT || targetMode === AppState.TEXT) {
+        if (focusId === item.id) {
+            targetPos.copy(focusPos);
+            if (pose) {
+                targetPos.x += pose.x;
+                targetPos.y += pose.y;
+            }
         } else {
-            targetPos = item.scatterPos.clone();
+            targetPos.copy(item.scatterPos).multiplyScalar(1.2);
+            targetPos.z -= 10;
         }
+    } else {
+        targetPos.copy(item.treePos);
     }
 
-    meshRef.current.position.lerp(targetPos, delta * 3.0);
+    groupRef.current.position.lerp(targetPos, delta * 3.0);
 
     // 2. Rotation & Scale
-    if (item.type === 'photo') {
-        meshRef.current.lookAt(camera.position);
-
-        if (targetMode === AppState.INSPECT && item.id === focusId) {
-             meshRef.current.scale.lerp(new THREE.Vector3(2.0, 2.0, 2.0), delta * 3);
-        } else {
-             meshRef.current.scale.lerp(new THREE.Vector3(1, 1, 1), delta * 3);
-        }
-    } else {
-        meshRef.current.rotation.x += 0.005;
-        meshRef.current.rotation.y += 0.01;
-        meshRef.current.scale.lerp(new THREE.Vector3(item.scale, item.scale, item.scale), delta * 4.0);
-    }
+    groupRef.current.lookAt(camera.position);
+    targetScale.setScalar(targetMode === AppState.INSPECT && item.id === focusId ? 2.0 * (pose?.zoom ?? 1) : 1.0);
+    groupRef.current.scale.lerp(targetScale, delta * 3);
     
     // Add subtle noise movement in SCATTER mode
     if (targetMode === AppState.SCATTER) {
         const time = state.clock.elapsedTime;
-        meshRef.current.position.y += Math.sin(time + randomOffset) * 0.02;
-        meshRef.current.position.x += Math.cos(time * 0.5 + randomOffset) * 0.02;
-
-        if (item.type !== 'photo') {
-             const mat = meshRef.current.material as THREE.MeshPhysicalMaterial;
-             if (mat) {
-                // Lights twinkle heavily, Metallic items glimmer slightly
-                const sineWave = Math.sin(time * twinkleSpeed + randomOffset);
-                const flash = sineWave > 0.8 ? 2.0 : 0.0;
-                
-                const foilBonus = isFoil ? 2.0 : 0;
-                
-                // Base Emissive Calculation
-                let baseEmissive = 0;
-                if (isLight) baseEmissive = 4.0;
-                else if (isRibbon) baseEmissive = 3.0;
-                else if (isMetallicGold || isSilver) baseEmissive = 0.2; // LOW emissive for metal to allow reflection
-                else if (isMatte) baseEmissive = 0.1;
-                else baseEmissive = 0.6;
-
-                // Add flash only to lights or foils, not solid metal balls
-                const dynamicFlash = (isLight || isFoil) ? flash : 0;
-
-                mat.emissiveIntensity = THREE.MathUtils.lerp(mat.emissiveIntensity, baseEmissive + dynamicFlash + foilBonus, 0.1);
-             }
-        }
-    } else {
-        // Steady state emissive
-        if (item.type !== 'photo') {
-            const mat = meshRef.current.material as THREE.MeshPhysicalMaterial;
-            if (mat) {
-                let targetEmissive = 0.5;
-                if (isLight) targetEmissive = 4.0;
-                else if (isRibbon) targetEmissive = 3.0;
-                else if (isFoil) targetEmissive = 1.5;
-                else if (isMetallicGold || isSilver) targetEmissive = 0.2; // Metal stays dark to reflect
-                else if (isMatte) targetEmissive = 0.1;
-
-                mat.emissiveIntensity = THREE.MathUtils.lerp(mat.emissiveIntensity, targetEmissive, 0.1);
-            }
-        }
+        groupRef.current.position.y += Math.sin(time + randomOffset) * 0.02;
+        groupRef.current.position.x += Math.cos(time * 0.5 + randomOffset) * 0.02;
     }
   });
 
   const handlePointerDown = (e: any) => {
-      if (isPhoto) {
-          e.stopPropagation();
-          onSelect(item.id);
-      }
+      e.stopPropagation();
+      onSelect(item.id);
   };
 
-  const handlePointerOver = (e: any) => {
-      if (isPhoto) {
-          document.body.style.cursor = 'pointer';
-      }
+  const handlePointerOver = () => {
+      document.body.style.cursor = 'pointer';
   };
   
-  const handlePointerOut = (e: any) => {
-      if (isPhoto) {
-          document.body.style.cursor = 'default';
-      }
+  const handlePointerOut = () => {
+      document.body.style.cursor = 'default';
   };
 
-  if (isPhoto && item.textureUrl) {
-    return (
-        <group 
-            ref={meshRef} 
-            onClick={handlePointerDown} 
-            onPointerOver={handlePointerOver} 
-            onPointerOut={handlePointerOut}
-        >
-            <PhotoPanel url={item.textureUrl} isFocused={focusId === item.id} />
-        </group>
-    );
-  }
+  if (!item.textureUrl) return null;
 
-  const materialColor = item.color || new THREE.Color('#ffffff');
+  return (
+      <group 
+          ref={groupRef} 
+          onClick={handlePointerDown} 
+          onPointerOver={handlePointerOver} 
+          onPointerOut={handlePointerOut}
+      >
+          <PhotoPanel
+              url={item.textureUrl}
+              closeUpUrl={item.closeUpUrl}
+              aspect={item.aspect}
+              label={item.frameLabel}
+              fontFamily={theme.fonts.heading}
+              isFocused={focusId === item.id}
+              frameColor={theme.scene.photoFrame}
+              haloColor={theme.scene.photoHalo}
+          />
+      </group>
+  );
+};
 
-  // Material Logic
-  // Metallic items: Gold, Silver, Foil, Ribbon
-  const isMetallic = isMetallicGold || isSilver || isFoil || isRibbon;
-  
-  const roughness = isMetallic ? 0.15 : (isMatte ? 0.8 : 0.2);
-  const metalness = isMetallic ? 1.0 : (isMatte ? 0.0 : (isLight ? 0.0 : 0.8));
-  const clearcoat = (isMatte || isLight) ? 0.0 : 1.0;
+// --- Two-Hand Spin ---
 
-  // Initial Emissive
-  const initialEmissive = isLight ? 4.0 : (isRibbon ? 3.0 : (isFoil ? 1.0 : (isMetallic ? 0.2 : 0.4)));
+const SPIN_GAIN = 2.0; // Tree radians per radian the hands turn
 
-  // Geometry Selection
-  let GeometryComponent = <boxGeometry args={[item.scale, item.scale, item.scale]} />;
-  if (item.type === 'sphere') GeometryComponent = <sphereGeometry args={[item.scale, 32, 32]} />;
-  if (isFoil) GeometryComponent = <boxGeometry args={[item.scale, item.scale, 0.05]} />; 
+// Turning both hands like a steering wheel spins everything inside this group.
+// The spin is kept afterwards, and eases back to face front while inspecting or spelling.
+const SpinGroup = ({ mode, gesture, children }: { mode: AppState, gesture: HandGestureData, children: React.ReactNode }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const spinRef = useRef(0);
+    const lastAngleRef = useRef<number | null>(null);
 
-  return (
-    <mesh ref={meshRef}>
-      {GeometryComponent}
-      <meshPhysicalMaterial 
-        color={materialColor} 
-        roughness={roughness} 
-        metalness={metalness}
-        emissive={materialColor}
-        emissiveIntensity={initialEmissive}
-        clearcoat={clearcoat}
-        clearcoatRoughness={0.1}
-      />
-    </mesh>
-  );
+    useFrame((state, delta) => {
+        if (!groupRef.current) return;
+
+        const facesFront = mode === AppState.INSPECT || mode === AppState.TEXT;
+
+        if (gesture.twoHand && !facesFront) {
+            if (lastAngleRef.current !== null) {
+                spinRef.current += (gesture.twoHand.angle - lastAngleRef.current) * SPIN_GAIN;
+            }
+            lastAngleRef.current = gesture.twoHand.angle;
+        } else {
+            lastAngleRef.current = null;
+        }
+
+        if (facesFront) {
+            // Focused photos and the spelled wish sit in front of the camera in local space
+            spinRef.current = Math.round(spinRef.current / (Math.PI * 2)) * Math.PI * 2;
+        }
+
+        groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, spinRef.current, delta * 4);
+    });
+
+    return <group ref={groupRef}>{children}</group>;
 };
 
 // --- Main Camera Controller ---
+
+// Hands this far apart (normalized) map to the nearest / farthest camera distance
+const ZOOM_SPREAD_MIN = 0.2;
+const ZOOM_SPREAD_MAX = 0.8;
+const ZOOM_NEAR = 0.6;
+const ZOOM_FAR = 1.4;
+
 const CameraController = ({ mode, gesture, focusTarget }: { mode: AppState, gesture: HandGestureData, focusTarget: THREE.Vector3 | null }) => {
     const { camera } = useThree();
+    const zoomRef = useRef(1);
     
     useFrame((state, delta) => {
         let targetPos = new THREE.Vector3(0, 0, 32); 
@@ -318,6 +693,18 @@ const CameraController = ({ mode, gesture, focusTarget }: { mode: AppState, gest
             targetPos.set(0, 0, 25);
         }
 
+        // Spreading two hands apart zooms in, bringing them together zooms out
+        let targetZoom = 1;
+        if (gesture.twoHand) {
+            targetZoom = THREE.MathUtils.clamp(
+                THREE.MathUtils.mapLinear(gesture.twoHand.spread, ZOOM_SPREAD_MIN, ZOOM_SPREAD_MAX, ZOOM_FAR, ZOOM_NEAR),
+                ZOOM_NEAR,
+                ZOOM_FAR
+            );
+        }
+        zoomRef.current = THREE.MathUtils.lerp(zoomRef.current, targetZoom, delta * 3.0);
+        targetPos.multiplyScalar(zoomRef.current);
+
         camera.position.lerp(targetPos, delta * 2.0);
         camera.lookAt(lookAtPos);
     });
@@ -325,67 +712,130 @@ const CameraController = ({ mode, gesture, focusTarget }: { mode: AppState, gest
     return null;
 }
 
+// --- Poster Capture ---
+
+// Renders one frame at poster size through the effects: the drawing buffer is resized
+// (the canvas keeps its CSS size), copied out, then put back and redrawn.
+// Outputs narrower than the screen widen the field of view so nothing is cropped at the sides.
+const SceneCapturer = ({ composerRef, captureRef }: {
+    composerRef: React.RefObject<EffectComposerImpl>, captureRef: React.MutableRefObject<SceneCapture | null>
+}) => {
+    const { gl, scene, camera, size } = useThree();
+
+    useEffect(() => {
+        const draw = () => {
+            if (composerRef.current) composerRef.current.render();
+            else gl.render(scene, camera);
+        };
+        const resize = (width: number, height: number) => {
+            if (composerRef.current) composerRef.current.setSize(width, height, false);
+            else gl.setSize(width, height, false);
+        };
+
+        captureRef.current = (requestedWidth, requestedHeight) => {
+            // Stay within what the GPU can allocate; the caller sees the smaller canvas
+            const fit = Math.min(1, gl.capabilities.maxTextureSize / Math.max(requestedWidth, requestedHeight));
+            const width = Math.round(requestedWidth * fit);
+            const height = Math.round(requestedHeight * fit);
+
+            const perspective = camera as THREE.PerspectiveCamera;
+            const { fov, aspect } = perspective;
+            const pixelRatio = gl.getPixelRatio();
+            const outAspect = width / height;
+            if (outAspect < aspect) {
+                const halfFov = THREE.MathUtils.degToRad(fov / 2);
+                perspective.fov = THREE.MathUtils.radToDeg(2 * Math.atan(Math.tan(halfFov) * aspect / outAspect));
+            }
+            perspective.aspect = outAspect;
+            perspective.updateProjectionMatrix();
+
+            const frame = document.createElement('canvas');
+            frame.width = width;
+            frame.height = height;
+            try {
+                gl.setPixelRatio(1);
+                resize(width, height);
+                draw();
+                frame.getContext('2d')?.drawImage(gl.domElement, 0, 0);
+            } finally {
+                perspective.fov = fov;
+                perspective.aspect = aspect;
+                perspective.updateProjectionMatrix();
+                gl.setPixelRatio(pixelRatio);
+                resize(size.width, size.height);
+                draw();
+            }
+            return frame;
+        };
+        return () => { captureRef.current = null; };
+    }, [gl, scene, camera, size, composerRef, captureRef]);
+
+    return null;
+};
+
 // --- Scene Setup ---
 
 interface SceneProps {
+  theme: ThemeDefinition;
+  layout: LayoutParams;
   appState: AppState;
   gesture: HandGestureData;
-  photos: string[];
+  photos: GalleryPhoto[];
+  message: string; // Spelled out by the decorations in the TEXT state
+  audio: AudioAnalyser | null; // Null when nothing listens to the music
+  audioSensitivity: number;
+  audioPulse: boolean; // Lights, bloom and star follow the music
+  onBeat?: () => void;
   focusId: string | null;
+  photoSwipe: PhotoSwipe | null;
+  kenBurns: number | null; // Slide length (s) while the slideshow plays
+  captureRef: React.MutableRefObject<SceneCapture | null>; // Set while the scene is mounted, for poster exports
   onPhotoSelect: (id: string) => void;
 }
 
-export const MagicScene: React.FC<SceneProps> = ({ appState, gesture, photos, focusId, onPhotoSelect }) => {
+export const MagicScene: React.FC<SceneProps> = ({
+  theme, layout, appState, gesture, photos, message, audio, audioSensitivity, audioPulse, onBeat, focusId, photoSwipe, kenBurns, captureRef, onPhotoSelect
+}) => {
+  const composerRef = useRef<EffectComposerImpl>(null);
+  // Written by AudioSampler each frame, read by the glowing parts of the scene
+  const audioLevels = useMemo<AudioLevels>(() => ({ ...SILENT_LEVELS }), []);
   
+  const { ornaments: ornamentCount, foil: foilCount, ribbon: ribbonCount, lights: lightCount } = layout;
+  // Newly built items start in the latest formation
+  const layoutRef = useRef(layout);
+
+  // Item identity, colour and scatter spots; tree positions come from the formation below
   const items = useMemo(() => {
     const tempItems: SceneItem[] = [];
-    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
-    const layers = 5; 
+    const { materials, decorations } = theme;
+    const material = (name: string) => ({
+        color: new THREE.Color(materials[name].color),
+        finish: materials[name].finish,
+    });
+    const slot = (kind: LayoutKind, index: number, count: number): LayoutSlot => ({ kind, index, count, seed: Math.random() });
 
     // 1. Standard Ornaments (Balls/Boxes)
-    for (let i = 0; i < ORNAMENT_COUNT; i++) {
-        const h_norm = i / ORNAMENT_COUNT; 
-        const h = h_norm * TREE_HEIGHT - (TREE_HEIGHT / 2); 
-        const layerPhase = (h_norm * layers) % 1; 
-        const baseRadius = (1 - h_norm) * TREE_RADIUS_BASE;
-        const layerKick = (1 - layerPhase) * 1.5; 
-        const r = baseRadius + layerKick;
-        const theta = i * goldenAngle;
-        const treePos = new THREE.Vector3(r * Math.cos(theta), h, r * Math.sin(theta));
+    for (let i = 0; i < ornamentCount; i++) {
         const scatterPos = new THREE.Vector3(
             (Math.random() - 0.5) * SCATTER_RADIUS_X * 2,
             (Math.random() - 0.5) * SCATTER_RADIUS_Y * 2,
             (Math.random() - 0.5) * SCATTER_RADIUS_Z * 2
         );
 
-        const colors = [
-            new THREE.Color(PALETTE.RED),
-            new THREE.Color(PALETTE.GREEN),
-            new THREE.Color(PALETTE.METALLIC_GOLD), // Use the Metallic Gold here
-            new THREE.Color(PALETTE.SILVER), 
-        ];
-        
         tempItems.push({
             id: `ornament-${i}`,
             type: Math.random() > 0.6 ? 'box' : 'sphere',
-            treePos,
+            treePos: new THREE.Vector3(),
             scatterPos,
             rotation: new THREE.Vector3(Math.random(), Math.random(), Math.random()),
-            color: colors[Math.floor(Math.random() * colors.length)],
-            scale: Math.random() * 0.6 + 0.3 
+            ...material(pickMaterial(decorations.ornaments, Math.random())),
+            scale: Math.random() * 0.6 + 0.3,
+            slot: slot('ornament', i, ornamentCount)
         });
     }
 
-    // 2. Gold & Silver Foil Flakes
-    for (let i = 0; i < FOIL_COUNT; i++) {
-        const h_norm = i / FOIL_COUNT; 
-        const h = h_norm * TREE_HEIGHT - (TREE_HEIGHT / 2) + (Math.random() * 2 - 1); 
-        const layerPhase = (h_norm * layers) % 1; 
-        const baseRadius = (1 - h_norm) * TREE_RADIUS_BASE;
-        const r = baseRadius + (Math.random() * 1.5) + 0.5; 
-        const theta = i * goldenAngle * 2; 
-        
-        const treePos = new THREE.Vector3(r * Math.cos(theta), h, r * Math.sin(theta));
+    // 2. Foil Flakes
+    for (let i = 0; i < foilCount; i++) {
         const scatterPos = new THREE.Vector3(
             (Math.random() - 0.5) * SCATTER_RADIUS_X * 2.2,
             (Math.random() - 0.5) * SCATTER_RADIUS_Y * 2.2,
@@ -395,95 +845,44 @@ export const MagicScene: React.FC<SceneProps> = ({ appState, gesture, photos, fo
         tempItems.push({
             id: `foil-${i}`,
             type: 'box', 
-            treePos,
+            treePos: new THREE.Vector3(),
             scatterPos,
             rotation: new THREE.Vector3(Math.random(), Math.random(), Math.random()),
-            color: Math.random() > 0.4 ? new THREE.Color(PALETTE.METALLIC_GOLD) : new THREE.Color(PALETTE.SILVER),
-            scale: Math.random() * 0.4 + 0.2
+            ...material(pickMaterial(decorations.foil, Math.random())),
+            scale: Math.random() * 0.4 + 0.2,
+            slot: slot('foil', i, foilCount)
         });
     }
 
-    // 3. Ribbon 1: White (Braided)
-    const ribbonSpirals = 5;
-    const braidFreq = 30; // Frequency of the braid weave
-    const braidAmp = 0.4; // Amplitude of the braid (width of separation)
-
-    for (let i = 0; i < RIBBON_PARTICLE_COUNT; i++) {
-        const t = i / RIBBON_PARTICLE_COUNT;
-        const h = (t * TREE_HEIGHT) - (TREE_HEIGHT / 2);
-        const layerPhase = (t * layers) % 1;
-        const baseRadius = (1 - t) * TREE_RADIUS_BASE;
-        const layerKick = (1 - layerPhase) * 1.8; 
-        const r = baseRadius + layerKick + 1.3; 
-
-        // Base spiral path
-        const baseTheta = t * Math.PI * 2 * ribbonSpirals;
-        
-        // Add Sine Wave offset for Braiding effect
-        const theta = baseTheta + Math.sin(t * braidFreq) * braidAmp;
-
-        const treePos = new THREE.Vector3(r * Math.cos(theta), h, r * Math.sin(theta));
-        const scatterPos = new THREE.Vector3(
-            (Math.random() - 0.5) * SCATTER_RADIUS_X * 2.5,
-            (Math.random() - 0.5) * SCATTER_RADIUS_Y * 2,
-            (Math.random() - 0.5) * SCATTER_RADIUS_Z
-        );
-
-        tempItems.push({
-            id: `ribbon-white-${i}`,
-            type: 'box', 
-            treePos,
-            scatterPos,
-            rotation: new THREE.Vector3(t, t, 0),
-            color: new THREE.Color('#FFFFFF'), 
-            scale: 0.28 
-        });
-    }
-
-    // 4. Ribbon 2: Deep Blue (Interlaced with White)
-    for (let i = 0; i < RIBBON_PARTICLE_COUNT; i++) {
-        const t = i / RIBBON_PARTICLE_COUNT;
-        const h = (t * TREE_HEIGHT) - (TREE_HEIGHT / 2);
-        const layerPhase = (t * layers) % 1;
-        const baseRadius = (1 - t) * TREE_RADIUS_BASE;
-        const layerKick = (1 - layerPhase) * 1.8; 
-        const r = baseRadius + layerKick + 0.5; 
-
-        // Base spiral path
-        const baseTheta = t * Math.PI * 2 * ribbonSpirals;
-
-        // Opposite Phase Sine Wave for Interlacing
-        const theta = baseTheta - Math.sin(t * braidFreq) * braidAmp;
-        
-        const treePos = new THREE.Vector3(r * Math.cos(theta), h, r * Math.sin(theta));
-        const scatterPos = new THREE.Vector3(
-            (Math.random() - 0.5) * SCATTER_RADIUS_X * 2.5,
-            (Math.random() - 0.5) * SCATTER_RADIUS_Y * 2,
-            (Math.random() - 0.5) * SCATTER_RADIUS_Z
-        );
+    // 3. Ribbons: two braided strands, interlaced
+    const strands: { kind: LayoutKind, name: string, material: string, scale: number }[] = [
+        { kind: 'ribbonOuter', name: 'ribbon-outer', material: decorations.ribbons[0], scale: 0.28 },
+        { kind: 'ribbonInner', name: 'ribbon-inner', material: decorations.ribbons[1], scale: 0.3 },
+    ];
+    strands.forEach(strand => {
+        for (let i = 0; i < ribbonCount; i++) {
+            const t = i / ribbonCount;
+            const scatterPos = new THREE.Vector3(
+                (Math.random() - 0.5) * SCATTER_RADIUS_X * 2.5,
+                (Math.random() - 0.5) * SCATTER_RADIUS_Y * 2,
+                (Math.random() - 0.5) * SCATTER_RADIUS_Z
+            );
 
-        tempItems.push({
-            id: `ribbon-blue-${i}`,
-            type: 'box', 
-            treePos,
-            scatterPos,
-            rotation: new THREE.Vector3(t, t, 10),
-            color: new THREE.Color(PALETTE.DEEP_BLUE), 
-            scale: 0.3
-        });
-    }
+            tempItems.push({
+                id: `${strand.name}-${i}`,
+                type: 'box', 
+                treePos: new THREE.Vector3(),
+                scatterPos,
+                rotation: new THREE.Vector3(t, t, 0),
+                ...material(strand.material),
+                scale: strand.scale,
+                slot: slot(strand.kind, i, ribbonCount)
+            });
+        }
+    });
 
-    // 5. Light Strip
-    const lightSpirals = 4;
-    for (let i = 0; i < LIGHT_COUNT; i++) {
-        const t = i / LIGHT_COUNT;
-        const h = (t * TREE_HEIGHT) - (TREE_HEIGHT / 2);
-        const layerPhase = (t * layers) % 1;
-        const baseRadius = (1 - t) * TREE_RADIUS_BASE;
-        const layerKick = (1 - layerPhase) * 1.6;
-        const r = baseRadius + layerKick + 0.2; 
-        const theta = (t * Math.PI * 2 * lightSpirals) + Math.PI;
-        const treePos = new THREE.Vector3(r * Math.cos(theta), h, r * Math.sin(theta));
+    // 4. Light Strip
+    for (let i = 0; i < lightCount; i++) {
         const scatterPos = new THREE.Vector3(
              (Math.random() - 0.5) * SCATTER_RADIUS_X * 2,
              (Math.random() - 0.5) * SCATTER_RADIUS_Y * 2,
@@ -493,32 +892,43 @@ export const MagicScene: React.FC<SceneProps> = ({ appState, gesture, photos, fo
         tempItems.push({
             id: `light-${i}`,
             type: 'sphere',
-            treePos,
+            treePos: new THREE.Vector3(),
             scatterPos,
             rotation: new THREE.Vector3(0, 0, 0),
-            color: new THREE.Color(PALETTE.LIGHT_WARM),
-            scale: 0.2 
+            ...material(decorations.lights),
+            scale: 0.2,
+            slot: slot('light', i, lightCount)
         });
     }
 
+    applyFormation(tempItems, layoutRef.current);
     return tempItems;
-  }, []);
-
-  const allItems = useMemo(() => {
-    const photoItems: SceneItem[] = photos.map((url, i) => {
-        // Tree Mode Calculations (Unchanged)
-        const h = (i / (photos.length || 1)) * (TREE_HEIGHT * 0.8) - (TREE_HEIGHT / 3);
-        const r = (1 - ((h + TREE_HEIGHT/2) / TREE_HEIGHT)) * (TREE_RADIUS_BASE + 2); 
-        const theta = i * (Math.PI * 2 / (photos.length || 1)) + 1;
-        
-        // Scatter Mode Calculations (Updated: Smaller Cylindrical Ring)
-        const scatterRadius = 12; // Reduced from 24 to 12 for better visibility
-        const scatterAngle = (i / (photos.length || 1)) * Math.PI * 2;
-        
+  }, [theme, ornamentCount, foilCount, ribbonCount, lightCount]);
+
+  // Photos keep their item (scatter spot, formation seed) for as long as they're in the gallery,
+  // so adding, removing or reordering photos doesn't reshuffle the others
+  const photoItemCache = useRef(new Map<string, SceneItem>());
+  const photoSpotCounter = useRef(0);
+
+  const photoItems = useMemo(() => {
+    const cache = photoItemCache.current;
+    // Scatter Mode Calculations (Updated: Smaller Cylindrical Ring)
+    // Reduced from 24 to 12 for better visibility; large galleries widen it again
+    const scatterRadius = 12 + Math.max(0, photos.length - 20) * 0.05;
+
+    const tempItems = photos.map((photo, i): SceneItem => {
+        const cached = cache.get(photo.id);
+        const slot: LayoutSlot = { kind: 'photo', index: i, count: photos.length, seed: cached?.slot?.seed ?? Math.random() };
+        if (cached) {
+            return { ...cached, textureUrl: photo.thumbUrl, closeUpUrl: photo.url, aspect: photo.aspect, frameLabel: frameLabelOf(photo), slot };
+        }
+
+        // Golden-angle steps keep spots spread around the ring however many photos arrive
+        const scatterAngle = photoSpotCounter.current++ * GOLDEN_ANGLE;
         return {
-            id: `photo-${i}`,
+            id: photo.id,
             type: 'photo',
-            treePos: new THREE.Vector3(r * Math.cos(theta), h, r * Math.sin(theta)),
+            treePos: new THREE.Vector3(),
             // New Ring Arrangement
             scatterPos: new THREE.Vector3(
                 Math.cos(scatterAngle) * scatterRadius,
@@ -526,61 +936,111 @@ export const MagicScene: React.FC<SceneProps> = ({ appState, gesture, photos, fo
                 Math.sin(scatterAngle) * scatterRadius
             ),
             rotation: new THREE.Vector3(0,0,0),
-            textureUrl: url,
+            textureUrl: photo.thumbUrl,
+            closeUpUrl: photo.url,
+            aspect: photo.aspect,
+            frameLabel: frameLabelOf(photo),
             scale: 1,
-            color: new THREE.Color(PALETTE.CREAM)
+            slot
         };
     });
-    return [...items, ...photoItems];
-  }, [items, photos]);
+
+    cache.clear();
+    tempItems.forEach(item => cache.set(item.id, item));
+    applyFormation(tempItems, layoutRef.current);
+    return tempItems;
+  }, [photos]);
+
+  // Free the GPU copies of photos that left the gallery
+  useEffect(() => {
+      const current = new Set(photos.map(p => p.thumbUrl));
+      photoTextures.forEach((texture, url) => {
+          if (current.has(url)) return;
+          texture.dispose();
+          useLoader.clear(THREE.TextureLoader, url);
+          photoTextures.delete(url);
+      });
+  }, [photos]);
+
+  // Re-target the existing items; they glide over because every frame lerps towards treePos
+  useEffect(() => {
+      layoutRef.current = layout;
+      applyFormation(items, layout);
+      applyFormation(photoItems, layout);
+  }, [layout, items, photoItems]);
+
+  const topperPos = useMemo(() => getFormation(layout.formation).topper(layout), [layout]);
+
+  // Letter positions for the wish, sampled from the rendered glyphs
+  useEffect(() => {
+      let cancelled = false;
+      const letters = items.filter(item => item.slot && TEXT_KINDS.includes(item.slot.kind));
+      sampleTextPoints(message, theme.fonts.heading, letters.length)
+          .then(points => {
+              if (cancelled) return;
+              letters.forEach((item, i) => { item.textPos = points[i]; });
+          })
+          .catch(err => console.error("Could not lay out the wish text", err));
+      return () => { cancelled = true; };
+  }, [message, theme.fonts.heading, items]);
 
   return (
-    <Canvas shadows camera={{ position: [0, 0, 32], fov: 45 }}>
+    // The drawing buffer is kept so video and poster exports can copy frames
+    <Canvas shadows camera={{ position: [0, 0, 32], fov: 45 }} gl={{ preserveDrawingBuffer: true }}>
       {/* Background Color & Fog for Atmosphere */}
-      <color attach="background" args={[PALETTE.TWILIGHT]} />
-      <fog attach="fog" args={[PALETTE.TWILIGHT, 10, 60]} />
+      <color attach="background" args={[theme.scene.background]} />
+      <fog attach="fog" args={[theme.scene.fog.color, theme.scene.fog.near, theme.scene.fog.far]} />
 
       <Suspense fallback={null}>
-          <Environment preset="city" />
+          <Environment files={cityEnvironment} />
       </Suspense>
       
       {/* Warm, Nostalgic Lighting - Brightened Up */}
-      <ambientLight intensity={0.8} color={PALETTE.TWILIGHT} />
-      <pointLight position={[10, 10, 15]} intensity={5} color={PALETTE.LIGHT_WARM} />
-      <pointLight position={[-15, -5, 10]} intensity={3} color={PALETTE.RED} />
-      <spotLight position={[0, 20, 0]} angle={0.5} penumbra={1} intensity={5} color={PALETTE.GOLD} castShadow />
+      <ambientLight intensity={0.8} color={theme.scene.ambientLight} />
+      <pointLight position={[10, 10, 15]} intensity={5} color={theme.scene.keyLight} />
+      <pointLight position={[-15, -5, 10]} intensity={3} color={theme.scene.fillLight} />
+      <spotLight position={[0, 20, 0]} angle={0.5} penumbra={1} intensity={5} color={theme.scene.spotLight} castShadow />
       
       {/* Background Elements */}
       <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={0.5} />
-      <Sparkles count={400} scale={45} size={6} speed={0.3} opacity={0.5} color={PALETTE.GOLD} />
-      <Sparkles count={200} scale={45} size={8} speed={0.2} opacity={0.3} color="#ffffff" />
+      <Sparkles count={400} scale={45} size={6} speed={0.3} opacity={0.5} color={theme.scene.sparkles[0]} />
+      <Sparkles count={200} scale={45} size={8} speed={0.2} opacity={0.3} color={theme.scene.sparkles[1]} />
 
+      <AudioSampler audio={audio} sensitivity={audioSensitivity} pulse={audioPulse} levels={audioLevels} onBeat={onBeat} />
       <CameraController mode={appState} gesture={gesture} focusTarget={null} />
 
-      <StarTopper position={appState === AppState.TREE ? new THREE.Vector3(0, TREE_HEIGHT/2 + 0.8, 0) : new THREE.Vector3(0, 12, 0)} />
+      <SpinGroup mode={appState} gesture={gesture}>
+        <StarTopper position={appState === AppState.TREE ? topperPos : STAR_SCATTER_POS} star={theme.scene.star} levels={audioLevels} />
 
-      <Suspense fallback={null}>
-        <group>
-            {allItems.map(item => (
-                <MagicItem 
-                    key={item.id} 
-                    item={item} 
-                    targetMode={appState} 
-                    gesture={gesture} 
-                    focusId={focusId}
-                    onSelect={onPhotoSelect}
-                />
-            ))}
-        </group>
-      </Suspense>
+        <InstancedDecorations items={items} targetMode={appState} levels={audioLevels} />
+
+        <Suspense fallback={null}>
+          <group>
+              {photoItems.map(item => (
+                  <PhotoItem 
+                      key={item.id} 
+                      item={item} 
+                      theme={theme}
+                      targetMode={appState} 
+                      focusId={focusId}
+                      photoSwipe={photoSwipe}
+                      kenBurns={kenBurns}
+                      onSelect={onPhotoSelect}
+                  />
+              ))}
+          </group>
+        </Suspense>
+      </SpinGroup>
 
       <Suspense fallback={null}>
-        <EffectComposer enableNormalPass multisampling={0}>
-            <Bloom luminanceThreshold={0.7} mipmapBlur intensity={1.8} radius={0.5} />
+        <EffectComposer ref={composerRef} enableNormalPass multisampling={0}>
+            <AudioBloom levels={audioLevels} />
             <Vignette eskil={false} offset={0.1} darkness={0.4} />
             <Noise opacity={0.05} /> 
         </EffectComposer>
       </Suspense>
+
+      <SceneCapturer composerRef={composerRef} captureRef={captureRef} />
     </Canvas>
   );
 };
\ No newline at end of file
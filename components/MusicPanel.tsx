@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { PlaylistTrack } from '../types';
+import { CROSSFADE_RANGE, PlaylistSettings, REPEAT_MODES } from '../utils/playlist';
+import { AUDIO_SENSITIVITY_RANGE, AudioReactiveSettings } from '../utils/audioAnalysis';
+
+const REPEAT_LABELS: Record<PlaylistSettings['repeat'], string> = { all: 'Repeat All', one: 'Repeat One', off: 'Repeat Off' };
+
+const SmallButton = ({ onClick, disabled, title, children }: {
+  onClick: () => void, disabled?: boolean, title: string, children: React.ReactNode
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className="w-5 text-center text-ink/60 hover:text-accent disabled:opacity-20 disabled:hover:text-ink/60 transition-colors"
+  >
+    {children}
+  </button>
+);
+
+const Toggle = ({ active, onClick, children }: { active: boolean, onClick: () => void, children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`px-2 py-1 rounded-lg text-[9px] uppercase tracking-widest transition-colors ${
+      active ? 'bg-accent/20 text-accent' : 'text-ink/60 hover:bg-ink/10'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const Slider = ({ label, display, value, min, max, step, onChange }: {
+  label: string, display: string, value: number, min: number, max: number, step: number, onChange: (value: number) => void
+}) => (
+  <label className="flex flex-col gap-0.5">
+    <span className="flex justify-between text-[9px] text-ink/70 uppercase tracking-widest">
+      {label}<span className="text-ink">{display}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-accent"
+    />
+  </label>
+);
+
+interface MusicPanelProps {
+  tracks: PlaylistTrack[];
+  currentUrl: string;
+  title: string;
+  settings: PlaylistSettings;
+  onSettingsChange: (settings: PlaylistSettings) => void;
+  onUpload: (files: File[]) => void;
+  onSelect: (url: string) => void;
+  onMove: (index: number, direction: 1 | -1) => void;
+  onRemove: (url: string) => void;
+  onSkip: (direction: 1 | -1) => void;
+  audioReactive: AudioReactiveSettings;
+  onAudioReactiveChange: (settings: AudioReactiveSettings) => void;
+}
+
+// Current track title with skip buttons; opens the playlist, playback options and music pulse settings
+export const MusicPanel: React.FC<MusicPanelProps> = ({
+  tracks, currentUrl, title, settings, onSettingsChange, onUpload, onSelect, onMove, onRemove, onSkip,
+  audioReactive, onAudioReactiveChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const canSkip = tracks.length > 0;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Allow re-selecting the same files later
+    e.target.value = '';
+    if (files.length) onUpload(files);
+  };
+
+  const cycleRepeat = () => {
+    const next = REPEAT_MODES[(REPEAT_MODES.indexOf(settings.repeat) + 1) % REPEAT_MODES.length];
+    onSettingsChange({ ...settings, repeat: next });
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <div className="flex items-center gap-1 h-8 px-2 rounded-full border border-ink/20 bg-surface/40 backdrop-blur-md text-[10px]">
+        <SmallButton onClick={() => onSkip(-1)} disabled={!canSkip} title="Previous Track">⏮</SmallButton>
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          className={`max-w-[10rem] truncate uppercase tracking-widest transition-colors ${isOpen ? 'text-accent' : 'text-ink/80 hover:text-accent'}`}
+          title="Playlist"
+        >
+          ♪ {title}
+        </button>
+        <SmallButton onClick={() => onSkip(1)} disabled={!canSkip} title="Next Track">⏭</SmallButton>
+      </div>
+
+      {isOpen && (
+        <div className="absolute right-0 top-11 w-64 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Playlist</span>
+
+          {tracks.length === 0 ? (
+            <span className="text-[10px] text-ink/60 leading-snug">Playing the theme's track. Add your own music to build a playlist.</span>
+          ) : (
+            <ol className="flex flex-col gap-0.5 max-h-48 overflow-y-auto">
+              {tracks.map((track, i) => (
+                <li
+                  key={track.url}
+                  className={`flex items-center gap-1 px-1.5 py-1 rounded-lg text-xs ${
+                    track.url === currentUrl ? 'bg-accent/20 text-accent' : 'text-ink/80 hover:bg-ink/10'
+                  }`}
+                >
+                  <button onClick={() => onSelect(track.url)} className="flex-1 truncate text-left tracking-wider" title={track.title}>
+                    {track.title}
+                  </button>
+                  <SmallButton onClick={() => onMove(i, -1)} disabled={i === 0} title="Move Up">▲</SmallButton>
+                  <SmallButton onClick={() => onMove(i, 1)} disabled={i === tracks.length - 1} title="Move Down">▼</SmallButton>
+                  <SmallButton onClick={() => onRemove(track.url)} title="Remove">✕</SmallButton>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <label className="self-start text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest cursor-pointer">
+            Add Tracks…
+            <input type="file" accept="audio/*" multiple onChange={handleFiles} className="hidden" />
+          </label>
+
+          <div className="flex gap-1 pt-2 border-t border-ink/10">
+            <Toggle active={settings.shuffle} onClick={() => onSettingsChange({ ...settings, shuffle: !settings.shuffle })}>Shuffle</Toggle>
+            <Toggle active={settings.repeat !== 'off'} onClick={cycleRepeat}>{REPEAT_LABELS[settings.repeat]}</Toggle>
+          </div>
+
+          <Slider
+            label="Volume"
+            display={`${Math.round(settings.volume * 100)}%`}
+            value={settings.volume}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={volume => onSettingsChange({ ...settings, volume })}
+          />
+          <Slider
+            label="Crossfade"
+            display={settings.crossfade ? `${settings.crossfade}s` : 'Off'}
+            value={settings.crossfade}
+            min={CROSSFADE_RANGE[0]}
+            max={CROSSFADE_RANGE[1]}
+            step={0.5}
+            onChange={crossfade => onSettingsChange({ ...settings, crossfade })}
+          />
+
+          {/* Audio-reactive glow: on/off + sensitivity */}
+          <div className="flex items-center justify-between pt-2 border-t border-ink/10">
+            <span className="text-[10px] text-accent tracking-widest uppercase">Light Pulse</span>
+            <Toggle
+              active={audioReactive.enabled}
+              onClick={() => onAudioReactiveChange({ ...audioReactive, enabled: !audioReactive.enabled })}
+            >
+              {audioReactive.enabled ? 'On' : 'Off'}
+            </Toggle>
+          </div>
+          {audioReactive.enabled && (
+            <Slider
+              label="Sensitivity"
+              display={`×${audioReactive.sensitivity.toFixed(1)}`}
+              value={audioReactive.sensitivity}
+              min={AUDIO_SENSITIVITY_RANGE[0]}
+              max={AUDIO_SENSITIVITY_RANGE[1]}
+              step={0.1}
+              onChange={sensitivity => onAudioReactiveChange({ ...audioReactive, sensitivity })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
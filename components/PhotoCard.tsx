@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GalleryPhoto, PhotoDetails } from '../types';
+
+interface PhotoCardProps {
+  photo: GalleryPhoto;
+  onChange: (details: PhotoDetails) => void;
+}
+
+// Caption, date and note beside the inspected photo, edited in place.
+// Text is kept as a draft while typing and saved on blur (or when the card goes away).
+export const PhotoCard: React.FC<PhotoCardProps> = ({ photo, onChange }) => {
+  const { details } = photo;
+  const [caption, setCaption] = useState(details.caption);
+  const [note, setNote] = useState(details.note);
+
+  const commit = (changes: Partial<PhotoDetails>) => {
+    const next = { ...details, ...changes };
+    if (next.caption !== details.caption || next.note !== details.note || next.takenAt !== details.takenAt ||
+        next.captionOnFrame !== details.captionOnFrame) {
+      onChange(next);
+    }
+  };
+
+  // Swiping to the next photo unmounts the card without a blur
+  const flushRef = useRef(() => {});
+  flushRef.current = () => commit({ caption: caption.trim(), note: note.trim() });
+  useEffect(() => () => flushRef.current(), []);
+
+  const dateLabel = details.takenAt ? new Date(`${details.takenAt}T00:00`).toLocaleDateString() : 'Date unknown';
+
+  return (
+    <div className="absolute right-28 top-1/2 -translate-y-1/2 w-72 rounded-2xl border border-ink/20 bg-surface/70 backdrop-blur-md shadow-2xl p-4 flex flex-col gap-3 pointer-events-auto animate-[fadeIn_0.5s_ease-out] z-40">
+      <input
+        value={caption}
+        onChange={e => setCaption(e.target.value)}
+        onBlur={() => commit({ caption: caption.trim() })}
+        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+        placeholder="Add a caption…"
+        maxLength={80}
+        className="bg-transparent border-b border-ink/20 focus:border-accent pb-1 text-lg text-ink cinzel tracking-wide placeholder-ink/30 focus:outline-none transition-colors"
+      />
+
+      <label className="flex items-center justify-between gap-2 text-[10px] text-ink/60 uppercase tracking-widest">
+        <span title={photo.name}>{dateLabel}</span>
+        <input
+          type="date"
+          value={details.takenAt}
+          onChange={e => commit({ takenAt: e.target.value })}
+          className="bg-ink/10 rounded-md px-1.5 py-0.5 text-[10px] text-ink focus:outline-none focus:ring-1 focus:ring-accent [color-scheme:dark]"
+        />
+      </label>
+
+      <textarea
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        onBlur={() => commit({ note: note.trim() })}
+        placeholder="Write a note about this moment…"
+        rows={5}
+        maxLength={1000}
+        className="resize-none bg-ink/5 rounded-lg p-2 text-sm leading-relaxed text-ink/90 placeholder-ink/30 focus:outline-none focus:ring-1 focus:ring-accent/60"
+      />
+
+      <div className="flex items-center justify-between pt-2 border-t border-ink/10">
+        <span className="text-[9px] text-ink/70 uppercase tracking-widest">Show on Frame</span>
+        <button
+          onClick={() => commit({ caption: caption.trim(), captionOnFrame: !details.captionOnFrame })}
+          className={`px-2 py-1 rounded-lg text-[9px] uppercase tracking-widest transition-colors ${
+            details.captionOnFrame ? 'bg-accent/20 text-accent' : 'text-ink/60 hover:bg-ink/10'
+          }`}
+        >
+          {details.captionOnFrame ? 'On' : 'Off'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,266 @@
+import React, { useEffect, useRef } from 'react';
+import { GestureSourceProps, HandGestureData, SwipeDirection } from '../types';
+import { GestureFlags, NEUTRAL_GESTURE } from '../utils/gestures';
+
+type GestureKey = keyof GestureFlags;
+
+// Discrete inputs (double tap, key tap) keep their gesture raised this long
+// so the state machine in App sees them like a held hand pose
+const PULSE_MS = 300;
+
+// Keyboard layout: hold a key to hold the gesture
+const KEY_BINDINGS: Record<string, GestureKey> = {
+  f: 'isFist',
+  o: 'isOpen',
+  p: 'isPointing',
+  i: 'isPinching',
+  v: 'isVictory',
+  t: 'isThumbsUp',
+};
+
+// Arrow keys mirror the hand swipes (swipe left = next photo)
+const ARROW_SWIPES: Record<string, SwipeDirection> = {
+  ArrowRight: 'left',
+  ArrowLeft: 'right',
+};
+
+// Touch tuning (CSS pixels / ms)
+const LONG_PRESS_MS = 500;
+const TAP_MAX_MS = 250;
+const TAP_MAX_MOVE = 10;
+const DOUBLE_TAP_MS = 300;
+const FLICK_MAX_MS = 300;
+const FLICK_MIN_DX = 60;
+const TWO_FINGER_PINCH_RATIO = 0.7;
+const TWO_FINGER_SPREAD_RATIO = 1.3;
+
+interface SyntheticInput {
+  position: { x: number; y: number };
+  held: Set<GestureKey>;
+  pulses: Map<GestureKey, number>; // Gesture -> expiry timestamp
+  swipe: SwipeDirection | null;    // Consumed by the next emitted frame
+}
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+// Emits one HandGestureData per animation frame from whatever the listeners wrote into the input ref,
+// the same cadence the camera produces results at
+const useSyntheticGestures = (onGesture: GestureSourceProps['onGesture']) => {
+  const inputRef = useRef<SyntheticInput>({
+    position: { ...NEUTRAL_GESTURE.handPosition },
+    held: new Set(),
+    pulses: new Map(),
+    swipe: null,
+  });
+
+  useEffect(() => {
+    let frame = 0;
+    let lastLabel: GestureKey | null = null;
+    let stableSince: number | null = null;
+
+    const tick = () => {
+      const input = inputRef.current;
+      const now = Date.now();
+
+      const isActive = (key: GestureKey) => {
+        const expiry = input.pulses.get(key);
+        if (expiry !== undefined && expiry < now) input.pulses.delete(key);
+        return input.held.has(key) || (expiry !== undefined && expiry >= now);
+      };
+
+      const flags: GestureFlags = {
+        isFist: isActive('isFist'),
+        isOpen: isActive('isOpen'),
+        isPinching: isActive('isPinching'),
+        isPointing: isActive('isPointing'),
+        isVictory: isActive('isVictory'),
+        isThumbsUp: isActive('isThumbsUp'),
+      };
+
+      const label = (Object.keys(flags) as GestureKey[]).find(key => flags[key]) ?? null;
+      if (label !== lastLabel) {
+        lastLabel = label;
+        stableSince = label ? now : null;
+      }
+
+      const data: HandGestureData = {
+        ...NEUTRAL_GESTURE,
+        ...flags,
+        handPosition: { ...input.position },
+        confidence: 1, // Explicit input, nothing to be unsure about
+        stableSince,
+        swipe: input.swipe,
+      };
+      input.swipe = null;
+
+      onGesture(data);
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [onGesture]);
+
+  return inputRef;
+};
+
+const SourcePanel = ({ title, hints }: { title: string, hints: string[] }) => (
+  <div className="fixed bottom-4 right-4 z-50 w-36 h-28 rounded-xl overflow-hidden border border-ink/20 shadow-xl backdrop-blur-md bg-surface/40 p-3 flex flex-col gap-1 pointer-events-none">
+    <span className="text-[10px] text-accent tracking-widest uppercase">{title}</span>
+    {hints.map(hint => (
+      <span key={hint} className="text-[9px] text-ink/70 font-light leading-tight">{hint}</span>
+    ))}
+  </div>
+);
+
+// --- Mouse & Keyboard ---
+
+export const MouseKeyboardController: React.FC<GestureSourceProps> = ({ onGesture }) => {
+  const inputRef = useSyntheticGestures(onGesture);
+
+  useEffect(() => {
+    const onMouseMove = (e: MouseEvent) => {
+      inputRef.current.position = { x: e.clientX / window.innerWidth, y: e.clientY / window.innerHeight };
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target)) return;
+      const gesture = KEY_BINDINGS[e.key.toLowerCase()];
+      if (gesture) inputRef.current.held.add(gesture);
+      if (ARROW_SWIPES[e.key] && !e.repeat) inputRef.current.swipe = ARROW_SWIPES[e.key];
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+      const gesture = KEY_BINDINGS[e.key.toLowerCase()];
+      if (!gesture) return;
+      // Keep short taps visible for at least one pulse
+      inputRef.current.held.delete(gesture);
+      inputRef.current.pulses.set(gesture, Date.now() + PULSE_MS);
+    };
+
+    // Releasing keys while the window is unfocused never fires keyup
+    const onBlur = () => inputRef.current.held.clear();
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [inputRef]);
+
+  return <SourcePanel title="Mouse & Keys" hints={['Move mouse to orbit', 'F fist · O open', 'P point · I pinch', 'V spell · T next song', '← → browse']} />;
+};
+
+// --- Touch ---
+
+export const TouchController: React.FC<GestureSourceProps> = ({ onGesture }) => {
+  const inputRef = useSyntheticGestures(onGesture);
+
+  useEffect(() => {
+    let start: { x: number; y: number; t: number } | null = null;
+    let moved = false;
+    let lastTapAt = 0;
+    let longPressTimer = 0;
+    let twoFingerStart = 0;
+
+    const toNormalized = (x: number, y: number) => ({ x: x / window.innerWidth, y: y / window.innerHeight });
+    const fingerDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+    const clearGestures = () => {
+      window.clearTimeout(longPressTimer);
+      inputRef.current.held.clear();
+    };
+
+    const onTouchStart = (e: TouchEvent) => {
+      clearGestures();
+      if (e.touches.length === 1) {
+        const t = e.touches[0];
+        start = { x: t.clientX, y: t.clientY, t: Date.now() };
+        moved = false;
+        inputRef.current.position = toNormalized(t.clientX, t.clientY);
+        // Holding a finger still points
+        longPressTimer = window.setTimeout(() => {
+          if (!moved) inputRef.current.held.add('isPointing');
+        }, LONG_PRESS_MS);
+      } else if (e.touches.length === 2) {
+        start = null;
+        twoFingerStart = fingerDistance(e.touches);
+      }
+    };
+
+    const onTouchMove = (e: TouchEvent) => {
+      if (e.touches.length === 1 && start) {
+        const t = e.touches[0];
+        if (Math.hypot(t.clientX - start.x, t.clientY - start.y) > TAP_MAX_MOVE) {
+          moved = true;
+          window.clearTimeout(longPressTimer);
+        }
+        inputRef.current.position = toNormalized(t.clientX, t.clientY);
+      } else if (e.touches.length === 2 && twoFingerStart > 0) {
+        // Pinching in inspects, spreading out scatters
+        const ratio = fingerDistance(e.touches) / twoFingerStart;
+        const held = inputRef.current.held;
+        held.delete('isPinching');
+        held.delete('isOpen');
+        if (ratio < TWO_FINGER_PINCH_RATIO) held.add('isPinching');
+        else if (ratio > TWO_FINGER_SPREAD_RATIO) held.add('isOpen');
+
+        const mid = toNormalized(
+          (e.touches[0].clientX + e.touches[1].clientX) / 2,
+          (e.touches[0].clientY + e.touches[1].clientY) / 2
+        );
+        inputRef.current.position = mid;
+      }
+    };
+
+    const onTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length > 0) return;
+      clearGestures();
+      twoFingerStart = 0;
+      if (!start) return;
+
+      const t = e.changedTouches[0];
+      const dx = t.clientX - start.x;
+      const dy = t.clientY - start.y;
+      const duration = Date.now() - start.t;
+      start = null;
+
+      if (duration < FLICK_MAX_MS && Math.abs(dx) > FLICK_MIN_DX && Math.abs(dx) > Math.abs(dy) * 2) {
+        inputRef.current.swipe = dx < 0 ? 'left' : 'right';
+        return;
+      }
+
+      if (!moved && duration < TAP_MAX_MS) {
+        const now = Date.now();
+        // Double tap assembles the tree
+        if (now - lastTapAt < DOUBLE_TAP_MS) {
+          inputRef.current.pulses.set('isFist', now + PULSE_MS);
+          lastTapAt = 0;
+        } else {
+          lastTapAt = now;
+        }
+      }
+    };
+
+    window.addEventListener('touchstart', onTouchStart, { passive: true });
+    window.addEventListener('touchmove', onTouchMove, { passive: true });
+    window.addEventListener('touchend', onTouchEnd, { passive: true });
+    window.addEventListener('touchcancel', onTouchEnd, { passive: true });
+    return () => {
+      window.clearTimeout(longPressTimer);
+      window.removeEventListener('touchstart', onTouchStart);
+      window.removeEventListener('touchmove', onTouchMove);
+      window.removeEventListener('touchend', onTouchEnd);
+      window.removeEventListener('touchcancel', onTouchEnd);
+    };
+  }, [inputRef]);
+
+  return <SourcePanel title="Touch" hints={['Drag to orbit', 'Double tap: assemble', 'Hold: point · Flick: browse', 'Pinch in / spread out']} />;
+};
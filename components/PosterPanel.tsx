@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { POSTER_FRAMINGS, POSTER_SIZES, PosterFraming } from '../utils/poster';
+
+const ImageIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2zm8-12h.01" />
+  </svg>
+);
+
+export interface PosterRequest {
+  framing: PosterFraming;
+  sizeId: string;
+  withText: boolean; // Paint the title, wish and caption over the scene
+}
+
+interface PosterPanelProps {
+  hasPhotos: boolean;
+  isRendering: boolean;
+  onExport: (request: PosterRequest) => void;
+}
+
+const Choice = ({ active, disabled, title, onClick, children }: {
+  active: boolean, disabled?: boolean, title?: string, onClick: () => void, children: React.ReactNode
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`px-1 py-1 rounded-lg text-[9px] uppercase tracking-widest transition-colors disabled:opacity-30 ${
+      active ? 'bg-accent/20 text-accent' : 'text-ink/60 hover:bg-ink/10'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+// Saves a print-size PNG of the scene with a chosen framing
+export const PosterPanel: React.FC<PosterPanelProps> = ({ hasPhotos, isRendering, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [request, setRequest] = useState<PosterRequest>({ framing: 'tree', sizeId: POSTER_SIZES[0].id, withText: true });
+  const framing = request.framing === 'photo' && !hasPhotos ? 'tree' : request.framing;
+
+  return (
+    <div className="relative flex items-center">
+      {isOpen && (
+        <div className="absolute right-16 top-0 w-56 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Poster</span>
+
+          <span className="text-[9px] text-ink/70 uppercase tracking-widest">Framing</span>
+          <div className="grid grid-cols-3 gap-1">
+            {POSTER_FRAMINGS.map(f => (
+              <Choice
+                key={f.id}
+                active={framing === f.id}
+                disabled={f.id === 'photo' && !hasPhotos}
+                onClick={() => setRequest({ ...request, framing: f.id })}
+              >
+                {f.label}
+              </Choice>
+            ))}
+          </div>
+
+          <span className="text-[9px] text-ink/70 uppercase tracking-widest">Size</span>
+          <div className="grid grid-cols-2 gap-1">
+            {POSTER_SIZES.map(size => (
+              <Choice
+                key={size.id}
+                active={request.sizeId === size.id}
+                title={`${size.width}×${size.height}`}
+                onClick={() => setRequest({ ...request, sizeId: size.id })}
+              >
+                {size.label}
+              </Choice>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-[9px] text-ink/70 uppercase tracking-widest cursor-pointer">
+            <input
+              type="checkbox"
+              checked={request.withText}
+              onChange={e => setRequest({ ...request, withText: e.target.checked })}
+              className="accent-accent"
+            />
+            Title, Wish &amp; Caption
+          </label>
+
+          <button
+            onClick={() => onExport({ ...request, framing })}
+            disabled={isRendering}
+            className="mt-1 py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 disabled:opacity-50 transition-colors"
+          >
+            {isRendering ? 'Rendering…' : 'Save PNG'}
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title="Save Poster"
+      >
+        <ImageIcon />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureSourceProps } from '../types';
+import { createHandTracker, toTrackedHands } from '../utils/gestures';
+import { LandmarkRecording, parseRecording } from '../utils/landmarkRecording';
+
+// Feeds a recorded landmark session back through the same tracker the camera uses,
+// at the recorded timing, so gesture tweaks can be checked without waving at a webcam.
+export const ReplayController: React.FC<GestureSourceProps> = ({ onGesture }) => {
+  const [recording, setRecording] = useState<LandmarkRecording | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // Bumped to restart playback of the same recording
+  const [runId, setRunId] = useState(0);
+  const onGestureRef = useRef(onGesture);
+  useEffect(() => { onGestureRef.current = onGesture; }, [onGesture]);
+
+  useEffect(() => {
+    if (!recording || recording.frames.length === 0) return;
+
+    const tracker = createHandTracker();
+    const frames = recording.frames;
+    const duration = frames[frames.length - 1].t || 1;
+    const startedAt = Date.now();
+    let next = 0;
+    let animation = 0;
+
+    setIsPlaying(true);
+    setProgress(0);
+
+    const tick = () => {
+      const elapsed = Date.now() - startedAt;
+      while (next < frames.length && frames[next].t <= elapsed) {
+        const frame = frames[next];
+        onGestureRef.current(tracker.update(toTrackedHands(frame), startedAt + frame.t));
+        next++;
+      }
+      setProgress(Math.min(elapsed / duration, 1));
+
+      if (next < frames.length) {
+        animation = requestAnimationFrame(tick);
+      } else {
+        // Let go of the hand once the session ends
+        onGestureRef.current(tracker.update([], Date.now()));
+        setIsPlaying(false);
+      }
+    };
+
+    animation = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animation);
+  }, [recording, runId]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseRecording(await file.text());
+      setError(null);
+      setFileName(file.name);
+      setRecording(parsed);
+      setRunId(id => id + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-36 h-28 rounded-xl overflow-hidden border border-ink/20 shadow-xl backdrop-blur-md bg-surface/40 p-3 flex flex-col gap-1">
+      <span className="text-[10px] text-accent tracking-widest uppercase">Replay</span>
+
+      {error && <span className="text-[9px] text-red-300 leading-tight">{error}</span>}
+
+      {recording && !error && (
+        <>
+          <span className="text-[9px] text-ink/70 font-light truncate" title={fileName}>{fileName}</span>
+          <div className="h-1 w-full rounded-full bg-ink/10 overflow-hidden">
+            <div className="h-full bg-accent transition-[width] duration-100" style={{ width: `${progress * 100}%` }} />
+          </div>
+          {!isPlaying && (
+            <button
+              onClick={() => setRunId(id => id + 1)}
+              className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest text-left"
+            >
+              Play Again
+            </button>
+          )}
+        </>
+      )}
+
+      <label className="mt-auto text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest cursor-pointer">
+        {recording ? 'Load Another…' : 'Load Recording…'}
+        <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+
+const ShareIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+  </svg>
+);
+
+interface SharePanelProps {
+  isExporting: boolean;
+  onExport: () => void;
+  onOpen: (file: File) => void;
+}
+
+// Saves the whole scene as a greeting card file, or opens one for viewing
+export const SharePanel: React.FC<SharePanelProps> = ({ isExporting, onExport, onOpen }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      setIsOpen(false);
+      onOpen(file);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center">
+      {isOpen && (
+        <div className="absolute right-16 top-0 w-56 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Greeting Card</span>
+          <span className="text-[10px] text-ink/60 leading-snug">
+            One file with your photos, wish, music, theme and formation. Whoever opens it in this app sees the same tree.
+          </span>
+          <button
+            onClick={onExport}
+            disabled={isExporting}
+            className="py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 disabled:opacity-50 transition-colors"
+          >
+            {isExporting ? 'Packing…' : 'Save Card'}
+          </button>
+          <label className="self-start text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest cursor-pointer">
+            Open a Card…
+            <input type="file" accept=".zip,application/zip" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title="Share as a Card"
+      >
+        <ShareIcon />
+      </button>
+    </div>
+  );
+};
+
+interface CardViewerBarProps {
+  name: string;
+  onKeep: () => void;
+  onClose: () => void;
+}
+
+// Shown while viewing a card: nothing is saved until it's kept
+export const CardViewerBar: React.FC<CardViewerBarProps> = ({ name, onKeep, onClose }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 rounded-full border border-accent/40 bg-surface/70 backdrop-blur-md shadow-lg pointer-events-auto z-50">
+    <span className="text-[10px] text-ink/80 uppercase tracking-widest max-w-[16rem] truncate" title={name}>
+      Viewing {name}
+    </span>
+    <button onClick={onKeep} className="text-[9px] text-accent hover:text-ink uppercase tracking-widest" title="Replace your own scene with this card">
+      Keep
+    </button>
+    <button onClick={onClose} className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest">
+      Close
+    </button>
+  </div>
+);
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { GalleryPhoto } from '../types';
+
+const FADE_MS = 1000;
+
+const CaptionText = ({ photo, visible }: { photo: GalleryPhoto, visible: boolean }) => {
+  const { caption, takenAt, note } = photo.details;
+  return (
+    <div
+      className="absolute inset-x-0 bottom-0 flex flex-col items-center gap-1 text-center transition-opacity ease-in-out"
+      style={{ opacity: visible ? 1 : 0, transitionDuration: `${FADE_MS}ms` }}
+    >
+      {caption && <span className="text-2xl text-ink cinzel tracking-wide drop-shadow-lg">{caption}</span>}
+      {takenAt && (
+        <span className="text-[10px] text-accent/80 uppercase tracking-widest">
+          {new Date(`${takenAt}T00:00`).toLocaleDateString()}
+        </span>
+      )}
+      {note && <p className="max-w-xl text-sm text-ink/80 leading-relaxed line-clamp-3 drop-shadow">{note}</p>}
+    </div>
+  );
+};
+
+// Read-only caption under the slideshow (or greeting card) photo; the outgoing one fades out as the next fades in
+export const SlideCaption: React.FC<{ photo: GalleryPhoto }> = ({ photo }) => {
+  const [current, setCurrent] = useState(photo);
+  const [previous, setPrevious] = useState<GalleryPhoto | null>(null);
+  const [faded, setFaded] = useState(true);
+
+  useEffect(() => {
+    if (photo.id === current.id) {
+      setCurrent(photo); // Same slide, e.g. its caption was edited
+      return;
+    }
+    setPrevious(current);
+    setCurrent(photo);
+    setFaded(false);
+  }, [photo]);
+
+  // Let the new caption render transparent for a frame, then start both fades;
+  // the outgoing one is dropped once it has faded out
+  useEffect(() => {
+    if (!faded) {
+      const frame = requestAnimationFrame(() => setFaded(true));
+      return () => cancelAnimationFrame(frame);
+    }
+    const timer = setTimeout(() => setPrevious(null), FADE_MS);
+    return () => clearTimeout(timer);
+  }, [faded]);
+
+  return (
+    <div className="absolute bottom-24 left-1/2 -translate-x-1/2 w-[min(40rem,90vw)] h-32 pointer-events-none z-40">
+      {previous && <CaptionText key={previous.id} photo={previous} visible={!faded} />}
+      <CaptionText key={current.id} photo={current} visible={faded} />
+    </div>
+  );
+};
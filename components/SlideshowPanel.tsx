@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { SlideshowSettings, SLIDE_INTERVAL_RANGE } from '../utils/slideshow';
+
+const PlayIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h16v11H4zM10 8.5v4l3.5-2-3.5-2zM8 20h8" />
+  </svg>
+);
+
+const Toggle = ({ active, onClick, children }: { active: boolean, onClick: () => void, children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`px-2 py-1 rounded-lg text-[9px] uppercase tracking-widest transition-colors ${
+      active ? 'bg-accent/20 text-accent' : 'text-ink/60 hover:bg-ink/10'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+interface SlideshowPanelProps {
+  settings: SlideshowSettings;
+  onSettingsChange: (settings: SlideshowSettings) => void;
+  isPlaying: boolean;
+  canPlay: boolean; // There are photos to show
+  onPlayingChange: (playing: boolean) => void;
+}
+
+// Starts / pauses the slideshow and sets its pace
+export const SlideshowPanel: React.FC<SlideshowPanelProps> = ({ settings, onSettingsChange, isPlaying, canPlay, onPlayingChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center">
+      {isOpen && (
+        <div className="absolute right-16 top-0 w-56 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-accent tracking-widest uppercase">Slideshow</span>
+            <button
+              onClick={() => onPlayingChange(!isPlaying)}
+              disabled={!canPlay}
+              className="px-3 py-1 rounded-lg bg-accent/20 text-accent text-[9px] uppercase tracking-widest hover:bg-accent/30 disabled:opacity-30 transition-colors"
+            >
+              {isPlaying ? '❚❚ Pause' : '▶ Play'}
+            </button>
+          </div>
+          {!canPlay && <span className="text-[10px] text-ink/60 leading-snug">Upload photos to start a slideshow.</span>}
+
+          <label className="flex flex-col gap-0.5">
+            <span className="flex justify-between text-[9px] text-ink/70 uppercase tracking-widest">
+              Per Photo<span className="text-ink">{settings.interval}s</span>
+            </span>
+            <input
+              type="range"
+              min={SLIDE_INTERVAL_RANGE[0]}
+              max={SLIDE_INTERVAL_RANGE[1]}
+              step={1}
+              value={settings.interval}
+              onChange={e => onSettingsChange({ ...settings, interval: Number(e.target.value) })}
+              className="w-full accent-accent"
+            />
+          </label>
+
+          <div className="flex gap-1">
+            <Toggle active={settings.shuffle} onClick={() => onSettingsChange({ ...settings, shuffle: !settings.shuffle })}>Shuffle</Toggle>
+            <Toggle active={settings.beatSync} onClick={() => onSettingsChange({ ...settings, beatSync: !settings.beatSync })}>Beat Sync</Toggle>
+          </div>
+          <span className="text-[9px] text-ink/50 leading-snug">Any hand gesture pauses the show.</span>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen || isPlaying
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title="Slideshow"
+      >
+        <PlayIcon />
+      </button>
+    </div>
+  );
+};
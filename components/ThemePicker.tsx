@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { BUILT_IN_THEMES, ThemeDefinition, parseTheme } from '../utils/theme';
+import { downloadBlob } from '../utils/download';
+
+const PaletteIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+  </svg>
+);
+
+// Accent / surface / ink dots so themes can be told apart at a glance
+const Swatch = ({ theme }: { theme: ThemeDefinition }) => (
+  <span className="flex -space-x-1">
+    {[theme.ui.accent, theme.ui.surface, theme.ui.ink].map((color, i) => (
+      <span key={i} className="w-3 h-3 rounded-full ring-1 ring-ink/30" style={{ backgroundColor: color }} />
+    ))}
+  </span>
+);
+
+interface ThemePickerProps {
+  theme: ThemeDefinition;
+  onChange: (theme: ThemeDefinition) => void;
+}
+
+// Runtime theme switcher: built-in packs, plus loading / saving the JSON format
+export const ThemePicker: React.FC<ThemePickerProps> = ({ theme, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isCustom = !BUILT_IN_THEMES.some(t => t.id === theme.id);
+  const choices = isCustom ? [...BUILT_IN_THEMES, theme] : BUILT_IN_THEMES;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseTheme(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([JSON.stringify(theme, null, 2)], { type: 'application/json' }), `${theme.id}.theme.json`);
+  };
+
+  return (
+    <div className="relative flex items-center">
+      {isOpen && (
+        <div className="absolute right-16 top-0 w-56 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-1">
+          <span className="text-[10px] text-accent tracking-widest uppercase mb-1">Theme</span>
+          {choices.map(choice => (
+            <button
+              key={choice.id}
+              onClick={() => { setError(null); onChange(choice); }}
+              className={`flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg text-left text-xs tracking-wider transition-colors ${
+                choice.id === theme.id ? 'bg-accent/20 text-accent' : 'text-ink/80 hover:bg-ink/10'
+              }`}
+            >
+              <span className="truncate">{choice.name}</span>
+              <Swatch theme={choice} />
+            </button>
+          ))}
+
+          {error && <span className="text-[9px] text-red-300 leading-tight mt-1">{error}</span>}
+
+          <div className="flex justify-between mt-2 pt-2 border-t border-ink/10">
+            <label className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest cursor-pointer">
+              Load Theme…
+              <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+            </label>
+            <button onClick={handleExport} className="text-[9px] text-ink/70 hover:text-accent uppercase tracking-widest">
+              Export JSON
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title={`Theme: ${theme.name}`}
+      >
+        <PaletteIcon />
+      </button>
+    </div>
+  );
+};
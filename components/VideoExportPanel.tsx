@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { VIDEO_FORMATS, VIDEO_DURATION_RANGE } from '../services/videoRecorder';
+
+const VideoIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+  </svg>
+);
+
+export interface VideoExportRequest {
+  formatId: string;
+  duration: number; // Seconds
+  cinematic: boolean; // Play the scripted sequence instead of following live gestures
+}
+
+interface VideoExportPanelProps {
+  supported: boolean;
+  isRecording: boolean;
+  elapsed: number; // Seconds recorded so far
+  duration: number; // Length of the clip being recorded
+  notice: string | null; // E.g. why the clip will be silent
+  onRecord: (request: VideoExportRequest) => void;
+  onCancel: () => void;
+}
+
+// Records the scene (with the title, wish and music) to a WebM clip
+export const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ supported, isRecording, elapsed, duration, notice, onRecord, onCancel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [request, setRequest] = useState<VideoExportRequest>({ formatId: VIDEO_FORMATS[0].id, duration: 30, cinematic: true });
+  const progress = duration > 0 ? Math.min(1, elapsed / duration) : 0;
+
+  return (
+    <div className="relative flex items-center">
+      {(isOpen || isRecording) && (
+        <div className="absolute right-16 top-0 w-56 rounded-xl border border-ink/20 bg-surface/80 backdrop-blur-md shadow-xl p-3 flex flex-col gap-2">
+          <span className="text-[10px] text-accent tracking-widest uppercase">Video Export</span>
+
+          {!supported ? (
+            <span className="text-[10px] text-ink/60 leading-snug">This browser can't record video. Try a current Chrome, Edge or Firefox.</span>
+          ) : isRecording ? (
+            <>
+              <div className="h-1.5 rounded-full bg-ink/10 overflow-hidden">
+                <div className="h-full bg-accent transition-[width] duration-200" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-ink/70 tracking-widest">
+                  <span className="inline-block w-2 h-2 mr-1.5 rounded-full bg-red-500 animate-pulse" />
+                  {Math.floor(elapsed)}s / {duration}s
+                </span>
+                <button onClick={onCancel} className="text-[9px] text-ink/70 hover:text-red-300 uppercase tracking-widest">
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex gap-1">
+                {VIDEO_FORMATS.map(format => (
+                  <button
+                    key={format.id}
+                    onClick={() => setRequest({ ...request, formatId: format.id })}
+                    title={`${format.width}×${format.height}`}
+                    className={`flex-1 px-1 py-1 rounded-lg text-[9px] uppercase tracking-widest transition-colors ${
+                      request.formatId === format.id ? 'bg-accent/20 text-accent' : 'text-ink/60 hover:bg-ink/10'
+                    }`}
+                  >
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+
+              <label className="flex flex-col gap-0.5">
+                <span className="flex justify-between text-[9px] text-ink/70 uppercase tracking-widest">
+                  Length<span className="text-ink">{request.duration}s</span>
+                </span>
+                <input
+                  type="range"
+                  min={VIDEO_DURATION_RANGE[0]}
+                  max={VIDEO_DURATION_RANGE[1]}
+                  step={5}
+                  value={request.duration}
+                  onChange={e => setRequest({ ...request, duration: Number(e.target.value) })}
+                  className="w-full accent-accent"
+                />
+              </label>
+
+              <label className="flex items-center gap-2 text-[9px] text-ink/70 uppercase tracking-widest cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={request.cinematic}
+                  onChange={e => setRequest({ ...request, cinematic: e.target.checked })}
+                  className="accent-accent"
+                />
+                Cinematic (tree → photos → tree)
+              </label>
+              {notice && <span className="text-[9px] text-ink/50 leading-snug">{notice}</span>}
+
+              <button
+                onClick={() => onRecord(request)}
+                className="mt-1 py-1.5 rounded-lg bg-accent/20 text-accent text-[10px] uppercase tracking-widest hover:bg-accent/30 transition-colors"
+              >
+                ● Record
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-300 shadow-lg backdrop-blur-md z-50 ${
+          isOpen || isRecording
+            ? 'bg-accent/20 border-accent text-accent'
+            : 'bg-surface/40 border-ink/30 text-ink hover:bg-ink/10 hover:border-accent hover:text-accent'
+        }`}
+        title="Export Video"
+      >
+        <VideoIcon />
+      </button>
+    </div>
+  );
+};
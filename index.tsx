@@ -1,6 +1,18 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
+
+// Self-hosted fonts (weights match what the UI uses)
+import '@fontsource/cinzel/400.css';
+import '@fontsource/cinzel/700.css';
+import '@fontsource/great-vibes/400.css';
+import '@fontsource/lato/300.css';
+import '@fontsource/lato/400.css';
+import '@fontsource/ma-shan-zheng/400.css';
+import '@fontsource/noto-serif-sc/300.css';
+import '@fontsource/noto-serif-sc/400.css';
+import '@fontsource/noto-serif-sc/700.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,3 +25,12 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Offline support: the service worker precaches the build (see sw.js / vite.config.ts)
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(err => console.error("Service worker registration failed", err));
+  });
+}
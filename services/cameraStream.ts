@@ -0,0 +1,89 @@
+// Camera capture for hand tracking: opens the chosen device and hands every new video
+// frame to a callback, waiting for it before asking for the next (MediaPipe is slower
+// than the camera on most machines, so frames are dropped rather than queued).
+
+export interface CameraStreamOptions {
+  deviceId: string | null; // The default camera when null
+  width: number;
+  height: number;
+  frameRate: number;
+  onFrame: () => Promise<void>;
+  onEnded: () => void; // The camera went away mid-session (unplugged, revoked)
+}
+
+export interface CameraStream {
+  stop: () => void;
+}
+
+const requestCamera = (deviceId: string | null, { width, height, frameRate }: CameraStreamOptions) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: false,
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+      width: { ideal: width },
+      height: { ideal: height },
+      frameRate: { ideal: frameRate },
+    },
+  });
+
+/** Starts the camera into `video`. Rejects with the getUserMedia error (see cameraErrorKind). */
+export const startCameraStream = async (video: HTMLVideoElement, options: CameraStreamOptions): Promise<CameraStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    // Insecure (http) pages and some embedded browsers have no camera API at all
+    throw new DOMException('This browser offers no camera access here.', 'NotFoundError');
+  }
+
+  let media: MediaStream;
+  try {
+    media = await requestCamera(options.deviceId, options);
+  } catch (err) {
+    // A saved camera that's since been unplugged: use the default one instead
+    const name = (err as DOMException).name;
+    if (!options.deviceId || (name !== 'NotFoundError' && name !== 'OverconstrainedError')) throw err;
+    media = await requestCamera(null, options);
+  }
+
+  const track = media.getVideoTracks()[0];
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+    media.getTracks().forEach(t => t.stop());
+    if (video.srcObject === media) video.srcObject = null;
+  };
+
+  video.srcObject = media;
+  video.muted = true;
+  try {
+    await video.play();
+  } catch (err) {
+    stop();
+    throw err;
+  }
+
+  track.addEventListener('ended', () => { if (!stopped) options.onEnded(); });
+
+  // One callback per decoded frame where supported, otherwise per display refresh
+  const schedule = () => {
+    if ('requestVideoFrameCallback' in video) video.requestVideoFrameCallback(tick);
+    else requestAnimationFrame(tick);
+  };
+  const tick = async () => {
+    if (stopped) return;
+    try {
+      await options.onFrame();
+    } catch (err) {
+      console.error("Camera frame error:", err);
+    }
+    if (!stopped) schedule();
+  };
+  schedule();
+
+  return { stop };
+};
+
+/** The video inputs; labels stay empty until the camera has been allowed once. */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
@@ -0,0 +1,421 @@
+import { ThemeDefinition } from '../utils/theme';
+import { LayoutParams } from '../utils/formations';
+import { AudioReactiveSettings } from '../utils/audioAnalysis';
+import { PlaylistSettings } from '../utils/playlist';
+import { SlideshowSettings } from '../utils/slideshow';
+import { GestureBinding } from '../utils/bindings';
+import { CalibrationProfile } from '../utils/calibration';
+import { CustomGesture } from '../utils/customGestures';
+import { CameraSettings } from '../utils/cameraSettings';
+import { PhotoDetails } from '../types';
+
+// IndexedDB persistence for the photo gallery, the music playlist, the wish message, the theme,
+// the formation, the audio-reactive and the slideshow settings.
+// Photos and tracks are stored as their original Blobs so they survive reloads;
+// object URLs are created by the caller and never persisted.
+
+const DB_NAME = 'magic-tree';
+const DB_VERSION = 2; // 2: tracks store
+const PHOTO_STORE = 'photos';
+const TRACK_STORE = 'tracks';
+const META_STORE = 'meta';
+
+const ORDER_KEY = 'photoOrder';
+const TRACK_ORDER_KEY = 'trackOrder';
+const PLAYLIST_KEY = 'playlist';
+const MESSAGE_KEY = 'message';
+const THEME_KEY = 'theme';
+const LAYOUT_KEY = 'layout';
+const AUDIO_REACTIVE_KEY = 'audioReactive';
+const SLIDESHOW_KEY = 'slideshow';
+const BINDINGS_KEY = 'gestureBindings';
+const CALIBRATION_KEY = 'calibration';
+const CUSTOM_GESTURES_KEY = 'customGestures';
+const CAMERA_KEY = 'camera';
+
+export interface PhotoRecord {
+  id: string; // Stable UUID
+  name: string; // Original file name
+  addedAt: number; // Upload time, ms since epoch
+  details: PhotoDetails;
+  blob: Blob; // Upright, downscaled photo
+  thumb: Blob;
+  width: number;
+  height: number;
+}
+
+// Older saves are bare Blobs (before thumbnails) or records without the metadata
+export type StoredPhoto = { key: number; blob: Blob } & Partial<Omit<PhotoRecord, 'blob'>>;
+
+export interface StoredTrack {
+  key: number;
+  title: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+        db.createObjectStore(PHOTO_STORE, { autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(TRACK_STORE)) {
+        db.createObjectStore(TRACK_STORE, { autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. blocked upgrade)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/** Reads every record of `storeName`, saved order (under `orderKey`) first. */
+const loadOrdered = async <T>(storeName: string, orderKey: string): Promise<{ key: number; value: T }[]> => {
+  const db = await openDb();
+  const tx = db.transaction([storeName, META_STORE], 'readonly');
+  const store = tx.objectStore(storeName);
+
+  const [keys, values, order] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+    requestToPromise(tx.objectStore(META_STORE).get(orderKey)),
+  ]);
+
+  const byKey = new Map<number, T>();
+  keys.forEach((key, i) => byKey.set(key as number, values[i] as T));
+
+  // Saved order first, then anything the order list doesn't know about yet
+  const ordered: { key: number; value: T }[] = [];
+  for (const key of (order as number[] | undefined) ?? []) {
+    const value = byKey.get(key);
+    if (value) {
+      ordered.push({ key, value });
+      byKey.delete(key);
+    }
+  }
+  byKey.forEach((value, key) => ordered.push({ key, value }));
+  return ordered;
+};
+
+// --- Photos ---
+
+/** Loads all stored photos in their saved gallery order. */
+export const loadPhotos = async (): Promise<StoredPhoto[]> =>
+  (await loadOrdered<Blob | Partial<PhotoRecord> & { blob: Blob }>(PHOTO_STORE, ORDER_KEY)).map(({ key, value }) =>
+    value instanceof Blob ? { key, blob: value } : { key, ...value });
+
+/** Appends photos to the end of the gallery and returns their new keys. */
+export const addPhotos = async (photos: PhotoRecord[]): Promise<number[]> => {
+  const db = await openDb();
+  const tx = db.transaction([PHOTO_STORE, META_STORE], 'readwrite');
+  const photoStore = tx.objectStore(PHOTO_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+
+  const order = ((await requestToPromise(metaStore.get(ORDER_KEY))) as number[] | undefined) ?? [];
+  const keys: number[] = [];
+  for (const photo of photos) {
+    keys.push((await requestToPromise(photoStore.add(photo))) as number);
+  }
+  metaStore.put([...order, ...keys], ORDER_KEY);
+
+  await transactionDone(tx);
+  return keys;
+};
+
+/** Replaces a stored photo in place, e.g. to upgrade an old record. */
+export const updatePhoto = async (key: number, photo: PhotoRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  tx.objectStore(PHOTO_STORE).put(photo, key);
+  await transactionDone(tx);
+};
+
+/** Saves a photo's edited caption, date and note; the image data is left as it is. */
+export const savePhotoDetails = async (key: number, details: PhotoDetails): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  const record = (await requestToPromise(store.get(key))) as PhotoRecord | undefined;
+  if (record) store.put({ ...record, details }, key);
+  await transactionDone(tx);
+};
+
+export const removePhotos = async (keys: number[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PHOTO_STORE, META_STORE], 'readwrite');
+  const photoStore = tx.objectStore(PHOTO_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+
+  keys.forEach(key => photoStore.delete(key));
+  const order = ((await requestToPromise(metaStore.get(ORDER_KEY))) as number[] | undefined) ?? [];
+  metaStore.put(order.filter(k => !keys.includes(k)), ORDER_KEY);
+
+  await transactionDone(tx);
+};
+
+export const savePhotoOrder = async (keys: number[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(keys, ORDER_KEY);
+  await transactionDone(tx);
+};
+
+// --- Playlist ---
+
+/** Loads the uploaded tracks in playlist order. */
+export const loadTracks = async (): Promise<StoredTrack[]> =>
+  (await loadOrdered<{ title: string; blob: Blob }>(TRACK_STORE, TRACK_ORDER_KEY)).map(({ key, value }) => ({ key, ...value }));
+
+/** Appends tracks to the end of the playlist and returns their new keys. */
+export const addTracks = async (tracks: { title: string; blob: Blob }[]): Promise<number[]> => {
+  const db = await openDb();
+  const tx = db.transaction([TRACK_STORE, META_STORE], 'readwrite');
+  const trackStore = tx.objectStore(TRACK_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+
+  const order = ((await requestToPromise(metaStore.get(TRACK_ORDER_KEY))) as number[] | undefined) ?? [];
+  const keys: number[] = [];
+  for (const track of tracks) {
+    keys.push((await requestToPromise(trackStore.add(track))) as number);
+  }
+  metaStore.put([...order, ...keys], TRACK_ORDER_KEY);
+
+  await transactionDone(tx);
+  return keys;
+};
+
+export const removeTrack = async (key: number): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([TRACK_STORE, META_STORE], 'readwrite');
+  const metaStore = tx.objectStore(META_STORE);
+
+  tx.objectStore(TRACK_STORE).delete(key);
+  const order = ((await requestToPromise(metaStore.get(TRACK_ORDER_KEY))) as number[] | undefined) ?? [];
+  metaStore.put(order.filter(k => k !== key), TRACK_ORDER_KEY);
+
+  await transactionDone(tx);
+};
+
+export const saveTrackOrder = async (keys: number[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(keys, TRACK_ORDER_KEY);
+  await transactionDone(tx);
+};
+
+export const loadPlaylistSettings = async (): Promise<Partial<PlaylistSettings> | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const settings = await requestToPromise(tx.objectStore(META_STORE).get(PLAYLIST_KEY));
+  return settings && typeof settings === 'object' ? settings as Partial<PlaylistSettings> : null;
+};
+
+export const savePlaylistSettings = async (settings: PlaylistSettings): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(settings, PLAYLIST_KEY);
+  await transactionDone(tx);
+};
+
+// --- Whole Library ---
+
+/** Swaps every stored photo and track for `photos` and `tracks` (e.g. a kept greeting card), returning their keys. */
+export const replaceLibrary = async (
+  photos: PhotoRecord[], tracks: { title: string; blob: Blob }[]
+): Promise<{ photoKeys: number[]; trackKeys: number[] }> => {
+  const db = await openDb();
+  const tx = db.transaction([PHOTO_STORE, TRACK_STORE, META_STORE], 'readwrite');
+  const photoStore = tx.objectStore(PHOTO_STORE);
+  const trackStore = tx.objectStore(TRACK_STORE);
+  photoStore.clear();
+  trackStore.clear();
+
+  const photoKeys: number[] = [];
+  for (const photo of photos) {
+    photoKeys.push((await requestToPromise(photoStore.add(photo))) as number);
+  }
+  const trackKeys: number[] = [];
+  for (const track of tracks) {
+    trackKeys.push((await requestToPromise(trackStore.add(track))) as number);
+  }
+  tx.objectStore(META_STORE).put(photoKeys, ORDER_KEY);
+  tx.objectStore(META_STORE).put(trackKeys, TRACK_ORDER_KEY);
+
+  await transactionDone(tx);
+  return { photoKeys, trackKeys };
+};
+
+// --- Wish Message ---
+
+export const loadMessage = async (): Promise<string> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const message = await requestToPromise(tx.objectStore(META_STORE).get(MESSAGE_KEY));
+  return typeof message === 'string' ? message : '';
+};
+
+export const saveMessage = async (message: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(message, MESSAGE_KEY);
+  await transactionDone(tx);
+};
+
+// --- Theme ---
+
+// The whole definition is stored so imported custom themes survive reloads too
+export const loadTheme = async (): Promise<ThemeDefinition | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const theme = await requestToPromise(tx.objectStore(META_STORE).get(THEME_KEY));
+  return theme && typeof theme === 'object' ? theme as ThemeDefinition : null;
+};
+
+export const saveTheme = async (theme: ThemeDefinition): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(theme, THEME_KEY);
+  await transactionDone(tx);
+};
+
+// --- Formation ---
+
+export const loadLayout = async (): Promise<Partial<LayoutParams> | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const layout = await requestToPromise(tx.objectStore(META_STORE).get(LAYOUT_KEY));
+  return layout && typeof layout === 'object' ? layout as Partial<LayoutParams> : null;
+};
+
+export const saveLayout = async (layout: LayoutParams): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(layout, LAYOUT_KEY);
+  await transactionDone(tx);
+};
+
+// --- Audio Reactivity ---
+
+export const loadAudioReactive = async (): Promise<Partial<AudioReactiveSettings> | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const settings = await requestToPromise(tx.objectStore(META_STORE).get(AUDIO_REACTIVE_KEY));
+  return settings && typeof settings === 'object' ? settings as Partial<AudioReactiveSettings> : null;
+};
+
+export const saveAudioReactive = async (settings: AudioReactiveSettings): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(settings, AUDIO_REACTIVE_KEY);
+  await transactionDone(tx);
+};
+
+// --- Slideshow ---
+
+export const loadSlideshowSettings = async (): Promise<Partial<SlideshowSettings> | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const settings = await requestToPromise(tx.objectStore(META_STORE).get(SLIDESHOW_KEY));
+  return settings && typeof settings === 'object' ? settings as Partial<SlideshowSettings> : null;
+};
+
+export const saveSlideshowSettings = async (settings: SlideshowSettings): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(settings, SLIDESHOW_KEY);
+  await transactionDone(tx);
+};
+
+// --- Gesture Bindings ---
+
+// Returned as stored; normalizeBindings (utils/bindings.ts) checks it against the known gestures
+export const loadBindings = async (): Promise<unknown> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return (await requestToPromise(tx.objectStore(META_STORE).get(BINDINGS_KEY))) ?? null;
+};
+
+export const saveBindings = async (bindings: GestureBinding[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(bindings, BINDINGS_KEY);
+  await transactionDone(tx);
+};
+
+// --- Calibration Profiles ---
+
+// Profiles are returned as stored; normalizeProfiles (utils/calibration.ts) checks them
+export const loadCalibration = async (): Promise<{ profiles: unknown; activeId: string } | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const saved = await requestToPromise(tx.objectStore(META_STORE).get(CALIBRATION_KEY));
+  return saved && typeof saved === 'object' && typeof saved.activeId === 'string' ? saved : null;
+};
+
+export const saveCalibration = async (profiles: CalibrationProfile[], activeId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ profiles, activeId }, CALIBRATION_KEY);
+  await transactionDone(tx);
+};
+
+// --- Custom Gestures ---
+
+// Returned as stored; normalizeCustomGestures (utils/customGestures.ts) checks them
+export const loadCustomGestures = async (): Promise<unknown> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return (await requestToPromise(tx.objectStore(META_STORE).get(CUSTOM_GESTURES_KEY))) ?? null;
+};
+
+export const saveCustomGestures = async (gestures: CustomGesture[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(gestures, CUSTOM_GESTURES_KEY);
+  await transactionDone(tx);
+};
+
+// --- Camera ---
+
+// Returned as stored; normalizeCameraSettings (utils/cameraSettings.ts) checks it
+export const loadCameraSettings = async (): Promise<unknown> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return (await requestToPromise(tx.objectStore(META_STORE).get(CAMERA_KEY))) ?? null;
+};
+
+export const saveCameraSettings = async (settings: CameraSettings): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(settings, CAMERA_KEY);
+  await transactionDone(tx);
+};
@@ -0,0 +1,122 @@
+// Two-deck music player: each new track starts on the idle deck and the decks'
+// volumes are ramped against each other, so tracks crossfade instead of cutting.
+
+export interface MusicPlayerEvents {
+  onTrackEnding: () => void; // Crossfade window reached (or the track ended when crossfade is 0)
+  onPlay: () => void;
+  onError: (url: string) => void;
+}
+
+export interface MusicPlayer {
+  /** Both decks, e.g. for attaching an analyser. */
+  elements: HTMLAudioElement[];
+  /** Switches to `url`, fading over `crossfade` seconds if something is already playing. */
+  play: (url: string, crossfade: number) => Promise<void>;
+  /** Restarts the current deck after a blocked autoplay or a pause. */
+  resume: () => Promise<void>;
+  stop: () => void;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  setLoop: (loop: boolean) => void;
+  setCrossfade: (seconds: number) => void;
+  dispose: () => void;
+}
+
+export const createMusicPlayer = (events: MusicPlayerEvents): MusicPlayer => {
+  const decks = [new Audio(), new Audio()];
+  let active = 0;
+  let volume = 1;
+  let loop = false;
+  let crossfade = 0;
+  let endingFired = false;
+  let fadeFrame = 0;
+
+  const cancelFade = () => {
+    cancelAnimationFrame(fadeFrame);
+    fadeFrame = 0;
+  };
+
+  const fireEnding = () => {
+    if (endingFired || loop) return;
+    endingFired = true;
+    events.onTrackEnding();
+  };
+
+  decks.forEach((deck, i) => {
+    deck.preload = 'auto';
+    deck.addEventListener('timeupdate', () => {
+      if (i !== active || crossfade <= 0 || !Number.isFinite(deck.duration)) return;
+      if (deck.duration - deck.currentTime <= crossfade) fireEnding();
+    });
+    deck.addEventListener('ended', () => { if (i === active) fireEnding(); });
+    deck.addEventListener('play', () => { if (i === active) events.onPlay(); });
+    deck.addEventListener('error', () => {
+      if (i === active && deck.getAttribute('src')) events.onError(deck.getAttribute('src')!);
+    });
+  });
+
+  const play = (url: string, fadeSeconds: number) => {
+    cancelFade();
+    const outgoing = decks[active];
+    const isPlaying = !outgoing.paused && !!outgoing.getAttribute('src');
+    active = 1 - active;
+    const incoming = decks[active];
+
+    endingFired = false;
+    incoming.src = url;
+    incoming.loop = loop;
+    incoming.currentTime = 0;
+
+    if (!isPlaying || fadeSeconds <= 0) {
+      outgoing.pause();
+      incoming.volume = volume;
+      return incoming.play();
+    }
+
+    incoming.volume = 0;
+    const startedAt = performance.now();
+    const startVolume = outgoing.volume;
+    const step = () => {
+      const t = Math.min(1, (performance.now() - startedAt) / (fadeSeconds * 1000));
+      incoming.volume = volume * t;
+      outgoing.volume = Math.min(startVolume, volume) * (1 - t);
+      if (t < 1) {
+        fadeFrame = requestAnimationFrame(step);
+      } else {
+        fadeFrame = 0;
+        outgoing.pause();
+      }
+    };
+    fadeFrame = requestAnimationFrame(step);
+    return incoming.play();
+  };
+
+  const resume = () => decks[active].play();
+
+  const stop = () => {
+    cancelFade();
+    decks.forEach(deck => deck.pause());
+  };
+
+  const setVolume = (next: number) => {
+    volume = next;
+    // A running fade picks the new volume up on its next step
+    if (!fadeFrame) decks[active].volume = volume;
+  };
+
+  const setMuted = (muted: boolean) => decks.forEach(deck => { deck.muted = muted; });
+
+  const setLoop = (next: boolean) => {
+    loop = next;
+    decks[active].loop = loop;
+  };
+
+  const setCrossfade = (seconds: number) => { crossfade = seconds; };
+
+  const dispose = () => {
+    stop();
+    decks.forEach(deck => deck.removeAttribute('src'));
+  };
+
+  return { elements: decks, play, resume, stop, setVolume, setMuted, setLoop, setCrossfade, dispose };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { CARD_FORMAT, CARD_VERSION, SceneCard, createSceneCard, readSceneCard } from './sceneBundle';
+import { DEFAULT_THEME } from '../utils/theme';
+import { DEFAULT_LAYOUT, LAYOUT_RANGES } from '../utils/formations';
+import { DEFAULT_AUDIO_REACTIVE } from '../utils/audioAnalysis';
+import { DEFAULT_PLAYLIST_SETTINGS } from '../utils/playlist';
+import { DEFAULT_SLIDESHOW_SETTINGS, SLIDE_INTERVAL_RANGE } from '../utils/slideshow';
+
+const card: SceneCard = {
+  message: 'Merry Christmas',
+  theme: DEFAULT_THEME,
+  layout: { ...DEFAULT_LAYOUT, formation: 'heart', ornaments: 120 },
+  audioReactive: { enabled: false, sensitivity: 1.5 },
+  playlist: { ...DEFAULT_PLAYLIST_SETTINGS, repeat: 'one' },
+  slideshow: { ...DEFAULT_SLIDESHOW_SETTINGS, interval: 12 },
+  photos: [{
+    id: 'photo-1',
+    name: 'tree.jpg',
+    addedAt: 1700000000000,
+    details: { caption: 'Us', takenAt: '2024-12-24', note: '', captionOnFrame: true },
+    blob: new Blob([new Uint8Array([1, 2, 3])], { type: 'image/jpeg' }),
+    thumb: new Blob([new Uint8Array([4, 5])], { type: 'image/jpeg' }),
+    width: 800,
+    height: 600,
+  }],
+  tracks: [{ title: 'Jingle', blob: new Blob([new Uint8Array([6, 7, 8, 9])], { type: 'audio/ogg' }) }],
+};
+
+// Rewrites the manifest of a valid card, keeping its media files
+const tamper = async (edit: (manifest: Record<string, any>) => void): Promise<Blob> => {
+  const files = unzipSync(new Uint8Array(await (await createSceneCard(card)).arrayBuffer()));
+  const manifest = JSON.parse(strFromU8(files['manifest.json']));
+  edit(manifest);
+  files['manifest.json'] = strToU8(JSON.stringify(manifest));
+  return new Blob([zipSync(files)]);
+};
+
+describe('readSceneCard', () => {
+  it('reads back what createSceneCard packed', async () => {
+    const read = await readSceneCard(await createSceneCard(card));
+    const { photos, tracks, ...settings } = read;
+    const { photos: _photos, tracks: _tracks, ...expected } = card;
+    expect(settings).toEqual(expected);
+    expect(photos.map(({ blob, thumb, ...photo }) => photo)).toEqual(card.photos.map(({ blob, thumb, ...photo }) => photo));
+    expect(new Uint8Array(await photos[0].blob.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(tracks[0].title).toBe('Jingle');
+    expect(tracks[0].blob.type).toBe('audio/ogg');
+  });
+
+  it('clamps settings outside what the app allows and fills in missing ones', async () => {
+    const read = await readSceneCard(await tamper(manifest => {
+      manifest.layout = { formation: 'cube', ornaments: 1e6, height: -3 };
+      manifest.audioReactive = { sensitivity: 50 };
+      manifest.playlist = { volume: 4, repeat: 'forever', crossfade: -2, shuffle: 'yes' };
+      manifest.slideshow = { interval: 0.5 };
+    }));
+    expect(read.layout).toEqual({
+      ...DEFAULT_LAYOUT,
+      ornaments: LAYOUT_RANGES.ornaments[1],
+      height: LAYOUT_RANGES.height[0],
+    });
+    expect(read.audioReactive).toEqual({ ...DEFAULT_AUDIO_REACTIVE, sensitivity: 2 });
+    expect(read.playlist).toEqual({ ...DEFAULT_PLAYLIST_SETTINGS, volume: 1, crossfade: 0 });
+    expect(read.slideshow).toEqual({ ...DEFAULT_SLIDESHOW_SETTINGS, interval: SLIDE_INTERVAL_RANGE[0] });
+  });
+
+  it('rejects files that are not cards', async () => {
+    await expect(readSceneCard(new Blob(['hello']))).rejects.toThrow('not a greeting card file');
+    await expect(readSceneCard(new Blob([zipSync({ 'other.txt': strToU8('x') })]))).rejects.toThrow('no manifest.json');
+    await expect(readSceneCard(await tamper(m => { m.format = 'something-else'; }))).rejects.toThrow(`"format": "${CARD_FORMAT}"`);
+    await expect(readSceneCard(await tamper(m => { m.version = CARD_VERSION + 1; }))).rejects.toThrow('newer version');
+  });
+
+  it('explains what is wrong with a damaged card', async () => {
+    await expect(readSceneCard(await tamper(m => { m.theme.ui.accent = 'gold'; }))).rejects.toThrow('"ui.accent"');
+    await expect(readSceneCard(await tamper(m => { delete m.slideshow; }))).rejects.toThrow('"slideshow" settings are missing');
+    await expect(readSceneCard(await tamper(m => { m.photos[0].width = 0; }))).rejects.toThrow('Photo 1 needs');
+    await expect(readSceneCard(await tamper(m => { m.photos[0].image = 'photos/gone.jpg'; }))).rejects.toThrow('(photos/gone.jpg)');
+    await expect(readSceneCard(await tamper(m => { m.photos.push(m.photos[0]); }))).rejects.toThrow('same photo id twice');
+    await expect(readSceneCard(await tamper(m => { m.tracks = [42]; }))).rejects.toThrow('Track 1');
+  });
+});
@@ -0,0 +1,190 @@
+// Greeting card bundles: one zip with everything needed to rebuild a scene elsewhere.
+//
+//   manifest.json          what's below plus the wish, theme and settings (see CardManifest)
+//   photos/<id>.jpg        the prepared photo
+//   photos/<id>.thumb.jpg  its thumbnail
+//   music/<n>.<ext>        the uploaded tracks, in playlist order
+//
+// Media is stored uncompressed (JPEG and audio don't shrink); the manifest is deflated.
+
+// fflate ships with three's examples, so no extra dependency is needed
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'three/examples/jsm/libs/fflate.module.js';
+import { ThemeDefinition, validateTheme } from '../utils/theme';
+import { LayoutParams, normalizeLayout } from '../utils/formations';
+import { AudioReactiveSettings, normalizeAudioReactive } from '../utils/audioAnalysis';
+import { PlaylistSettings, normalizePlaylistSettings } from '../utils/playlist';
+import { SlideshowSettings, normalizeSlideshowSettings } from '../utils/slideshow';
+import { PhotoRecord } from './galleryStore';
+import { PhotoDetails } from '../types';
+
+export const CARD_FORMAT = 'magic-tree-card';
+export const CARD_VERSION = 1;
+export const CARD_EXTENSION = '.magictree.zip';
+
+const MANIFEST = 'manifest.json';
+
+export interface SceneCard {
+  message: string;
+  theme: ThemeDefinition;
+  layout: LayoutParams;
+  audioReactive: AudioReactiveSettings;
+  playlist: PlaylistSettings;
+  slideshow: SlideshowSettings;
+  photos: PhotoRecord[]; // Gallery order
+  tracks: { title: string; blob: Blob }[]; // Playlist order; the theme's track plays when empty
+}
+
+// Version 1 of manifest.json
+interface CardManifest {
+  format: typeof CARD_FORMAT;
+  version: number;
+  createdAt: string;
+  message: string;
+  theme: ThemeDefinition;
+  layout: LayoutParams;
+  audioReactive: AudioReactiveSettings;
+  playlist: PlaylistSettings;
+  slideshow: SlideshowSettings;
+  photos: { id: string; name: string; addedAt: number; width: number; height: number; details: PhotoDetails; image: string; thumb: string }[];
+  tracks: { title: string; type: string; file: string }[];
+}
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// "audio/mpeg" -> "mp3", "audio/ogg" -> "ogg"
+const audioExtension = (type: string) => (type === 'audio/mpeg' ? 'mp3' : type.split('/')[1]?.split(';')[0] || 'audio');
+
+/** Packs `card` into a single zip file. */
+export const createSceneCard = async (card: SceneCard): Promise<Blob> => {
+  const files: Zippable = {};
+  const stored = async (path: string, blob: Blob) => {
+    files[path] = [await bytesOf(blob), { level: 0 }];
+    return path;
+  };
+
+  const photos: CardManifest['photos'] = [];
+  for (const { blob, thumb, ...photo } of card.photos) {
+    photos.push({
+      ...photo,
+      image: await stored(`photos/${photo.id}.jpg`, blob),
+      thumb: await stored(`photos/${photo.id}.thumb.jpg`, thumb),
+    });
+  }
+  const tracks: CardManifest['tracks'] = [];
+  for (const [i, track] of card.tracks.entries()) {
+    const type = track.blob.type || 'audio/mpeg';
+    tracks.push({ title: track.title, type, file: await stored(`music/${i + 1}.${audioExtension(type)}`, track.blob) });
+  }
+
+  const manifest: CardManifest = {
+    format: CARD_FORMAT,
+    version: CARD_VERSION,
+    createdAt: new Date().toISOString(),
+    message: card.message,
+    theme: card.theme,
+    layout: card.layout,
+    audioReactive: card.audioReactive,
+    playlist: card.playlist,
+    slideshow: card.slideshow,
+    photos,
+    tracks,
+  };
+  files[MANIFEST] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+// --- Reading ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** Unpacks and validates a card, throwing an Error with a readable message. Settings are clamped to what the app allows. */
+export const readSceneCard = async (file: Blob): Promise<SceneCard> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(await bytesOf(file));
+  } catch {
+    throw new Error('This is not a greeting card file (it should be a .zip exported from this app).');
+  }
+  if (!files[MANIFEST]) throw new Error(`The card has no ${MANIFEST}, so it wasn't made by this app.`);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(strFromU8(files[MANIFEST]));
+  } catch {
+    throw new Error(`The card's ${MANIFEST} is damaged (not valid JSON).`);
+  }
+  if (!isObject(data) || data.format !== CARD_FORMAT) {
+    throw new Error(`This zip is not a greeting card (${MANIFEST} has no "format": "${CARD_FORMAT}").`);
+  }
+  if (!isNumber(data.version) || data.version > CARD_VERSION) {
+    throw new Error(`This card was made by a newer version of the app (card version ${data.version}, this app reads ${CARD_VERSION}).`);
+  }
+
+  let theme: ThemeDefinition;
+  try {
+    theme = validateTheme(data.theme);
+  } catch (err) {
+    throw new Error(`The card's theme is invalid: ${(err as Error).message}`);
+  }
+  if (typeof data.message !== 'string') throw new Error('The card\'s "message" must be text.');
+  (['layout', 'audioReactive', 'playlist', 'slideshow'] as const).forEach(key => {
+    if (!isObject(data[key])) throw new Error(`The card's "${key}" settings are missing.`);
+  });
+  if (!Array.isArray(data.photos) || !Array.isArray(data.tracks)) {
+    throw new Error('The card needs "photos" and "tracks" lists (they may be empty).');
+  }
+
+  const fileBlob = (path: unknown, type: string, what: string) => {
+    const bytes = typeof path === 'string' ? files[path] : undefined;
+    if (!bytes) throw new Error(`${what} is missing from the card${typeof path === 'string' ? ` (${path})` : ''}.`);
+    return new Blob([bytes], { type });
+  };
+
+  const photos = data.photos.map((photo: unknown, i: number): PhotoRecord => {
+    const what = `Photo ${i + 1}`;
+    if (!isObject(photo) || typeof photo.id !== 'string' || !isNumber(photo.width) || !isNumber(photo.height) || photo.width <= 0 || photo.height <= 0) {
+      throw new Error(`${what} needs an "id" and a positive "width" and "height".`);
+    }
+    const details = isObject(photo.details) ? photo.details : {};
+    return {
+      id: photo.id,
+      name: typeof photo.name === 'string' ? photo.name : what,
+      addedAt: isNumber(photo.addedAt) ? photo.addedAt : Date.now(),
+      details: {
+        caption: typeof details.caption === 'string' ? details.caption : '',
+        takenAt: typeof details.takenAt === 'string' ? details.takenAt : '',
+        note: typeof details.note === 'string' ? details.note : '',
+        captionOnFrame: details.captionOnFrame === true,
+      },
+      blob: fileBlob(photo.image, 'image/jpeg', what),
+      thumb: fileBlob(photo.thumb, 'image/jpeg', `${what}'s thumbnail`),
+      width: photo.width,
+      height: photo.height,
+    };
+  });
+  if (new Set(photos.map(p => p.id)).size !== photos.length) {
+    throw new Error('The card lists the same photo id twice.');
+  }
+
+  const tracks = data.tracks.map((track: unknown, i: number) => {
+    if (!isObject(track)) throw new Error(`Track ${i + 1} is not described properly.`);
+    const type = typeof track.type === 'string' && track.type.startsWith('audio/') ? track.type : 'audio/mpeg';
+    return {
+      title: typeof track.title === 'string' ? track.title : `Track ${i + 1}`,
+      blob: fileBlob(track.file, type, `Track ${i + 1}`),
+    };
+  });
+
+  return {
+    message: data.message,
+    theme,
+    layout: normalizeLayout(data.layout),
+    audioReactive: normalizeAudioReactive(data.audioReactive),
+    playlist: normalizePlaylistSettings(data.playlist),
+    slideshow: normalizeSlideshowSettings(data.slideshow),
+    photos,
+    tracks,
+  };
+};
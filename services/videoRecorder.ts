@@ -0,0 +1,104 @@
+// Records the 3D canvas to WebM: every frame is copied (cover-fitted) onto a canvas of the
+// chosen resolution, the 2D overlay is painted on top, and the music is mixed in.
+// The scene canvas must keep its drawing buffer (preserveDrawingBuffer) to be copied.
+
+export interface VideoFormat {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const VIDEO_FORMATS: VideoFormat[] = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: 'vertical', label: 'Vertical', width: 1080, height: 1920 }, // Phones & stories
+];
+
+export const VIDEO_DURATION_RANGE: [number, number] = [10, 120];
+
+const FPS = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export interface RecordingOptions {
+  width: number;
+  height: number;
+  duration: number; // Seconds
+  audio: MediaStream | null; // Silent clip when null
+  drawOverlay: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+  onProgress: (elapsed: number) => void; // Seconds recorded so far, once per frame
+}
+
+export interface VideoRecording {
+  result: Promise<Blob | null>; // Null when cancelled
+  cancel: () => void;
+}
+
+export const isVideoRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype &&
+  MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+/** Starts recording `source` right away; the clip ends by itself after `duration` seconds. */
+export const recordCanvas = (source: HTMLCanvasElement, options: RecordingOptions): VideoRecording => {
+  const { width, height, duration, audio, drawOverlay, onProgress } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { result: Promise.reject(new Error('Canvas 2D is not available')), cancel: () => {} };
+
+  const stream = canvas.captureStream(FPS);
+  audio?.getAudioTracks().forEach(track => stream.addTrack(track));
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+
+  let cancelled = false;
+  let frame = 0;
+
+  // Crop the live view to the output's aspect ratio
+  const drawFrame = () => {
+    const scale = Math.max(width / source.width, height / source.height);
+    const sw = width / scale;
+    const sh = height / scale;
+    ctx.drawImage(source, (source.width - sw) / 2, (source.height - sh) / 2, sw, sh, 0, 0, width, height);
+    drawOverlay(ctx, width, height);
+  };
+
+  const result = new Promise<Blob | null>((resolve, reject) => {
+    recorder.onstop = () => {
+      cancelAnimationFrame(frame);
+      stream.getVideoTracks().forEach(track => track.stop());
+      resolve(cancelled ? null : new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = e => {
+      cancelAnimationFrame(frame);
+      reject((e as ErrorEvent).error ?? new Error('Recording failed'));
+    };
+  });
+
+  const startedAt = performance.now();
+  const tick = () => {
+    const elapsed = (performance.now() - startedAt) / 1000;
+    if (elapsed >= duration) {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return;
+    }
+    drawFrame();
+    onProgress(elapsed);
+    frame = requestAnimationFrame(tick);
+  };
+  drawFrame();
+  recorder.start(1000);
+  frame = requestAnimationFrame(tick);
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
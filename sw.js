@@ -0,0 +1,76 @@
+// Service worker for offline use. The build (see vite.config.ts) swaps the
+// placeholder below for { version, files, fonts } listing every bundled asset.
+const PRECACHE = self.__PRECACHE_MANIFEST;
+const CACHE_NAME = `magic-tree-${PRECACHE.version}`;
+// Assets not precached (such as the hand model the default settings don't use) are kept
+// here once fetched; per version, as their names aren't content-hashed
+const RUNTIME_CACHE = `magic-tree-runtime-${PRECACHE.version}`;
+// Non-Latin font subsets (a CJK wish): too big to hold up install, so fetched once the
+// worker is active. Their names are content-hashed, so the cache outlives versions.
+const FONT_CACHE = 'magic-tree-fonts';
+
+const cacheFonts = async () => {
+  const cache = await caches.open(FONT_CACHE);
+  const wanted = new Set(PRECACHE.fonts.map((file) => new URL(file, self.registration.scope).href));
+  const cached = await cache.keys();
+  await Promise.all(cached.filter((request) => !wanted.has(request.url)).map((request) => cache.delete(request)));
+  const have = new Set(cached.map((request) => request.url));
+  // One at a time so the app's own requests aren't starved; a missing font doesn't stop the rest
+  for (const url of wanted) {
+    if (have.has(url)) continue;
+    try {
+      await cache.add(url);
+    } catch (err) {
+      console.error('Could not cache font for offline use:', url, err);
+    }
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE.files))
+      .then(() => self.skipWaiting())
+      .catch((err) => {
+        console.error('Offline cache incomplete, an asset is missing from the build:', err);
+        throw err;
+      })
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== CACHE_NAME && key !== RUNTIME_CACHE && key !== FONT_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+      .then(cacheFonts)
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages: network first so updates show up, cached app shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('index.html'))
+    );
+    return;
+  }
+
+  // Everything else: cache first
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(RUNTIME_CACHE).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
@@ -3,11 +3,15 @@ import { Vector3, Color } from 'three';
 export enum AppState {
   TREE = 'TREE',
   SCATTER = 'SCATTER',
-  INSPECT = 'INSPECT'
+  INSPECT = 'INSPECT',
+  TEXT = 'TEXT' // Decorations spell out the wish message
 }
 
 export type ItemType = 'sphere' | 'box' | 'photo' | 'star';
 
+// How a decoration's material reacts to light (set by the active theme)
+export type MaterialFinish = 'metallic' | 'matte' | 'plain';
+
 export interface SceneItem {
   id: string;
   type: ItemType;
@@ -15,8 +19,24 @@ export interface SceneItem {
   scatterPos: Vector3;
   rotation: Vector3;
   color?: Color;
+  finish?: MaterialFinish;
   textureUrl?: string; // For photos
+  closeUpUrl?: string; // Sharper photo texture, only loaded while it's focused
+  aspect?: number; // Photo width / height
+  frameLabel?: string; // Caption printed under the photo
   scale: number;
+  slot?: LayoutSlot; // Where the item sits in a formation (treePos is derived from it)
+  textPos?: Vector3; // Spot in the spelled-out wish, for decorations that take part
+}
+
+// Decoration groups a formation lays out separately
+export type LayoutKind = 'ornament' | 'foil' | 'ribbonOuter' | 'ribbonInner' | 'light' | 'photo';
+
+export interface LayoutSlot {
+  kind: LayoutKind;
+  index: number;
+  count: number; // Items of this kind
+  seed: number; // 0-1, fixed per item so re-layouts don't reshuffle
 }
 
 export interface HandGestureData {
@@ -24,5 +44,83 @@ export interface HandGestureData {
   isOpen: boolean;
   isPinching: boolean;
   isPointing: boolean; // New gesture
-  handPosition: { x: number; y: number }; // Normalized 0-1
-}
\ No newline at end of file
+  isVictory: boolean; // Index and middle finger up ("V")
+  isThumbsUp: boolean; // Fingers curled, thumb pointing up
+  handPosition: { x: number; y: number }; // Normalized 0-1, smoothed
+  confidence: number; // 0-1, how consistently recent frames agree with the reported gesture
+  stableSince: number | null; // Timestamp (ms) the reported gesture became stable, null if none
+  swipe: SwipeDirection | null; // Set only on the frame a horizontal swipe is recognised
+  hands: HandState[]; // Every visible hand (up to two)
+  twoHand: TwoHandData | null; // Present while both hands are visible
+  customGesture: string | null; // Id of a user-trained pose being held (see utils/customGestures.ts)
+  isStill: boolean; // The hand has stayed put for the hold time (not mid-swipe)
+}
+
+export type SwipeDirection = 'left' | 'right';
+
+export type InputSourceId = 'camera' | 'mouse' | 'touch' | 'replay';
+
+// Every producer of HandGestureData (camera, mouse & keyboard, touch) takes these props
+export interface GestureSourceProps {
+  onGesture: (data: HandGestureData) => void;
+  onUnavailable?: (reason: string) => void; // The source cannot run (e.g. camera denied)
+}
+
+export type Handedness = 'Left' | 'Right';
+
+export interface HandState {
+  handedness: Handedness; // As reported by MediaPipe
+  isFist: boolean;
+  isOpen: boolean;
+  isPinching: boolean;
+  isPointing: boolean;
+  isVictory: boolean;
+  isThumbsUp: boolean;
+  handPosition: { x: number; y: number };
+  confidence: number;
+  stableSince: number | null;
+  customGesture: string | null;
+}
+
+export interface TwoHandData {
+  spread: number; // Distance between hand centres, normalized screen units
+  angle: number; // Radians of the line from the left-most to the right-most hand (screen y down)
+}
+
+// Focus handoff between two photos while browsing in INSPECT
+export interface PhotoSwipe {
+  fromId: string;
+  toId: string;
+  direction: 1 | -1; // 1 = next (photos slide left), -1 = previous (photos slide right)
+  startedAt: number;
+}
+
+// Editable words that go with a photo, shown beside it while it's inspected
+export interface PhotoDetails {
+  caption: string; // Who / what is in the picture
+  takenAt: string; // YYYY-MM-DD (from EXIF when the photo had it), '' when unknown
+  note: string; // Longer message
+  captionOnFrame: boolean; // Also print the caption and date on the 3D frame
+}
+
+export const EMPTY_PHOTO_DETAILS: PhotoDetails = { caption: '', takenAt: '', note: '', captionOnFrame: false };
+
+export interface GalleryPhoto {
+  id: string; // Stable UUID, also the photo's scene item id
+  name: string; // Original file name
+  addedAt: number; // Upload time, ms since epoch
+  details: PhotoDetails;
+  url: string; // Object URL of the upright, downscaled photo, for close-ups
+  thumbUrl: string; // Object URL of the small version every photo panel shows
+  width: number; // Pixels of the photo behind `url`
+  height: number;
+  aspect: number; // Width / height
+  size: number; // Bytes of the prepared photo and its thumbnail
+  storeKey?: number; // IndexedDB key, absent if the photo could not be persisted
+}
+
+export interface PlaylistTrack {
+  url: string; // Object URL of the uploaded file, also identifies the track
+  title: string;
+  storeKey?: number; // IndexedDB key, absent if the track could not be persisted
+}
@@ -0,0 +1,117 @@
+// Web Audio analysis of the background music, sampled once per rendered frame
+// so lights, bloom and the star can pulse with the track.
+
+import { clampToRange } from './ranges';
+
+export interface AudioLevels {
+  bass: number;   // 0-1 energy, already scaled by sensitivity
+  mid: number;
+  treble: number;
+  beat: number;   // 1 on a bass onset, decaying towards 0 afterwards
+}
+
+export const SILENT_LEVELS: AudioLevels = { bass: 0, mid: 0, treble: 0, beat: 0 };
+
+export interface AudioReactiveSettings {
+  enabled: boolean;
+  sensitivity: number; // Gain on the band levels, 1 = as analysed
+}
+
+export const DEFAULT_AUDIO_REACTIVE: AudioReactiveSettings = { enabled: true, sensitivity: 1 };
+
+export const AUDIO_SENSITIVITY_RANGE: [number, number] = [0.2, 2];
+
+/** Fills in settings saved by an older version or read from a card, clamping the sensitivity. */
+export const normalizeAudioReactive = (saved: unknown): AudioReactiveSettings => {
+  const { enabled, sensitivity } = (saved && typeof saved === 'object' ? saved : {}) as Record<string, unknown>;
+  return {
+    enabled: typeof enabled === 'boolean' ? enabled : DEFAULT_AUDIO_REACTIVE.enabled,
+    sensitivity: clampToRange(sensitivity, AUDIO_SENSITIVITY_RANGE, DEFAULT_AUDIO_REACTIVE.sensitivity),
+  };
+};
+
+// Band edges in Hz
+const BANDS = { bass: [20, 250], mid: [250, 2000], treble: [2000, 8000] } as const;
+
+const FFT_SIZE = 1024;
+const BEAT_HISTORY_SECONDS = 0.7; // Recent bass average an onset must stand out from
+const BEAT_RATIO = 1.35;
+const BEAT_MIN_LEVEL = 0.3;
+const BEAT_COOLDOWN_SECONDS = 0.25;
+const BEAT_DECAY = 8; // Per second
+
+export interface AudioAnalyser {
+  /** Reads the current spectrum into `out`; call once per frame with the frame's delta (seconds). */
+  sample: (delta: number, sensitivity: number, out: AudioLevels) => AudioLevels;
+  /** Browsers start audio contexts suspended until a user gesture. */
+  resume: () => Promise<void>;
+  /** The music as a MediaStream (e.g. for recording), since the elements now play through this context. */
+  captureStream: () => MediaStream;
+}
+
+/**
+ * Routes `elements` (e.g. both decks of the music player) through one AnalyserNode.
+ * A media element can only be attached to one context, and from then on it is only
+ * audible through it, so create this once. Cross-origin tracks must be served with
+ * CORS or they play silently once attached.
+ */
+export const createAudioAnalyser = (elements: HTMLMediaElement[]): AudioAnalyser => {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.75;
+
+  elements.forEach(element => context.createMediaElementSource(element).connect(analyser));
+  analyser.connect(context.destination);
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const binHz = context.sampleRate / FFT_SIZE;
+  const bandLevel = ([low, high]: readonly [number, number]) => {
+    const from = Math.max(1, Math.floor(low / binHz));
+    const to = Math.min(spectrum.length - 1, Math.ceil(high / binHz));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += spectrum[i];
+    return sum / ((to - from + 1) * 255);
+  };
+
+  let history: { level: number; age: number }[] = [];
+  let sinceBeat = Infinity;
+  let beat = 0;
+
+  const sample = (delta: number, sensitivity: number, out: AudioLevels) => {
+    analyser.getByteFrequencyData(spectrum);
+    const bass = bandLevel(BANDS.bass);
+
+    // Onset: bass jumps well above its recent average
+    history.forEach(h => { h.age += delta; });
+    history = history.filter(h => h.age < BEAT_HISTORY_SECONDS);
+    const average = history.length ? history.reduce((sum, h) => sum + h.level, 0) / history.length : bass;
+    history.push({ level: bass, age: 0 });
+
+    sinceBeat += delta;
+    beat *= Math.exp(-delta * BEAT_DECAY);
+    if (bass > BEAT_MIN_LEVEL && bass > average * BEAT_RATIO && sinceBeat > BEAT_COOLDOWN_SECONDS) {
+      beat = 1;
+      sinceBeat = 0;
+    }
+
+    out.bass = Math.min(1, bass * sensitivity);
+    out.mid = Math.min(1, bandLevel(BANDS.mid) * sensitivity);
+    out.treble = Math.min(1, bandLevel(BANDS.treble) * sensitivity);
+    out.beat = beat * Math.min(1, sensitivity);
+    return out;
+  };
+
+  const resume = () => (context.state === 'suspended' ? context.resume() : Promise.resolve());
+
+  let destination: MediaStreamAudioDestinationNode | null = null;
+  const captureStream = () => {
+    if (!destination) {
+      destination = context.createMediaStreamDestination();
+      analyser.connect(destination);
+    }
+    return destination.stream;
+  };
+
+  return { sample, resume, captureStream };
+};
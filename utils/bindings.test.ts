@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AppState } from '../types';
+import { CustomGesture } from './customGestures';
+import { DEFAULT_BINDINGS, GestureBinding, normalizeBindings, syncCustomBindings } from './bindings';
+
+const trainedGesture = (id: string): CustomGesture => ({ id, name: id, icon: '⭐', samples: [] });
+
+describe('normalizeBindings', () => {
+  it('uses the defaults when nothing usable was saved', () => {
+    expect(normalizeBindings(undefined)).toBe(DEFAULT_BINDINGS);
+    expect(normalizeBindings([null, 'fist', { gesture: 'wave', action: 'scatter', states: [] }])).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it('keeps a saved order and fills in gestures the save does not mention', () => {
+    const saved = [
+      { gesture: 'open', action: 'assemble', states: [AppState.TREE, 'DANCE'], enabled: false },
+      { gesture: 'fist', action: 'scatter', states: [AppState.SCATTER] },
+    ];
+    const bindings = normalizeBindings(saved);
+    expect(bindings.slice(0, 2)).toEqual([
+      { gesture: 'open', action: 'assemble', states: [AppState.TREE], enabled: false },
+      { gesture: 'fist', action: 'scatter', states: [AppState.SCATTER], enabled: true },
+    ]);
+    expect(bindings.slice(2)).toEqual(DEFAULT_BINDINGS.filter(b => b.gesture !== 'open' && b.gesture !== 'fist'));
+  });
+
+  it('drops bindings for unknown actions and for trained gestures that are gone', () => {
+    const saved = [
+      { gesture: 'fist', action: 'explode', states: [AppState.TREE] },
+      { gesture: 'custom-wave', action: 'nextPhoto', states: [AppState.INSPECT] },
+      { gesture: 'custom-gone', action: 'nextPhoto', states: [AppState.INSPECT] },
+    ];
+    const bindings = normalizeBindings(saved, ['custom-wave']);
+    expect(bindings[0]).toEqual({ gesture: 'custom-wave', action: 'nextPhoto', states: [AppState.INSPECT], enabled: true });
+    expect(bindings.some(b => b.gesture === 'custom-gone')).toBe(false);
+    expect(bindings.find(b => b.gesture === 'fist')).toEqual(DEFAULT_BINDINGS.find(b => b.gesture === 'fist'));
+  });
+});
+
+describe('syncCustomBindings', () => {
+  const withWave: GestureBinding[] = [...DEFAULT_BINDINGS, { gesture: 'wave', action: 'scatter', states: [AppState.TREE], enabled: true }];
+
+  it('leaves the bindings alone when the trained gestures have not changed', () => {
+    expect(syncCustomBindings(withWave, [trainedGesture('wave')])).toBe(withWave);
+  });
+
+  it('adds a disabled binding for a new gesture and removes a deleted one', () => {
+    const synced = syncCustomBindings(withWave, [trainedGesture('spin')]);
+    expect(synced.some(b => b.gesture === 'wave')).toBe(false);
+    expect(synced[synced.length - 1]).toMatchObject({ gesture: 'spin', action: 'nextTrack', enabled: false });
+    expect(synced.slice(0, DEFAULT_BINDINGS.length)).toEqual(DEFAULT_BINDINGS);
+  });
+});
@@ -0,0 +1,128 @@
+import { AppState, HandGestureData } from '../types';
+import { CustomGesture } from './customGestures';
+
+// Declarative gesture → action table read by the gesture state machine (utils/interaction.ts).
+// Bindings are checked in order; the first enabled one whose gesture is showing, whose
+// states include the current one and whose action can run this frame wins.
+
+export type GestureId = 'fist' | 'open' | 'point' | 'victory' | 'thumbsUp' | 'pinch' | 'swipeLeft' | 'swipeRight';
+
+export type GestureActionId =
+  | 'assemble' | 'scatter' | 'randomPhoto' | 'inspectPhoto' | 'nextPhoto' | 'previousPhoto'
+  | 'spellWish' | 'nextTrack' | 'previousTrack';
+
+export interface GestureBinding {
+  gesture: GestureId | string; // A built-in gesture or a trained one's id
+  action: GestureActionId;
+  states: AppState[]; // Only applies while the app is in one of these
+  enabled: boolean;
+}
+
+export const GESTURES: { id: GestureId, icon: string, label: string }[] = [
+  { id: 'fist', icon: '✊', label: 'Fist' },
+  { id: 'open', icon: '🖐️', label: 'Open Hand' },
+  { id: 'point', icon: '☝️', label: 'Point' },
+  { id: 'victory', icon: '✌️', label: 'Victory' },
+  { id: 'thumbsUp', icon: '👍', label: 'Thumbs Up' },
+  { id: 'pinch', icon: '🤏', label: 'Pinch' },
+  { id: 'swipeLeft', icon: '👈', label: 'Swipe Left' },
+  { id: 'swipeRight', icon: '👉', label: 'Swipe Right' },
+];
+
+// `once` actions fire when their gesture starts rather than on every frame it's held
+export const GESTURE_ACTIONS: { id: GestureActionId, label: string, once: boolean }[] = [
+  { id: 'assemble', label: 'Assemble', once: false },
+  { id: 'scatter', label: 'Scatter', once: false },
+  { id: 'randomPhoto', label: 'Random Photo', once: false },
+  { id: 'inspectPhoto', label: 'Inspect', once: false },
+  { id: 'nextPhoto', label: 'Next Photo', once: true },
+  { id: 'previousPhoto', label: 'Previous Photo', once: true },
+  { id: 'spellWish', label: 'Spell Wish', once: false },
+  { id: 'nextTrack', label: 'Next Song', once: true },
+  { id: 'previousTrack', label: 'Previous Song', once: true },
+];
+
+export const BINDING_STATES: { id: AppState, label: string }[] = [
+  { id: AppState.TREE, label: 'Tree' },
+  { id: AppState.SCATTER, label: 'Scatter' },
+  { id: AppState.INSPECT, label: 'Photo' },
+  { id: AppState.TEXT, label: 'Wish' },
+];
+
+const ALL_STATES = BINDING_STATES.map(s => s.id);
+
+// The original hard-wired behaviour, in its original priority order
+export const DEFAULT_BINDINGS: GestureBinding[] = [
+  { gesture: 'swipeLeft', action: 'nextPhoto', states: [AppState.INSPECT], enabled: true },
+  { gesture: 'swipeRight', action: 'previousPhoto', states: [AppState.INSPECT], enabled: true },
+  { gesture: 'fist', action: 'assemble', states: ALL_STATES, enabled: true },
+  { gesture: 'point', action: 'randomPhoto', states: ALL_STATES, enabled: true },
+  { gesture: 'victory', action: 'spellWish', states: ALL_STATES, enabled: true },
+  { gesture: 'open', action: 'scatter', states: ALL_STATES, enabled: true },
+  { gesture: 'pinch', action: 'inspectPhoto', states: [AppState.SCATTER], enabled: true },
+  { gesture: 'thumbsUp', action: 'nextTrack', states: ALL_STATES, enabled: true },
+];
+
+export const isGestureActive = (data: HandGestureData, gesture: GestureId | string): boolean => {
+  switch (gesture) {
+    case 'fist': return data.isFist;
+    case 'open': return data.isOpen;
+    case 'point': return data.isPointing;
+    case 'victory': return data.isVictory;
+    case 'thumbsUp': return data.isThumbsUp;
+    case 'pinch': return data.isPinching;
+    case 'swipeLeft': return data.swipe === 'left';
+    case 'swipeRight': return data.swipe === 'right';
+    default: return data.customGesture === gesture;
+  }
+};
+
+export const activeGestures = (data: HandGestureData): string[] => [
+  ...GESTURES.flatMap(g => isGestureActive(data, g.id) ? [g.id] : []),
+  ...(data.customGesture ? [data.customGesture] : []),
+];
+
+/** Icon and name of a built-in or trained gesture. */
+export const describeGesture = (gesture: string, custom: CustomGesture[]): { icon: string, label: string } | undefined => {
+  const builtIn = GESTURES.find(g => g.id === gesture);
+  if (builtIn) return builtIn;
+  const trained = custom.find(g => g.id === gesture);
+  return trained && { icon: trained.icon, label: trained.name };
+};
+
+export const isOnceAction = (action: GestureActionId) => GESTURE_ACTIONS.find(a => a.id === action)?.once ?? false;
+
+/**
+ * Validates saved bindings: unknown gestures, actions and states are dropped, and
+ * gestures the save doesn't mention get their default binding (e.g. added in an update).
+ * `customIds` are the trained gestures that still exist.
+ */
+export const normalizeBindings = (saved: unknown, customIds: string[] = []): GestureBinding[] => {
+  if (!Array.isArray(saved)) return DEFAULT_BINDINGS;
+  const valid = saved.flatMap((b): GestureBinding[] => {
+    if (!b || typeof b !== 'object') return [];
+    const { gesture, action, states, enabled } = b as Record<string, unknown>;
+    const known = GESTURES.some(g => g.id === gesture) || customIds.includes(gesture as string);
+    if (!known || !GESTURE_ACTIONS.some(a => a.id === action) || !Array.isArray(states)) return [];
+    return [{
+      gesture: gesture as string,
+      action: action as GestureActionId,
+      states: ALL_STATES.filter(s => states.includes(s)),
+      enabled: enabled !== false,
+    }];
+  });
+  const missing = DEFAULT_BINDINGS.filter(d => !valid.some(b => b.gesture === d.gesture));
+  return [...valid, ...missing];
+};
+
+/**
+ * Keeps bindings in step with the trained gestures: a newly trained one gets a disabled
+ * binding to pick an action for, and a deleted one's bindings go.
+ */
+export const syncCustomBindings = (bindings: GestureBinding[], custom: CustomGesture[]): GestureBinding[] => {
+  const kept = bindings.filter(b => GESTURES.some(g => g.id === b.gesture) || custom.some(g => g.id === b.gesture));
+  const added = custom
+    .filter(g => !kept.some(b => b.gesture === g.id))
+    .map((g): GestureBinding => ({ gesture: g.id, action: 'nextTrack', states: ALL_STATES, enabled: false }));
+  return kept.length === bindings.length && added.length === 0 ? bindings : [...kept, ...added];
+};
@@ -0,0 +1,86 @@
+import { DEFAULT_THRESHOLDS, GestureThresholds, HandMetrics } from './gestures';
+
+// Per-user gesture calibration: the wizard (components/CalibrationWizard.tsx) records the
+// primary hand's measurements while each pose is held, and the thresholds are placed
+// between the poses in multiples of the hand's own size, so they hold for small hands
+// and for people standing far back.
+
+export type CalibrationPoseId = 'open' | 'fist' | 'point' | 'pinch';
+
+export const CALIBRATION_POSES: { id: CalibrationPoseId, icon: string, label: string, instruction: string }[] = [
+  { id: 'open', icon: '🖐️', label: 'Open Hand', instruction: 'Spread all five fingers, palm to the camera' },
+  { id: 'fist', icon: '✊', label: 'Fist', instruction: 'Curl every finger in, thumb tucked' },
+  { id: 'point', icon: '☝️', label: 'Point', instruction: 'Index finger up, the others curled' },
+  { id: 'pinch', icon: '🤏', label: 'Pinch', instruction: 'Touch the tips of your thumb and index finger' },
+];
+
+export const CALIBRATION_READY_MS = 1500; // Time to get into the pose before recording
+export const CALIBRATION_HOLD_MS = 3000;
+export const MIN_POSE_SAMPLES = 15; // Frames with a hand needed per pose
+
+export type CalibrationSamples = Record<CalibrationPoseId, HandMetrics[]>;
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  thresholds: GestureThresholds;
+  createdAt: number;
+}
+
+// The built-in thresholds, always available and never stored
+export const DEFAULT_PROFILE: CalibrationProfile = { id: 'default', name: 'Default', thresholds: DEFAULT_THRESHOLDS, createdAt: 0 };
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+};
+
+/** Hand-relative thresholds from the recorded poses; throws an Error saying which pose to redo. */
+export const deriveThresholds = (samples: CalibrationSamples): GestureThresholds => {
+  const missing = CALIBRATION_POSES.find(pose => samples[pose.id].length < MIN_POSE_SAMPLES);
+  if (missing) throw new Error(`Your hand wasn't seen clearly during "${missing.label}". Stay in view of the camera and try again.`);
+
+  const rel = (m: HandMetrics, value: number) => value / m.handSize;
+
+  // Pinch: between the widest "touching" frames and the narrowest non-pinch ones
+  const pinched = quantile(samples.pinch.map(m => rel(m, m.pinchDistance)), 0.9);
+  const apart = quantile([...samples.open, ...samples.point].map(m => rel(m, m.pinchDistance)), 0.1);
+  if (apart <= pinched) {
+    throw new Error('Your pinch looked like an open hand. Press the thumb and index tips together and try again.');
+  }
+
+  // Fingers: the margin fits inside the clearance of both extended and folded fingers
+  const extended = [
+    ...samples.open.flatMap(m => m.fingerLift.map(lift => rel(m, lift))),
+    ...samples.point.map(m => rel(m, m.fingerLift[0])),
+  ];
+  const folded = [
+    ...samples.fist.flatMap(m => m.fingerLift.map(lift => rel(m, lift))),
+    ...samples.point.flatMap(m => m.fingerLift.slice(1).map(lift => rel(m, lift))),
+  ];
+  const extendedLow = quantile(extended, 0.1);
+  const foldedHigh = quantile(folded, 0.9);
+  if (extendedLow <= 0) throw new Error('Some fingers were bent during "Open Hand" or "Point". Stretch them straight up and try again.');
+  if (foldedHigh >= 0) throw new Error('Some fingers stayed up during "Fist" or "Point". Curl them fully and try again.');
+
+  // The thumbs-up isn't recorded, so its margin keeps the default's size at this distance
+  const handSize = quantile(CALIBRATION_POSES.flatMap(pose => samples[pose.id].map(m => m.handSize)), 0.5);
+
+  return {
+    pinchEnter: pinched + (apart - pinched) * 0.3,
+    pinchExit: pinched + (apart - pinched) * 0.6,
+    foldMargin: Math.min(extendedLow, -foldedHigh) * 0.5,
+    thumbUpMargin: DEFAULT_THRESHOLDS.thumbUpMargin / handSize,
+    handRelative: true,
+  };
+};
+
+/** Validates stored profiles, dropping any that are damaged. */
+export const normalizeProfiles = (saved: unknown): CalibrationProfile[] => {
+  if (!Array.isArray(saved)) return [];
+  return saved.filter((p): p is CalibrationProfile => {
+    if (!p || typeof p !== 'object' || typeof p.id !== 'string' || typeof p.name !== 'string' || !p.thresholds) return false;
+    const t = p.thresholds;
+    return [t.pinchEnter, t.pinchExit, t.foldMargin, t.thumbUpMargin].every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0);
+  });
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CAMERA_ERRORS, CONFIDENCE_RANGE, DEFAULT_CAMERA_SETTINGS, cameraErrorKind, normalizeCameraSettings } from './cameraSettings';
+
+describe('normalizeCameraSettings', () => {
+  it('keeps valid saved settings', () => {
+    const saved = {
+      deviceId: 'usb-cam',
+      resolution: '720p',
+      frameRate: 60,
+      modelComplexity: 0,
+      minDetectionConfidence: 0.7,
+      minTrackingConfidence: 0.4,
+    };
+    expect(normalizeCameraSettings(saved)).toEqual(saved);
+  });
+
+  it('falls back to defaults for anything that is not a setting', () => {
+    [undefined, null, 'camera', 42, []].forEach(saved => expect(normalizeCameraSettings(saved)).toEqual(DEFAULT_CAMERA_SETTINGS));
+  });
+
+  it('replaces each damaged or retired field on its own', () => {
+    expect(normalizeCameraSettings({
+      deviceId: '',
+      resolution: '4k',
+      frameRate: '30',
+      modelComplexity: 2,
+      minDetectionConfidence: 5,
+      minTrackingConfidence: NaN,
+    })).toEqual({
+      ...DEFAULT_CAMERA_SETTINGS,
+      minDetectionConfidence: CONFIDENCE_RANGE[1],
+    });
+    expect(normalizeCameraSettings({ deviceId: 7, frameRate: 24, minTrackingConfidence: 0 })).toEqual({
+      ...DEFAULT_CAMERA_SETTINGS,
+      minTrackingConfidence: CONFIDENCE_RANGE[0],
+    });
+  });
+});
+
+describe('cameraErrorKind', () => {
+  const failure = (name: string) => new DOMException('', name);
+
+  it('sorts getUserMedia failures into the states the app explains', () => {
+    expect(cameraErrorKind(failure('NotAllowedError'))).toBe('permission');
+    expect(cameraErrorKind(failure('SecurityError'))).toBe('permission');
+    expect(cameraErrorKind(failure('NotFoundError'))).toBe('noCamera');
+    expect(cameraErrorKind(failure('OverconstrainedError'))).toBe('noCamera');
+    expect(cameraErrorKind(failure('NotReadableError'))).toBe('busy');
+    expect(cameraErrorKind(failure('AbortError'))).toBe('busy');
+  });
+
+  it('does not fall back to mouse input for errors it does not recognise', () => {
+    [failure('TypeError'), new Error('boom'), 'boom', undefined].forEach(err => {
+      expect(cameraErrorKind(err)).toBe('failed');
+    });
+    expect(CAMERA_ERRORS.failed.fallBack).toBe(false);
+  });
+});
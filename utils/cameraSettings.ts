@@ -0,0 +1,113 @@
+// Which camera feeds hand tracking, at what size and rate, and how hard MediaPipe looks.
+// Chosen in the camera settings popover and applied by HandController while it runs.
+
+import { clampToRange } from './ranges';
+
+export interface CameraSettings {
+  deviceId: string | null; // The browser's default camera when null
+  resolution: string; // An id from CAMERA_RESOLUTIONS
+  frameRate: number;
+  modelComplexity: 0 | 1; // 0 is the lighter MediaPipe model, 1 the more accurate one
+  minDetectionConfidence: number; // To find a new hand
+  minTrackingConfidence: number; // To keep following one
+}
+
+export const CAMERA_RESOLUTIONS: { id: string, label: string, width: number, height: number }[] = [
+  { id: '240p', label: '320 × 240', width: 320, height: 240 },
+  { id: '480p', label: '640 × 480', width: 640, height: 480 },
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+];
+
+export const CAMERA_FRAME_RATES = [15, 30, 60];
+
+export const CONFIDENCE_RANGE: [number, number] = [0.3, 0.9];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: '240p',
+  frameRate: 30,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+export const resolutionOf = (settings: CameraSettings) =>
+  CAMERA_RESOLUTIONS.find(r => r.id === settings.resolution) ?? CAMERA_RESOLUTIONS[0];
+
+// --- Errors ---
+
+export type CameraErrorKind = 'permission' | 'noCamera' | 'busy' | 'failed' | 'libraries';
+
+// `fallBack`: switch to mouse or touch input straight away (the app's notice offers a retry);
+// the others stay on the preview with Retry and Use Without Camera
+export const CAMERA_ERRORS: Record<CameraErrorKind, { icon: string, title: string, help: string, fallBack: boolean }> = {
+  permission: {
+    icon: '🚫',
+    title: 'Camera access blocked',
+    help: 'Allow the camera for this site (the icon in the address bar), then retry.',
+    fallBack: true,
+  },
+  noCamera: {
+    icon: '📷',
+    title: 'No camera found',
+    help: 'Plug in or switch on a camera, then retry.',
+    fallBack: true,
+  },
+  busy: {
+    icon: '⏳',
+    title: 'Camera in use',
+    help: 'Another app or tab has the camera. Close it, then retry.',
+    fallBack: false,
+  },
+  failed: {
+    icon: '⚠️',
+    title: 'Camera failed to start',
+    help: 'The browser could not start the camera. Retry, or reload the page.',
+    fallBack: false,
+  },
+  libraries: {
+    icon: '⚠️',
+    title: 'Hand tracking failed to load',
+    help: 'The MediaPipe scripts or model files could not be loaded. Check the connection, then retry.',
+    fallBack: true,
+  },
+};
+
+/**
+ * Sorts a getUserMedia failure into one of the states the app explains. A saved camera
+ * that's gone is already retried with the default one (startCameraStream), so a missing
+ * camera here means none at all; errors it doesn't recognise don't force a fallback.
+ */
+export const cameraErrorKind = (err: unknown): CameraErrorKind => {
+  switch ((err as DOMException | undefined)?.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'permission';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return 'noCamera';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'busy';
+    default:
+      return 'failed';
+  }
+};
+
+/** Fills in settings saved by an older version, dropping choices that no longer exist and clamping confidences. */
+export const normalizeCameraSettings = (saved: unknown): CameraSettings => {
+  const {
+    deviceId, resolution, frameRate, modelComplexity, minDetectionConfidence, minTrackingConfidence
+  } = (saved && typeof saved === 'object' ? saved : {}) as Record<string, unknown>;
+  return {
+    deviceId: typeof deviceId === 'string' && deviceId ? deviceId : null,
+    resolution: CAMERA_RESOLUTIONS.find(r => r.id === resolution)?.id ?? DEFAULT_CAMERA_SETTINGS.resolution,
+    frameRate: CAMERA_FRAME_RATES.find(rate => rate === frameRate) ?? DEFAULT_CAMERA_SETTINGS.frameRate,
+    modelComplexity: modelComplexity === 0 || modelComplexity === 1 ? modelComplexity : DEFAULT_CAMERA_SETTINGS.modelComplexity,
+    minDetectionConfidence: clampToRange(minDetectionConfidence, CONFIDENCE_RANGE, DEFAULT_CAMERA_SETTINGS.minDetectionConfidence),
+    minTrackingConfidence: clampToRange(minTrackingConfidence, CONFIDENCE_RANGE, DEFAULT_CAMERA_SETTINGS.minTrackingConfidence),
+  };
+};
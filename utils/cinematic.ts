@@ -0,0 +1,40 @@
+import { AppState } from '../types';
+
+// Scripted camera-free "cinematic" for video exports, so a clip doesn't depend on live gestures:
+// assembled tree -> scatter -> each photo in turn -> tree again.
+
+export interface CinematicShot {
+  start: number; // Seconds into the clip
+  appState: AppState;
+  focusId: string | null;
+}
+
+// Share of the clip each act gets; the photos take what's left
+const INTRO = 0.2;
+const SCATTER = 0.15;
+const OUTRO = 0.2;
+const MIN_PHOTO_SECONDS = 1.5; // Longer clips show more photos, evenly picked from the gallery
+
+/** Shots for a `duration`-second clip over the gallery `photoIds` (in order). */
+export const buildCinematicScript = (photoIds: string[], duration: number): CinematicShot[] => {
+  const shots: CinematicShot[] = [
+    { start: 0, appState: AppState.TREE, focusId: null },
+    { start: duration * INTRO, appState: AppState.SCATTER, focusId: null },
+  ];
+
+  const photoStart = duration * (INTRO + SCATTER);
+  const photoTime = duration * (1 - INTRO - SCATTER - OUTRO);
+  const count = Math.min(photoIds.length, Math.floor(photoTime / MIN_PHOTO_SECONDS));
+  for (let i = 0; i < count; i++) {
+    const id = photoIds[Math.floor((i * photoIds.length) / count)];
+    shots.push({ start: photoStart + (i * photoTime) / count, appState: AppState.INSPECT, focusId: id });
+  }
+
+  // Without photos the scatter simply lasts longer
+  shots.push({ start: duration * (1 - OUTRO), appState: AppState.TREE, focusId: null });
+  return shots;
+};
+
+/** The shot playing `time` seconds in. */
+export const shotAt = (script: CinematicShot[], time: number): CinematicShot =>
+  script.reduce((current, shot) => (shot.start <= time ? shot : current), script[0]);
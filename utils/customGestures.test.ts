@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Landmark } from './gestures';
+import {
+  CUSTOM_GESTURE_FORMAT, CUSTOM_GESTURE_ICONS, CustomGesture, FEATURE_LENGTH, MAX_SAMPLES_PER_GESTURE, MIN_SAMPLES_TO_RECOGNISE,
+  createGestureClassifier, landmarkFeatures, mergeCustomGestures, normalizeCustomGestures, parseCustomGestures, serializeCustomGestures
+} from './customGestures';
+
+// Deterministic noise so every run trains the same classifier
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+// A right hand pointing up, wrist at (0.5, 0.8): each finger's knuckle fans out from the
+// palm, and `extension` (0 curled – 1 straight) sets how far its three joints reach
+const hand = (extension: number[], random = seeded(1), jitter = 0.004): Landmark[] => {
+  const points: Landmark[] = [{ x: 0.5, y: 0.8 }];
+  const fingerAngles = [-0.9, -0.3, 0, 0.25, 0.5];
+  fingerAngles.forEach((angle, f) => {
+    const base = { x: 0.5 + Math.sin(angle) * 0.1, y: 0.8 - Math.cos(angle) * 0.1 };
+    for (let joint = 1; joint <= 4; joint++) {
+      const reach = joint === 1 ? 0 : 0.04 * (joint - 1) * extension[f];
+      const curl = joint === 1 ? 0 : 0.03 * (joint - 1) * (1 - extension[f]);
+      points.push({
+        x: base.x + Math.sin(angle) * reach + curl * 0.3 + (random() - 0.5) * jitter,
+        y: base.y - Math.cos(angle) * reach + curl + (random() - 0.5) * jitter,
+      });
+    }
+  });
+  return points;
+};
+
+const OPEN = [1, 1, 1, 1, 1];
+const FIST = [0, 0, 0, 0, 0];
+const ROCK = [0, 1, 0, 0, 1]; // 🤘
+
+const trained = (id: string, extension: number[], count = 20, seed = 7): CustomGesture => {
+  const random = seeded(seed);
+  return { id, name: id, icon: CUSTOM_GESTURE_ICONS[0], samples: Array.from({ length: count }, () => landmarkFeatures(hand(extension, random), 'Right')) };
+};
+
+// Same hand moved, scaled and tilted in the frame
+const moved = (lm: Landmark[], { dx = 0, dy = 0, scale = 1, angle = 0 }) => lm.map(p => {
+  const x = (p.x - 0.5) * scale, y = (p.y - 0.8) * scale;
+  return {
+    x: 0.5 + dx + x * Math.cos(angle) - y * Math.sin(angle),
+    y: 0.8 + dy + x * Math.sin(angle) + y * Math.cos(angle),
+  };
+});
+
+describe('landmarkFeatures', () => {
+  it('ignores where the hand is, its size, its tilt and which hand it is', () => {
+    const lm = hand(ROCK);
+    const reference = landmarkFeatures(lm, 'Right');
+    expect(reference).toHaveLength(FEATURE_LENGTH);
+    const mirrored = lm.map(p => ({ x: 1 - p.x, y: p.y }));
+    [
+      landmarkFeatures(moved(lm, { dx: 0.2, dy: -0.1, scale: 0.5, angle: 0.4 }), 'Right'),
+      landmarkFeatures(mirrored, 'Left'),
+    ].forEach(features => features.forEach((v, i) => expect(v).toBeCloseTo(reference[i], 6)));
+  });
+});
+
+describe('createGestureClassifier', () => {
+  const classifier = createGestureClassifier([trained('open', OPEN), trained('fist', FIST, 20, 11), trained('rock', ROCK, 20, 13)]);
+
+  it('recognises each trained pose, wherever the hand is', () => {
+    expect(classifier.classify(hand(OPEN, seeded(99)), 'Right')?.id).toBe('open');
+    expect(classifier.classify(hand(FIST, seeded(98)), 'Right')?.id).toBe('fist');
+    expect(classifier.classify(moved(hand(ROCK, seeded(97)), { dx: -0.2, scale: 1.6, angle: -0.3 }), 'Right')?.id).toBe('rock');
+  });
+
+  it('rejects a pose that matches nothing rather than forcing the nearest', () => {
+    expect(classifier.classify(hand([1, 0, 0, 1, 0], seeded(96)), 'Right')).toBeNull();
+  });
+
+  it('ignores gestures with too few samples', () => {
+    const few = createGestureClassifier([trained('open', OPEN, MIN_SAMPLES_TO_RECOGNISE - 1)]);
+    expect(few.classify(hand(OPEN), 'Right')).toBeNull();
+  });
+});
+
+describe('parseCustomGestures', () => {
+  const gestures = [trained('open', OPEN, 12), trained('rock', ROCK, 12)];
+  const file = (edit: (data: Record<string, any>) => void) => {
+    const data = JSON.parse(serializeCustomGestures(gestures));
+    edit(data);
+    return JSON.stringify(data);
+  };
+
+  it('reads back an export', () => {
+    expect(parseCustomGestures(serializeCustomGestures(gestures))).toEqual(gestures);
+  });
+
+  it('keeps only the newest samples of an oversized gesture and fills in a missing icon', () => {
+    const [parsed] = parseCustomGestures(file(data => {
+      data.gestures = [{ ...data.gestures[0], icon: undefined, samples: Array.from({ length: MAX_SAMPLES_PER_GESTURE + 5 }, (_, i) => Array(FEATURE_LENGTH).fill(i)) }];
+    }));
+    expect(parsed.icon).toBe(CUSTOM_GESTURE_ICONS[0]);
+    expect(parsed.samples).toHaveLength(MAX_SAMPLES_PER_GESTURE);
+    expect(parsed.samples[0][0]).toBe(5);
+  });
+
+  it('rejects anything else with a reason', () => {
+    expect(() => parseCustomGestures('nope')).toThrow('not valid JSON');
+    expect(() => parseCustomGestures('{"gestures": []}')).toThrow(`"format": "${CUSTOM_GESTURE_FORMAT}"`);
+    expect(() => parseCustomGestures(file(data => { data.version = 2; }))).toThrow('newer version');
+    expect(() => parseCustomGestures(file(data => { data.gestures[1] = 'rock'; }))).toThrow('Gesture 2 needs');
+    expect(() => parseCustomGestures(file(data => { data.gestures[0].samples[3] = [1, 2, 3]; }))).toThrow(`"open" has samples that aren't ${FEATURE_LENGTH} numbers`);
+    expect(() => parseCustomGestures(file(data => { data.gestures[0].samples[0][0] = 'x'; }))).toThrow('"open" has samples');
+  });
+});
+
+describe('stored and imported gestures', () => {
+  it('drops damaged stored gestures and keeps the rest', () => {
+    const good = trained('open', OPEN, 12);
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(normalizeCustomGestures([good, { id: 'broken' }, null])).toEqual([good]);
+    expect(logged).toHaveBeenCalledTimes(2);
+    logged.mockRestore();
+    expect(normalizeCustomGestures('not a list')).toEqual([]);
+  });
+
+  it('replaces gestures with the same id on import and appends new ones', () => {
+    const open = trained('open', OPEN, 12);
+    const rock = trained('rock', ROCK, 12);
+    const retrained = { ...open, name: 'Open again' };
+    expect(mergeCustomGestures([open, rock], [retrained, trained('fist', FIST, 12)]).map(g => g.name)).toEqual(['Open again', 'rock', 'fist']);
+  });
+});
@@ -0,0 +1,148 @@
+import { Handedness } from '../types';
+import { Landmark, MIDDLE_MCP, WRIST } from './gestures';
+
+// User-trained hand poses, recognised by k-nearest-neighbours on normalised landmarks.
+// Each sample is the 21 landmarks' x/y relative to the wrist, in multiples of the hand's
+// size (wrist to middle finger base), turned so the hand points up and mirrored so left
+// and right hands share samples. Distance, hand size and tilt therefore don't matter.
+
+export const CUSTOM_GESTURE_FORMAT = 'magic-tree-gestures';
+export const CUSTOM_GESTURE_VERSION = 1;
+
+export const FEATURE_LENGTH = 42; // 21 landmarks × (x, y)
+export const SAMPLE_READY_MS = 1500; // Time to get into the pose before recording
+export const SAMPLE_RECORD_MS = 3000;
+export const MAX_SAMPLES_PER_GESTURE = 300;
+export const MIN_SAMPLES_TO_RECOGNISE = 10;
+
+export const CUSTOM_GESTURE_ICONS = ['🤘', '🤙', '👌', '🖖', '🤞', '🫶', '✋', '👊'];
+
+export interface CustomGesture {
+  id: string; // Also what HandGestureData.customGesture and bindings refer to
+  name: string;
+  icon: string;
+  samples: number[][]; // FEATURE_LENGTH numbers each
+}
+
+export interface CustomMatch {
+  id: string;
+  distance: number; // To the nearest sample of the winning gesture
+  limit: number; // Largest distance still accepted for it
+}
+
+/** Pose features for one hand: translation, scale, in-plane rotation and handedness removed. */
+export const landmarkFeatures = (lm: Landmark[], handedness: Handedness): number[] => {
+  const mirror = handedness === 'Left' ? -1 : 1;
+  const dx = (lm[MIDDLE_MCP].x - lm[WRIST].x) * mirror;
+  const dy = lm[MIDDLE_MCP].y - lm[WRIST].y;
+  const size = Math.hypot(dx, dy) || 1;
+  // Rotate the wrist→middle-base direction onto "up" (0, -1)
+  const angle = Math.atan2(dx, -dy);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return lm.flatMap(p => {
+    const x = (p.x - lm[WRIST].x) * mirror / size;
+    const y = (p.y - lm[WRIST].y) / size;
+    return [x * cos + y * sin, -x * sin + y * cos];
+  });
+};
+
+const distance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+export interface GestureClassifier {
+  /** The trained gesture this hand matches, or null when none is close enough. */
+  classify: (landmarks: Landmark[], handedness: Handedness) => CustomMatch | null;
+}
+
+/**
+ * k-NN over every gesture's samples. A pose only counts when it's about as close to the
+ * winner as that gesture's own samples are to each other, so unknown poses are rejected
+ * rather than forced onto the nearest gesture.
+ */
+export const createGestureClassifier = (gestures: CustomGesture[], k = 5): GestureClassifier => {
+  const trained = gestures.filter(g => g.samples.length >= MIN_SAMPLES_TO_RECOGNISE);
+
+  // Per gesture: 3× the median distance from a sample to its nearest neighbour, within bounds
+  const limits = new Map(trained.map(g => {
+    const nearest = g.samples.map((s, i) =>
+      g.samples.reduce((best, other, j) => (i === j ? best : Math.min(best, distance(s, other))), Infinity));
+    nearest.sort((a, b) => a - b);
+    return [g.id, Math.min(1.5, Math.max(0.4, nearest[Math.floor(nearest.length / 2)] * 3))];
+  }));
+  const samples = trained.flatMap(g => g.samples.map(features => ({ id: g.id, features })));
+
+  const classify = (landmarks: Landmark[], handedness: Handedness): CustomMatch | null => {
+    if (samples.length === 0) return null;
+    const features = landmarkFeatures(landmarks, handedness);
+    const neighbours = samples
+      .map(s => ({ id: s.id, distance: distance(features, s.features) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+
+    const votes = new Map<string, number>();
+    neighbours.forEach(n => votes.set(n.id, (votes.get(n.id) ?? 0) + 1));
+    const [id] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0];
+    const nearest = neighbours.find(n => n.id === id)!.distance;
+    const limit = limits.get(id)!;
+    return nearest <= limit ? { id, distance: nearest, limit } : null;
+  };
+
+  return { classify };
+};
+
+// --- Import / Export ---
+
+export const serializeCustomGestures = (gestures: CustomGesture[]): string =>
+  JSON.stringify({ format: CUSTOM_GESTURE_FORMAT, version: CUSTOM_GESTURE_VERSION, gestures });
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isSample = (v: unknown): v is number[] =>
+  Array.isArray(v) && v.length === FEATURE_LENGTH && v.every(n => typeof n === 'number' && Number.isFinite(n));
+
+/** Reads an exported gesture file, throwing an Error with a readable message. */
+export const parseCustomGestures = (text: string): CustomGesture[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== CUSTOM_GESTURE_FORMAT || !Array.isArray(data.gestures)) {
+    throw new Error(`This is not a gesture file exported from this app (no "format": "${CUSTOM_GESTURE_FORMAT}").`);
+  }
+  if (typeof data.version !== 'number' || data.version > CUSTOM_GESTURE_VERSION) {
+    throw new Error(`The gestures were exported by a newer version of the app (version ${data.version}).`);
+  }
+  const gestures: unknown[] = data.gestures;
+  return gestures.map((g, i): CustomGesture => {
+    if (!isObject(g) || typeof g.id !== 'string' || typeof g.name !== 'string' || !Array.isArray(g.samples)) {
+      throw new Error(`Gesture ${i + 1} needs an "id", a "name" and "samples".`);
+    }
+    const samples: unknown[] = g.samples;
+    if (!samples.every(isSample)) throw new Error(`"${g.name}" has samples that aren't ${FEATURE_LENGTH} numbers each.`);
+    return { id: g.id, name: g.name, icon: typeof g.icon === 'string' ? g.icon : CUSTOM_GESTURE_ICONS[0], samples: samples.slice(-MAX_SAMPLES_PER_GESTURE) };
+  });
+};
+
+/** Adds imported gestures; one with the same id as an existing gesture replaces it. */
+export const mergeCustomGestures = (existing: CustomGesture[], imported: CustomGesture[]): CustomGesture[] => [
+  ...existing.map(g => imported.find(i => i.id === g.id) ?? g),
+  ...imported.filter(i => !existing.some(g => g.id === i.id)),
+];
+
+/** Validates stored gestures, dropping any that are damaged. */
+export const normalizeCustomGestures = (saved: unknown): CustomGesture[] => {
+  if (!Array.isArray(saved)) return [];
+  return saved.flatMap(gesture => {
+    try {
+      return parseCustomGestures(serializeCustomGestures([gesture]));
+    } catch (err) {
+      console.error("Dropping a damaged custom gesture", err);
+      return [];
+    }
+  });
+};
@@ -0,0 +1,16 @@
+/** Saves a Blob through a temporary link, freeing the object URL afterwards. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Filesystem-safe timestamp for export names, e.g. 2024-12-24_18-30-05. */
+export const fileTimestamp = (date = new Date()) =>
+  date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
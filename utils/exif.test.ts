@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseExifDate, readExifDate } from './exif';
+
+// A JPEG holding only an EXIF segment: DateTime in IFD0 and, when given, DateTimeOriginal
+// in the Exif sub-IFD, followed by the start of the image data
+const jpeg = ({ little = true, dateTime = '', original = '' }): Blob => {
+  const ascii = (text: string) => [...text].map(c => c.charCodeAt(0)).concat(0);
+  const ifd0Size = 2 + 2 * 12 + 4;
+  const exifIfd = 8 + ifd0Size;
+  const exifSize = 2 + 12 + 4;
+  const strings = exifIfd + exifSize;
+  const tiff = new DataView(new ArrayBuffer(strings + 40));
+  tiff.setUint16(0, little ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, little);
+  tiff.setUint32(4, 8, little);
+
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    tiff.setUint16(at, tag, little);
+    tiff.setUint16(at + 2, type, little);
+    tiff.setUint32(at + 4, count, little);
+    tiff.setUint32(at + 8, value, little);
+  };
+  tiff.setUint16(8, 2, little);
+  entry(10, 0x0132, 2, ascii(dateTime).length, strings);
+  entry(22, 0x8769, 4, 1, exifIfd);
+  tiff.setUint16(exifIfd, original ? 1 : 0, little);
+  if (original) entry(exifIfd + 2, 0x9003, 2, ascii(original).length, strings + 20);
+  ascii(dateTime).forEach((c, i) => tiff.setUint8(strings + i, c));
+  ascii(original).forEach((c, i) => tiff.setUint8(strings + 20 + i, c));
+
+  const app1Length = 2 + 6 + tiff.byteLength;
+  return new Blob([
+    new Uint8Array([0xff, 0xd8, 0xff, 0xe1, app1Length >> 8, app1Length & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0]),
+    tiff.buffer,
+    new Uint8Array([0xff, 0xda, 0, 2]),
+  ]);
+};
+
+describe('parseExifDate', () => {
+  it('turns an EXIF stamp into a date', () => {
+    expect(parseExifDate('2023:12:24 18:30:05')).toBe('2023-12-24');
+    expect(parseExifDate('0000:00:00 00:00:00')).toBeNull();
+    expect(parseExifDate('    :  :     :  :  ')).toBeNull();
+    expect(parseExifDate(null)).toBeNull();
+  });
+});
+
+describe('readExifDate', () => {
+  it('prefers when the photo was taken over when the file was written', async () => {
+    expect(await readExifDate(jpeg({ dateTime: '2024:01:02 10:00:00', original: '2023:12:24 18:30:05' }))).toBe('2023-12-24');
+    expect(await readExifDate(jpeg({ little: false, dateTime: '2024:01:02 10:00:00', original: '2023:12:24 18:30:05' }))).toBe('2023-12-24');
+    expect(await readExifDate(jpeg({ dateTime: '2024:01:02 10:00:00' }))).toBe('2024-01-02');
+  });
+
+  it('gives up quietly on files without usable EXIF', async () => {
+    expect(await readExifDate(new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])]))).toBeNull();
+    expect(await readExifDate(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2])]))).toBeNull();
+    const whole = new Uint8Array(await jpeg({ original: '2023:12:24 18:30:05' }).arrayBuffer());
+    expect(await readExifDate(new Blob([whole.slice(0, 40)]))).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+// Minimal EXIF reader: just enough of a JPEG's APP1 segment to find when the photo was taken.
+
+const JPEG_SOI = 0xffd8;
+const APP1 = 0xffe1;
+const EXIF_HEADER = 0x45786966; // "Exif"
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TYPE_ASCII = 2;
+
+// EXIF sits at the start of the file; no need to read a whole 12 MP photo
+const HEAD_BYTES = 128 * 1024;
+
+type Tags = Map<number, { type: number; count: number; valueOffset: number }>;
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): Tags => {
+  const tags: Tags = new Map();
+  const entries = view.getUint16(tiff + offset, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    tags.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      // Values of 4 bytes or less are stored inline
+      valueOffset: entry + 8,
+    });
+  }
+  return tags;
+};
+
+const readAscii = (view: DataView, tiff: number, tags: Tags, tag: number, little: boolean): string | null => {
+  const entry = tags.get(tag);
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  const start = entry.count > 4 ? tiff + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+  let text = '';
+  for (let i = 0; i < entry.count - 1; i++) text += String.fromCharCode(view.getUint8(start + i));
+  return text;
+};
+
+/** "2023:12:24 18:30:05" -> "2023-12-24"; null for blank or malformed stamps. */
+export const parseExifDate = (stamp: string | null): string | null => {
+  const match = stamp?.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/** The date a JPEG was taken (YYYY-MM-DD), or null when it has no usable EXIF. */
+export const readExifDate = async (blob: Blob): Promise<string | null> => {
+  const view = new DataView(await blob.slice(0, HEAD_BYTES).arrayBuffer());
+  try {
+    if (view.getUint16(0) !== JPEG_SOI) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      if (marker === APP1 && view.getUint32(offset + 4) === EXIF_HEADER) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949; // "II"
+        const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+        const exifPointer = ifd0.get(TAG_EXIF_IFD);
+        const exifIfd = exifPointer ? readIfd(view, tiff, view.getUint32(exifPointer.valueOffset, little), little) : new Map();
+
+        return parseExifDate(readAscii(view, tiff, exifIfd, TAG_DATE_TIME_ORIGINAL, little))
+          ?? parseExifDate(readAscii(view, tiff, exifIfd, TAG_DATE_TIME_DIGITIZED, little))
+          ?? parseExifDate(readAscii(view, tiff, ifd0, TAG_DATE_TIME, little));
+      }
+      // Image data follows; EXIF always comes before it
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+      offset += 2 + length;
+    }
+  } catch (err) {
+    // Truncated or corrupt segment
+    if (!(err instanceof RangeError)) throw err;
+  }
+  return null;
+};
@@ -0,0 +1,392 @@
+import * as THREE from 'three';
+import { LayoutSlot, SceneItem } from '../types';
+import { clampToRange } from './ranges';
+
+// Formations: where every decoration sits in the TREE state. A formation maps an
+// item's slot (kind, index, count, seed) to a position, so swapping it re-targets
+// the same items and they glide to their new places.
+
+export type FormationId = 'tree' | 'wreath' | 'snowman' | 'star' | 'heart' | 'galaxy';
+
+export interface LayoutParams {
+  formation: FormationId;
+  ornaments: number;
+  foil: number;
+  ribbon: number; // Particles per ribbon strand
+  lights: number;
+  height: number; // Overall vertical extent
+  radius: number; // Girth / depth (the tree's base radius)
+}
+
+export const DEFAULT_LAYOUT: LayoutParams = {
+  formation: 'tree',
+  ornaments: 300,
+  foil: 200,
+  ribbon: 400,
+  lights: 100,
+  height: 16,
+  radius: 6.0,
+};
+
+// Slider bounds in the formation panel; saved and imported layouts are held to them too
+export const LAYOUT_RANGES: Record<Exclude<keyof LayoutParams, 'formation'>, [number, number]> = {
+  ornaments: [0, 600],
+  foil: [0, 400],
+  ribbon: [0, 800],
+  lights: [0, 300],
+  height: [8, 24],
+  radius: [3, 10],
+};
+
+type FormationSize = Pick<LayoutParams, 'height' | 'radius'>;
+
+export interface Formation {
+  id: FormationId;
+  name: string;
+  icon: string;
+  place: (slot: LayoutSlot, size: FormationSize, out: THREE.Vector3) => THREE.Vector3;
+  topper: (size: FormationSize) => THREE.Vector3; // Star topper position
+}
+
+// --- Shared Helpers ---
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const TAU = Math.PI * 2;
+
+// Extra deterministic randomness derived from an item's seed
+const hash = (seed: number, n: number) => {
+  const x = Math.sin(seed * 12.9898 + n * 78.233) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// Evenly spread point `i` of `n` on a unit sphere
+const fibonacciSphere = (i: number, n: number, out: THREE.Vector3) => {
+  const y = 1 - (2 * (i + 0.5)) / Math.max(n, 1);
+  const r = Math.sqrt(Math.max(0, 1 - y * y));
+  const theta = i * GOLDEN_ANGLE;
+  return out.set(Math.cos(theta) * r, y, Math.sin(theta) * r);
+};
+
+// Braided ribbons wobble around their path in opposite phase
+const BRAID_FREQ = 30;
+const BRAID_AMP = 0.4;
+const braid = (slot: LayoutSlot, t: number) =>
+  (slot.kind === 'ribbonInner' ? -1 : 1) * Math.sin(t * BRAID_FREQ) * BRAID_AMP;
+
+const fraction = (slot: LayoutSlot) => slot.index / Math.max(slot.count, 1);
+
+// --- Cone Tree (the original layout) ---
+
+const TREE_LAYERS = 5;
+
+const tree: Formation = {
+  id: 'tree',
+  name: 'Tree',
+  icon: '🎄',
+  place: (slot, { height: H, radius: R }, out) => {
+    const t = fraction(slot);
+    const layerPhase = (t * TREE_LAYERS) % 1;
+    const baseRadius = (1 - t) * R;
+    const h = t * H - H / 2;
+
+    switch (slot.kind) {
+      case 'ornament': {
+        const r = baseRadius + (1 - layerPhase) * 1.5;
+        const theta = slot.index * GOLDEN_ANGLE;
+        return out.set(r * Math.cos(theta), h, r * Math.sin(theta));
+      }
+      case 'foil': {
+        const r = baseRadius + hash(slot.seed, 1) * 1.5 + 0.5;
+        const theta = slot.index * GOLDEN_ANGLE * 2;
+        return out.set(r * Math.cos(theta), h + (hash(slot.seed, 2) * 2 - 1), r * Math.sin(theta));
+      }
+      case 'ribbonOuter':
+      case 'ribbonInner': {
+        const r = baseRadius + (1 - layerPhase) * 1.8 + (slot.kind === 'ribbonOuter' ? 1.3 : 0.5);
+        const theta = t * TAU * 5 + braid(slot, t);
+        return out.set(r * Math.cos(theta), h, r * Math.sin(theta));
+      }
+      case 'light': {
+        const r = baseRadius + (1 - layerPhase) * 1.6 + 0.2;
+        const theta = t * TAU * 4 + Math.PI;
+        return out.set(r * Math.cos(theta), h, r * Math.sin(theta));
+      }
+      case 'photo': {
+        const n = slot.count || 1;
+        const ph = (slot.index / n) * (H * 0.8) - H / 3;
+        const r = (1 - (ph + H / 2) / H) * (R + 2);
+        const theta = slot.index * (TAU / n) + 1;
+        return out.set(r * Math.cos(theta), ph, r * Math.sin(theta));
+      }
+    }
+  },
+  topper: ({ height }) => new THREE.Vector3(0, height / 2 + 0.8, 0),
+};
+
+// --- Wreath (a torus facing the camera) ---
+
+const torusPoint = (ringRadius: number, u: number, tubeRadius: number, v: number, out: THREE.Vector3) =>
+  out.set(
+    Math.cos(u) * (ringRadius + tubeRadius * Math.cos(v)),
+    Math.sin(u) * (ringRadius + tubeRadius * Math.cos(v)),
+    tubeRadius * Math.sin(v)
+  );
+
+const wreath: Formation = {
+  id: 'wreath',
+  name: 'Wreath',
+  icon: '💫',
+  place: (slot, { height: H, radius: R }, out) => {
+    const ring = H * 0.4;
+    const tube = R * 0.35;
+    const t = fraction(slot);
+
+    switch (slot.kind) {
+      case 'ornament':
+        return torusPoint(ring, t * TAU, tube * (0.6 + 0.4 * slot.seed), slot.index * GOLDEN_ANGLE, out);
+      case 'foil':
+        return torusPoint(ring, slot.seed * TAU, tube * (0.9 + 0.4 * hash(slot.seed, 1)), hash(slot.seed, 2) * TAU, out);
+      case 'ribbonOuter':
+      case 'ribbonInner': {
+        // Wound around the tube, the two strands half a turn apart
+        const phase = slot.kind === 'ribbonOuter' ? 0 : Math.PI;
+        return torusPoint(ring, t * TAU + braid(slot, t) * 0.1, tube * 1.15, t * TAU * 12 + phase, out);
+      }
+      case 'light':
+        return torusPoint(ring, t * TAU, tube * 1.05, t * TAU * 8 + Math.PI / 2, out);
+      case 'photo': {
+        const u = (slot.index / (slot.count || 1)) * TAU + Math.PI / 2;
+        return out.set(Math.cos(u) * (ring + tube + 2.5), Math.sin(u) * (ring + tube + 2.5), 1);
+      }
+    }
+  },
+  topper: ({ height, radius }) => new THREE.Vector3(0, height * 0.4 + radius * 0.35 + 1, 0),
+};
+
+// --- Snowman (three stacked balls, a scarf and a spiral of lights) ---
+
+const snowmanBalls = ({ height: H, radius: R }: FormationSize) => {
+  const radii = [H * 0.22, H * 0.16, H * 0.11];
+  const y0 = -H / 2 + radii[0];
+  const y1 = y0 + radii[0] + radii[1] * 0.85;
+  const y2 = y1 + radii[1] + radii[2] * 0.85;
+  return { radii, centers: [y0, y1, y2], girth: R / DEFAULT_LAYOUT.radius };
+};
+
+const snowman: Formation = {
+  id: 'snowman',
+  name: 'Snowman',
+  icon: '⛄',
+  place: (slot, size, out) => {
+    const { radii, centers, girth } = snowmanBalls(size);
+    const t = fraction(slot);
+    const onBall = (ball: number, scale: number) => {
+      out.multiplyScalar(radii[ball] * scale);
+      return out.set(out.x * girth, out.y + centers[ball], out.z * girth);
+    };
+
+    switch (slot.kind) {
+      case 'ornament': {
+        // Split between the balls by surface area
+        const areas = radii.map(r => r * r);
+        const total = areas[0] + areas[1] + areas[2];
+        const counts = [Math.round(slot.count * areas[0] / total), Math.round(slot.count * areas[1] / total)];
+        counts.push(slot.count - counts[0] - counts[1]);
+        let ball = 0;
+        let local = slot.index;
+        while (ball < 2 && local >= counts[ball]) local -= counts[ball++];
+        fibonacciSphere(local, counts[ball], out);
+        return onBall(ball, 1);
+      }
+      case 'foil': {
+        const ball = slot.seed < 0.5 ? 0 : slot.seed < 0.8 ? 1 : 2;
+        const y = hash(slot.seed, 1) * 2 - 1;
+        const r = Math.sqrt(1 - y * y);
+        const theta = hash(slot.seed, 2) * TAU;
+        out.set(Math.cos(theta) * r, y, Math.sin(theta) * r);
+        return onBall(ball, 1.1);
+      }
+      case 'ribbonOuter':
+      case 'ribbonInner': {
+        // Scarf: three turns round the neck, then a tail hanging down the front
+        const neck = centers[1] + radii[1] * 0.8;
+        const wrap = radii[1] * 0.75 * girth;
+        if (t < 0.75) {
+          const theta = (t / 0.75) * TAU * 3;
+          return out.set(Math.cos(theta) * wrap, neck + braid(slot, t) * 0.5, Math.sin(theta) * wrap);
+        }
+        const s = (t - 0.75) / 0.25;
+        return out.set(radii[1] * 0.4 + braid(slot, t), neck - s * radii[1] * 1.4, wrap + 0.3);
+      }
+      case 'light': {
+        // Spiral hugging whichever ball is at this height
+        const top = centers[2] + radii[2];
+        const y = -size.height / 2 + t * (top + size.height / 2);
+        const cross = Math.max(...radii.map((r, i) => Math.sqrt(Math.max(0, r * r - (y - centers[i]) ** 2))));
+        const r = (cross + 0.25) * girth;
+        const theta = t * TAU * 6;
+        return out.set(Math.cos(theta) * r, y, Math.sin(theta) * r);
+      }
+      case 'photo': {
+        const theta = (slot.index / (slot.count || 1)) * TAU + 1;
+        const r = radii[0] * girth + 3;
+        return out.set(Math.cos(theta) * r, centers[0] + (slot.index % 2 ? 1.5 : -1.5), Math.sin(theta) * r);
+      }
+    }
+  },
+  topper: size => {
+    const { radii, centers } = snowmanBalls(size);
+    return new THREE.Vector3(0, centers[2] + radii[2] + 0.8, 0);
+  },
+};
+
+// --- Flat Shapes (star and heart, filled from the centre out) ---
+
+// A closed outline around the origin, as a function of angle (radians) -> radius
+type Outline = (theta: number) => number;
+
+const STAR_POINTS = 5;
+
+const starOutline = (outer: number, inner: number): Outline => theta => {
+  // Ray from the centre against the edge between the neighbouring tip and notch
+  const sector = Math.PI / STAR_POINTS;
+  const a = (((theta - Math.PI / 2) % TAU) + TAU) % TAU;
+  const k = Math.floor(a / sector);
+  const [r1, r2] = k % 2 === 0 ? [outer, inner] : [inner, outer];
+  const p1 = new THREE.Vector2(Math.cos(k * sector) * r1, Math.sin(k * sector) * r1);
+  const p2 = new THREE.Vector2(Math.cos((k + 1) * sector) * r2, Math.sin((k + 1) * sector) * r2);
+  const dir = new THREE.Vector2(Math.cos(a), Math.sin(a));
+  const edge = p2.clone().sub(p1);
+  return p1.cross(edge) / dir.cross(edge);
+};
+
+// Classic heart curve, centred vertically; scale 1 is about 30 units tall
+const heartPoint = (theta: number, scale: number, out: THREE.Vector3) => out.set(
+  16 * Math.sin(theta) ** 3 * scale,
+  (13 * Math.cos(theta) - 5 * Math.cos(2 * theta) - 2 * Math.cos(3 * theta) - Math.cos(4 * theta) + 2.5) * scale,
+  0
+);
+
+const flatShape = (
+  id: FormationId,
+  name: string,
+  icon: string,
+  outlinePoint: (theta: number, size: FormationSize, scale: number, out: THREE.Vector3) => THREE.Vector3,
+  topper: Formation['topper']
+): Formation => ({
+  id,
+  name,
+  icon,
+  place: (slot, size, out) => {
+    const depth = size.radius * 0.5;
+    const t = fraction(slot);
+
+    switch (slot.kind) {
+      case 'ornament': {
+        const fill = Math.sqrt((slot.index + 0.5) / Math.max(slot.count, 1));
+        outlinePoint(slot.index * GOLDEN_ANGLE, size, fill, out);
+        return out.setZ((slot.seed - 0.5) * depth * (1 - fill * 0.5));
+      }
+      case 'foil':
+        outlinePoint(slot.seed * TAU, size, Math.sqrt(hash(slot.seed, 1)) * 1.05, out);
+        return out.setZ((hash(slot.seed, 2) - 0.5) * depth * 1.4);
+      case 'ribbonOuter':
+      case 'ribbonInner':
+        outlinePoint(t * TAU, size, slot.kind === 'ribbonOuter' ? 1.06 : 0.92, out);
+        return out.setZ(braid(slot, t));
+      case 'light':
+        return outlinePoint(t * TAU, size, 1.15, out);
+      case 'photo': {
+        const theta = (slot.index / (slot.count || 1)) * TAU + Math.PI / 2;
+        return out.set(Math.cos(theta) * size.height * 0.7, Math.sin(theta) * size.height * 0.7, -1);
+      }
+    }
+  },
+  topper,
+});
+
+const star = flatShape('star', 'Star', '⭐', (theta, { height }, scale, out) => {
+  const r = starOutline(height * 0.55, height * 0.23)(theta) * scale;
+  return out.set(Math.cos(theta) * r, Math.sin(theta) * r, 0);
+}, ({ radius }) => new THREE.Vector3(0, 0, radius * 0.25 + 1));
+
+const heart = flatShape('heart', 'Heart', '❤️', (theta, { height }, scale, out) =>
+  heartPoint(theta, (height / 30) * scale, out),
+  ({ height }) => new THREE.Vector3(0, (7.5 * height) / 30 + 1.5, 0));
+
+// --- Spiral Galaxy (two arms and a glowing core, tilted towards the camera) ---
+
+const GALAXY_TILT = new THREE.Euler(1.1, 0, 0);
+const GALAXY_WINDINGS = 1.25;
+
+const galaxyArm = (arm: number, t: number, disk: number, out: THREE.Vector3) => {
+  const r = disk * (0.15 + 0.85 * t);
+  const theta = arm * Math.PI + t * GALAXY_WINDINGS * TAU;
+  return out.set(Math.cos(theta) * r, 0, Math.sin(theta) * r);
+};
+
+const galaxy: Formation = {
+  id: 'galaxy',
+  name: 'Galaxy',
+  icon: '🌌',
+  place: (slot, { height: H, radius: R }, out) => {
+    const disk = H * 0.7;
+    const thickness = R * 0.25;
+    const t = fraction(slot);
+
+    switch (slot.kind) {
+      case 'ornament':
+        galaxyArm(slot.index % 2, t, disk, out);
+        out.x += (hash(slot.seed, 1) - 0.5) * 2;
+        out.z += (hash(slot.seed, 2) - 0.5) * 2;
+        out.y = (slot.seed - 0.5) * thickness * (1 - t);
+        break;
+      case 'foil': {
+        // Loose dust across the whole disk
+        const r = Math.sqrt(slot.seed) * disk;
+        const theta = hash(slot.seed, 1) * TAU;
+        out.set(Math.cos(theta) * r, (hash(slot.seed, 2) - 0.5) * thickness, Math.sin(theta) * r);
+        break;
+      }
+      case 'ribbonOuter':
+      case 'ribbonInner':
+        galaxyArm(slot.kind === 'ribbonOuter' ? 0 : 1, t, disk, out);
+        out.y = braid(slot, t);
+        break;
+      case 'light':
+        fibonacciSphere(slot.index, slot.count, out).multiplyScalar(R * 0.45);
+        out.y *= 0.6;
+        break;
+      case 'photo': {
+        const theta = (slot.index / (slot.count || 1)) * TAU;
+        out.set(Math.cos(theta) * (disk + 2), 0, Math.sin(theta) * (disk + 2));
+        break;
+      }
+    }
+    return out.applyEuler(GALAXY_TILT);
+  },
+  topper: () => new THREE.Vector3(0, 0, 0),
+};
+
+export const FORMATIONS: Formation[] = [tree, wreath, snowman, star, heart, galaxy];
+
+export const getFormation = (id: FormationId) => FORMATIONS.find(f => f.id === id) ?? tree;
+
+/** Fills in a layout saved by an older version or read from a card, keeping every size in LAYOUT_RANGES. */
+export const normalizeLayout = (saved: unknown): LayoutParams => {
+  const { formation, ...sizes } = (saved && typeof saved === 'object' ? saved : {}) as Record<string, unknown>;
+  const layout = { ...DEFAULT_LAYOUT };
+  if (FORMATIONS.some(f => f.id === formation)) layout.formation = formation as FormationId;
+  for (const key of Object.keys(LAYOUT_RANGES) as (keyof typeof LAYOUT_RANGES)[]) {
+    layout[key] = clampToRange(sizes[key], LAYOUT_RANGES[key], DEFAULT_LAYOUT[key]);
+  }
+  return layout;
+};
+
+/** Writes every item's `treePos` for the chosen formation; items without a slot are left alone. */
+export const applyFormation = (items: SceneItem[], layout: LayoutParams) => {
+  const formation = getFormation(layout.formation);
+  items.forEach(item => {
+    if (item.slot) formation.place(item.slot, layout, item.treePos);
+  });
+};
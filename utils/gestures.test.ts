@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_OPTIONS, DEFAULT_THRESHOLDS, Landmark, createDetectionState, createGestureFilter, detectGestures } from './gestures';
+
+// A hand 0.2 tall (wrist to middle knuckle) whose fingertips sit `lift` above their PIP
+// joints (index, middle, ring, pinky); the thumb tucks in unless `pinch` brings it to the index tip
+const hand = (lift: number[], { x = 0.5, pinch = 1 } = {}): Landmark[] => {
+  const lm: Landmark[] = Array.from({ length: 21 }, () => ({ x, y: 0.6 }));
+  lm[0] = { x, y: 0.8 };
+  lm[2] = { x: x - 0.1, y: 0.6 };
+  lm[3] = { x: x - 0.1, y: 0.62 };
+  [8, 12, 16, 20].forEach((tip, i) => {
+    lm[tip - 2] = { x, y: 0.5 };
+    lm[tip] = { x, y: 0.5 - lift[i] };
+  });
+  lm[4] = { x: x - pinch, y: lm[8].y };
+  return lm;
+};
+
+const OPEN = [0.05, 0.05, 0.05, 0.05];
+const FIST = [-0.05, -0.05, -0.05, -0.05];
+
+describe('detectGestures', () => {
+  it('needs a finger to cross its fold margin before it changes state', () => {
+    const state = createDetectionState();
+    const index = (lift: number) => detectGestures(hand([lift, -0.05, -0.05, -0.05]), state, DEFAULT_THRESHOLDS).isPointing;
+    expect(index(0.005)).toBe(true);
+    expect(index(-0.005)).toBe(true);
+    expect(index(-0.02)).toBe(false);
+    expect(index(0.005)).toBe(false);
+    expect(index(0.02)).toBe(true);
+  });
+
+  it('starts a pinch closer than it ends one', () => {
+    const state = createDetectionState();
+    const pinching = (gap: number) => detectGestures(hand(FIST, { pinch: gap }), state, DEFAULT_THRESHOLDS).isPinching;
+    expect(pinching(0.06)).toBe(false);
+    expect(pinching(0.04)).toBe(true);
+    expect(pinching(0.06)).toBe(true);
+    expect(pinching(0.08)).toBe(false);
+  });
+
+  it('scales hand-relative thresholds with the hand', () => {
+    const relative = { ...DEFAULT_THRESHOLDS, pinchEnter: 0.25, pinchExit: 0.35, handRelative: true };
+    expect(detectGestures(hand(FIST, { pinch: 0.04 }), createDetectionState(), relative).isPinching).toBe(true);
+    expect(detectGestures(hand(FIST, { pinch: 0.06 }), createDetectionState(), relative).isPinching).toBe(false);
+  });
+});
+
+describe('createGestureFilter', () => {
+  const { holdMs, swipeCooldownMs } = DEFAULT_FILTER_OPTIONS;
+
+  it('reports a gesture only once it has held for the hold time', () => {
+    const filter = createGestureFilter();
+    expect(filter.update(hand(OPEN), 0).isOpen).toBe(false);
+    expect(filter.update(hand(OPEN), holdMs - 1).isOpen).toBe(false);
+    const held = filter.update(hand(OPEN), holdMs);
+    expect(held.isOpen).toBe(true);
+    expect(held.stableSince).toBe(holdMs);
+  });
+
+  it('restarts the hold when the gesture drops out', () => {
+    const filter = createGestureFilter();
+    filter.update(hand(OPEN), 0);
+    filter.update(null, 100);
+    expect(filter.update(hand(OPEN), 200).isOpen).toBe(false);
+    expect(filter.update(hand(OPEN), 200 + holdMs).isOpen).toBe(true);
+  });
+
+  it('holds trained poses for the same time', () => {
+    const filter = createGestureFilter();
+    expect(filter.update(hand(OPEN), 0, 1, 'wave').customGesture).toBeNull();
+    expect(filter.update(hand(OPEN), holdMs, 1, 'wave').customGesture).toBe('wave');
+  });
+
+  it('recognises a fast sideways sweep as a swipe, once', () => {
+    const filter = createGestureFilter();
+    const swipes = [0.7, 0.6, 0.5, 0.4, 0.3].map((x, i) => filter.update(hand(OPEN, { x }), i * 40).swipe);
+    // The preview is mirrored, so the hand moving left in the image moves right on screen
+    expect(swipes.filter(Boolean)).toEqual(['right']);
+  });
+
+  it('ignores slow drifts', () => {
+    const filter = createGestureFilter();
+    const swipes = Array.from({ length: 20 }, (_, i) => filter.update(hand(OPEN, { x: 0.7 - i * 0.02 }), i * 100).swipe);
+    expect(swipes.every(s => s === null)).toBe(true);
+  });
+
+  it('counts the hand as still only after it stops and any swipe has settled', () => {
+    const filter = createGestureFilter();
+    const frames = [0.7, 0.6, 0.5, 0.4, ...Array(30).fill(0.4)].map((x, i) => ({ t: i * 40, ...filter.update(hand(OPEN, { x }), i * 40) }));
+    const swipedAt = frames.find(f => f.swipe)!.t;
+    const stillAt = frames.findIndex(f => f.isStill);
+    expect(frames.slice(0, stillAt).some(f => f.isStill)).toBe(false);
+    expect(frames.slice(stillAt).every(f => f.isStill)).toBe(true);
+    expect(frames[stillAt].t - swipedAt).toBeGreaterThanOrEqual(swipeCooldownMs);
+    expect(frames[stillAt].t - swipedAt).toBeLessThan(swipeCooldownMs + 40);
+  });
+});
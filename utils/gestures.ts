@@ -0,0 +1,449 @@
+import { HandGestureData, HandState, Handedness, SwipeDirection, TwoHandData } from '../types';
+import { CustomMatch, GestureClassifier } from './customGestures';
+
+// MediaPipe Hands landmark (normalized image coordinates, y increases downwards)
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+// Landmark indices
+export const WRIST = 0;
+export const THUMB_MCP = 2;
+export const THUMB_IP = 3;
+export const THUMB_TIP = 4;
+export const INDEX_PIP = 6;
+export const INDEX_TIP = 8;
+export const MIDDLE_MCP = 9;
+
+// Bones drawn by the diagnostics overlay: thumb, four fingers and the palm
+export const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [9, 10], [10, 11], [11, 12],
+  [13, 14], [14, 15], [15, 16],
+  [0, 17], [17, 18], [18, 19], [19, 20],
+  [5, 9], [9, 13], [13, 17],
+];
+
+// Index, Middle, Ring, Pinky tips. The PIP joint is always tip - 2.
+const FINGER_TIPS = [8, 12, 16, 20];
+
+export interface GestureThresholds {
+  pinchEnter: number; // Thumb-index distance that starts a pinch
+  pinchExit: number;  // Distance that ends it (larger than enter)
+  foldMargin: number; // How far a tip must cross its PIP before a finger flips state
+  thumbUpMargin: number; // How far the thumb tip must rise above the index knuckle for a thumbs-up
+  handRelative?: boolean; // Distances are multiples of the hand's size (calibrated profiles) rather than of the image
+}
+
+export const DEFAULT_THRESHOLDS: GestureThresholds = {
+  pinchEnter: 0.05,
+  pinchExit: 0.07,
+  foldMargin: 0.01,
+  thumbUpMargin: 0.05,
+};
+
+export interface GestureFilterOptions {
+  holdMs: number;            // How long a raw gesture must persist before it counts
+  positionSmoothing: number; // 0-1, fraction of the way to the new position per frame
+  confidenceWindow: number;  // Frames used to judge how steady the gesture is
+  swipeWindowMs: number;     // Span of hand motion considered for a swipe
+  swipeMinDistance: number;  // Horizontal travel (normalized) within the window
+  swipeMinVelocity: number;  // Normalized screen widths per second
+  swipeCooldownMs: number;   // Ignore the hand swinging back after a swipe
+  stillMaxVelocity: number;  // Normalized screen widths per second below which the hand is still
+  thresholds: GestureThresholds;
+}
+
+export const DEFAULT_FILTER_OPTIONS: GestureFilterOptions = {
+  holdMs: 150,
+  positionSmoothing: 0.35,
+  confidenceWindow: 8,
+  swipeWindowMs: 250,
+  swipeMinDistance: 0.18,
+  swipeMinVelocity: 1.0,
+  swipeCooldownMs: 700,
+  stillMaxVelocity: 0.4,
+  thresholds: DEFAULT_THRESHOLDS,
+};
+
+export type GestureFlags = Pick<HandGestureData, 'isFist' | 'isOpen' | 'isPinching' | 'isPointing' | 'isVictory' | 'isThumbsUp'>;
+type GestureKey = keyof GestureFlags;
+export type GestureLabel = GestureKey | 'none';
+
+const GESTURE_KEYS: GestureKey[] = ['isThumbsUp', 'isFist', 'isPointing', 'isVictory', 'isOpen', 'isPinching'];
+
+const NO_GESTURE: GestureFlags = { isFist: false, isOpen: false, isPinching: false, isPointing: false, isVictory: false, isThumbsUp: false };
+
+export const NEUTRAL_GESTURE: HandGestureData = {
+  ...NO_GESTURE,
+  handPosition: { x: 0.5, y: 0.5 },
+  confidence: 0,
+  stableSince: null,
+  swipe: null,
+  hands: [],
+  twoHand: null,
+  customGesture: null,
+  isStill: true, // Sources without hand motion (keys, touch) always count as still
+};
+
+/** True when the frame carries any gesture: a pose (built-in or trained), a swipe or both hands up. */
+export const hasGesture = (data: HandGestureData): boolean =>
+  GESTURE_KEYS.some(key => data[key]) || data.swipe !== null || data.twoHand !== null || data.customGesture !== null;
+
+// One hand's filtered output, before hands are combined
+export type FilteredHand = Omit<HandGestureData, 'hands' | 'twoHand'>;
+
+// --- Single Frame Detection ---
+
+// Per-hand memory used for hysteresis between frames
+export interface DetectionState {
+  extended: (boolean | null)[]; // Per finger; null until first seen
+  pinching: boolean;
+}
+
+export const createDetectionState = (): DetectionState => ({
+  extended: FINGER_TIPS.map(() => null),
+  pinching: false,
+});
+
+const distance2d = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// The raw measurements each detector compares against its threshold
+export interface HandMetrics {
+  pinchDistance: number; // Thumb tip to index tip
+  fingerLift: number[]; // Index, middle, ring, pinky: how far the tip sits above its PIP joint (negative = below)
+  thumbStraight: boolean; // Tip above IP above MCP
+  thumbRise: number; // How far the thumb tip sits above the index PIP joint
+  handSize: number; // Wrist to middle finger base, the unit of hand-relative thresholds
+}
+
+export const measureHand = (lm: Landmark[]): HandMetrics => ({
+  pinchDistance: distance2d(lm[INDEX_TIP], lm[THUMB_TIP]),
+  fingerLift: FINGER_TIPS.map(tipIdx => lm[tipIdx - 2].y - lm[tipIdx].y),
+  thumbStraight: lm[THUMB_TIP].y < lm[THUMB_IP].y && lm[THUMB_IP].y < lm[THUMB_MCP].y,
+  thumbRise: lm[INDEX_PIP].y - lm[THUMB_TIP].y,
+  handSize: distance2d(lm[WRIST], lm[MIDDLE_MCP]),
+});
+
+/** The thresholds in image units for a hand measuring `metrics`. */
+export const thresholdsFor = (thresholds: GestureThresholds, metrics: HandMetrics): GestureThresholds => {
+  if (!thresholds.handRelative) return thresholds;
+  const unit = metrics.handSize;
+  return {
+    pinchEnter: thresholds.pinchEnter * unit,
+    pinchExit: thresholds.pinchExit * unit,
+    foldMargin: thresholds.foldMargin * unit,
+    thumbUpMargin: thresholds.thumbUpMargin * unit,
+  };
+};
+
+/** Classifies one frame, updating `state` in place so thresholds differ on the way in and out. */
+export const detectGestures = (lm: Landmark[], state: DetectionState, thresholds: GestureThresholds, metrics = measureHand(lm)): GestureFlags => {
+  const t = thresholdsFor(thresholds, metrics);
+  metrics.fingerLift.forEach((lift, i) => {
+    const prev = state.extended[i];
+    if (prev === null) state.extended[i] = lift > 0;
+    else if (prev) state.extended[i] = lift > -t.foldMargin;
+    else state.extended[i] = lift > t.foldMargin;
+  });
+
+  state.pinching = metrics.pinchDistance < (state.pinching ? t.pinchExit : t.pinchEnter);
+
+  const [index, middle, ring, pinky] = state.extended;
+  const isCurled = state.extended.every(e => !e);
+  // Thumb stretched upwards, clear of the curled fingers' top knuckle
+  const thumbUp = metrics.thumbStraight && metrics.thumbRise > t.thumbUpMargin;
+  return {
+    isFist: isCurled && !thumbUp,
+    isOpen: state.extended.every(e => e),
+    isPinching: state.pinching,
+    isPointing: !!index && !middle && !ring && !pinky,
+    isVictory: !!index && !!middle && !ring && !pinky,
+    isThumbsUp: isCurled && thumbUp,
+  };
+};
+
+export const labelOf = (flags: GestureFlags): GestureLabel => GESTURE_KEYS.find(key => flags[key]) ?? 'none';
+
+/** Hand centre between the wrist and middle finger base, mirrored to match the preview. */
+export const handCenter = (lm: Landmark[]) => ({
+  x: 1 - (lm[WRIST].x + lm[MIDDLE_MCP].x) / 2,
+  y: (lm[WRIST].y + lm[MIDDLE_MCP].y) / 2,
+});
+
+// --- Temporal Filter ---
+
+// What the last frame looked like before filtering, for the diagnostics overlay
+export interface FrameDiagnostics {
+  metrics: HandMetrics;
+  extended: boolean[]; // Per finger, after the fold margin's hysteresis
+  raw: GestureLabel; // This frame's classification, before the hold time
+}
+
+export interface GestureFilter {
+  /** Feeds one MediaPipe frame (null when no hand is visible) and the trained pose it matched, if any. */
+  update: (landmarks: Landmark[] | null, now: number, handScore?: number, custom?: string | null) => FilteredHand;
+  /** The last frame's measurements, or null when no hand was seen. */
+  diagnostics: () => FrameDiagnostics | null;
+  /** Swaps the detection thresholds (e.g. another calibration profile) without resetting. */
+  setThresholds: (thresholds: GestureThresholds) => void;
+  reset: () => void;
+}
+
+/**
+ * Sits between MediaPipe results and `onGesture`: smooths the hand position,
+ * only reports a gesture after it has held for `holdMs`, and rates how steady it is.
+ */
+export const createGestureFilter = (options: GestureFilterOptions = DEFAULT_FILTER_OPTIONS): GestureFilter => {
+  let detection = createDetectionState();
+  let candidateSince: Record<GestureKey, number | null> = { isFist: null, isOpen: null, isPinching: null, isPointing: null, isVictory: null, isThumbsUp: null };
+  let position = { ...NEUTRAL_GESTURE.handPosition };
+  let activeLabel: GestureLabel = 'none';
+  let stableSince: number | null = null;
+  let history: GestureLabel[] = [];
+  let motion: { x: number; y: number; t: number }[] = [];
+  let lastSwipeAt = -Infinity;
+  let lastFrame: FrameDiagnostics | null = null;
+  let thresholds = options.thresholds;
+  let customCandidate: string | null = null;
+  let customSince = 0;
+  let stillSince: number | null = null;
+
+  // Swipes use the raw hand centre; smoothing would flatten the velocity
+  const detectSwipe = (center: { x: number; y: number } | null, now: number): SwipeDirection | null => {
+    if (!center) {
+      motion = [];
+      return null;
+    }
+    motion.push({ ...center, t: now });
+    while (motion.length > 1 && now - motion[0].t > options.swipeWindowMs) motion.shift();
+    if (now - lastSwipeAt < options.swipeCooldownMs) return null;
+
+    const first = motion[0];
+    const dx = center.x - first.x;
+    const dy = center.y - first.y;
+    const dt = (now - first.t) / 1000;
+    if (dt <= 0 || Math.abs(dx) < options.swipeMinDistance) return null;
+    if (Math.abs(dx) / dt < options.swipeMinVelocity || Math.abs(dx) < Math.abs(dy) * 2) return null;
+
+    lastSwipeAt = now;
+    motion = [];
+    return dx < 0 ? 'left' : 'right';
+  };
+
+  const reset = () => {
+    detection = createDetectionState();
+    candidateSince = { isFist: null, isOpen: null, isPinching: null, isPointing: null, isVictory: null, isThumbsUp: null };
+    position = { ...NEUTRAL_GESTURE.handPosition };
+    activeLabel = 'none';
+    stableSince = null;
+    history = [];
+    motion = [];
+    lastSwipeAt = -Infinity;
+    lastFrame = null;
+    customCandidate = null;
+    stillSince = null;
+  };
+
+  // Hand speed across the swipe window; zero right after a swipe clears it
+  const motionSpeed = () => {
+    if (motion.length < 2) return 0;
+    const first = motion[0];
+    const last = motion[motion.length - 1];
+    const dt = (last.t - first.t) / 1000;
+    return dt > 0 ? Math.hypot(last.x - first.x, last.y - first.y) / dt : 0;
+  };
+
+  const update = (landmarks: Landmark[] | null, now: number, handScore = 1, custom: string | null = null): FilteredHand => {
+    let raw = NO_GESTURE;
+    let target = NEUTRAL_GESTURE.handPosition;
+
+    if (landmarks) {
+      const metrics = measureHand(landmarks);
+      raw = detectGestures(landmarks, detection, thresholds, metrics);
+      target = handCenter(landmarks);
+      lastFrame = { metrics, extended: detection.extended.map(e => !!e), raw: labelOf(raw) };
+    } else {
+      detection = createDetectionState();
+      lastFrame = null;
+    }
+    const swipe = detectSwipe(landmarks ? target : null, now);
+
+    // Still once the hand has stopped moving for holdMs, and not while a swipe settles
+    if (!landmarks || motionSpeed() > options.stillMaxVelocity) stillSince = null;
+    else if (stillSince === null) stillSince = now;
+    const isStill = stillSince !== null && now - stillSince >= options.holdMs && now - lastSwipeAt >= options.swipeCooldownMs;
+
+    // Exponential smoothing keeps the SCATTER camera from jittering
+    const k = options.positionSmoothing;
+    position = {
+      x: position.x + (target.x - position.x) * k,
+      y: position.y + (target.y - position.y) * k,
+    };
+
+    // A gesture only counts once its raw signal has held for holdMs
+    const flags = { ...NO_GESTURE };
+    GESTURE_KEYS.forEach(key => {
+      if (!raw[key]) {
+        candidateSince[key] = null;
+        return;
+      }
+      if (candidateSince[key] === null) candidateSince[key] = now;
+      flags[key] = now - candidateSince[key]! >= options.holdMs;
+    });
+
+    const label = labelOf(flags);
+    if (label !== activeLabel) {
+      activeLabel = label;
+      stableSince = label === 'none' ? null : now;
+    }
+
+    // Trained poses need the same hold time as the built-in ones
+    if (custom !== customCandidate) {
+      customCandidate = custom;
+      customSince = now;
+    }
+    const customGesture = custom !== null && now - customSince >= options.holdMs ? custom : null;
+
+    history.push(labelOf(raw));
+    if (history.length > options.confidenceWindow) history.shift();
+    const agreeing = history.filter(l => l === activeLabel).length / history.length;
+
+    return {
+      ...flags,
+      handPosition: position,
+      confidence: landmarks ? agreeing * handScore : 0,
+      stableSince,
+      swipe,
+      customGesture,
+      isStill,
+    };
+  };
+
+  return { update, diagnostics: () => lastFrame, setThresholds: next => { thresholds = next; }, reset };
+};
+
+// --- Multi-Hand Tracking ---
+
+export interface TrackedHand {
+  handedness: Handedness;
+  landmarks: Landmark[];
+  score: number;
+}
+
+// Subset of a MediaPipe Hands `onResults` payload that tracking depends on
+export interface HandsResults {
+  multiHandLandmarks?: Landmark[][];
+  multiHandedness?: { label: string; score: number }[];
+}
+
+export const toTrackedHands = (results: HandsResults): TrackedHand[] =>
+  (results.multiHandLandmarks ?? []).map((landmarks, i) => ({
+    landmarks,
+    handedness: results.multiHandedness?.[i]?.label === 'Left' ? 'Left' : 'Right',
+    score: results.multiHandedness?.[i]?.score ?? 1,
+  }));
+
+export interface HandDiagnostics extends FrameDiagnostics {
+  customMatch: CustomMatch | null; // Closest trained pose within its limit
+  handedness: Handedness;
+  landmarks: Landmark[];
+  score: number;
+  isPrimary: boolean; // Drives the single-hand gestures
+}
+
+/** Receives the primary hand's measurements every camera frame (null when no hand is seen). */
+export type HandFeed = (hand: HandDiagnostics | null) => void;
+
+export interface HandTracker {
+  /** Feeds every hand MediaPipe saw this frame (empty when none). */
+  update: (hands: TrackedHand[], now: number) => HandGestureData;
+  /** Per visible hand, the last frame's landmarks and measurements. */
+  diagnostics: () => HandDiagnostics[];
+  setThresholds: (thresholds: GestureThresholds) => void;
+  /** Recognises trained poses from now on (null for none). */
+  setClassifier: (classifier: GestureClassifier | null) => void;
+  reset: () => void;
+}
+
+/**
+ * Runs one gesture filter per hand. With a single hand the output is exactly the
+ * single-hand filter's; with two, the top-level gestures are suppressed so zooming
+ * and rotating don't also flip the app state, and `twoHand` is filled in instead.
+ */
+export const createHandTracker = (options: GestureFilterOptions = DEFAULT_FILTER_OPTIONS): HandTracker => {
+  const filters: Record<Handedness, GestureFilter> = {
+    Left: createGestureFilter(options),
+    Right: createGestureFilter(options),
+  };
+  let primary: Handedness = 'Right';
+  let twoHand: TwoHandData | null = null;
+  let lastVisible: TrackedHand[] = [];
+  let classifier: GestureClassifier | null = null;
+  let matches: Record<Handedness, CustomMatch | null> = { Left: null, Right: null };
+
+  const reset = () => {
+    filters.Left.reset();
+    filters.Right.reset();
+    twoHand = null;
+    lastVisible = [];
+    matches = { Left: null, Right: null };
+  };
+
+  const diagnostics = () => lastVisible.flatMap((hand): HandDiagnostics[] => {
+    const frame = filters[hand.handedness].diagnostics();
+    return frame ? [{ ...frame, ...hand, customMatch: matches[hand.handedness], isPrimary: hand.handedness === primary }] : [];
+  });
+
+  const update = (hands: TrackedHand[], now: number): HandGestureData => {
+    // MediaPipe occasionally labels both hands the same; keep the slots distinct
+    const visible = hands.slice(0, 2).map((hand, i) =>
+      i === 1 && hand.handedness === hands[0].handedness
+        ? { ...hand, handedness: (hand.handedness === 'Left' ? 'Right' : 'Left') as Handedness }
+        : hand);
+
+    if (visible.length > 0 && !visible.some(h => h.handedness === primary)) {
+      primary = visible[0].handedness;
+    }
+    lastVisible = visible;
+
+    const results = {} as Record<Handedness, FilteredHand>;
+    (['Left', 'Right'] as Handedness[]).forEach(handedness => {
+      const hand = visible.find(h => h.handedness === handedness);
+      matches[handedness] = hand && classifier ? classifier.classify(hand.landmarks, handedness) : null;
+      results[handedness] = filters[handedness].update(hand ? hand.landmarks : null, now, hand?.score, matches[handedness]?.id ?? null);
+    });
+
+    const handStates: HandState[] = visible.map(({ handedness }) => {
+      const { swipe, ...state } = results[handedness];
+      return { handedness, ...state };
+    });
+
+    if (visible.length === 2) {
+      const [a, b] = visible.map(h => handCenter(h.landmarks)).sort((p, q) => p.x - q.x);
+      const next = { spread: Math.hypot(b.x - a.x, b.y - a.y), angle: Math.atan2(b.y - a.y, b.x - a.x) };
+      const k = options.positionSmoothing;
+      twoHand = twoHand
+        ? { spread: twoHand.spread + (next.spread - twoHand.spread) * k, angle: twoHand.angle + (next.angle - twoHand.angle) * k }
+        : next;
+    } else {
+      twoHand = null;
+    }
+
+    const main = results[primary];
+    if (twoHand) {
+      return { ...NEUTRAL_GESTURE, handPosition: main.handPosition, hands: handStates, twoHand };
+    }
+    return { ...main, hands: handStates, twoHand: null };
+  };
+
+  const setThresholds = (thresholds: GestureThresholds) => {
+    filters.Left.setThresholds(thresholds);
+    filters.Right.setThresholds(thresholds);
+  };
+
+  return { update, diagnostics, setThresholds, setClassifier: next => { classifier = next; }, reset };
+};
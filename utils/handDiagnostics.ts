@@ -0,0 +1,82 @@
+import { GestureThresholds, HAND_CONNECTIONS, HandDiagnostics, INDEX_TIP, THUMB_TIP, thresholdsFor } from './gestures';
+
+// Helpers for the camera preview's diagnostics view (see HandController)
+
+export interface FrameStats {
+  fps: number; // MediaPipe results per second
+  latency: number; // Average ms hands.send() took to produce a result
+}
+
+export interface FrameMeter {
+  /** Records one processed frame finishing at `now` after `latency` ms. */
+  tick: (now: number, latency: number) => void;
+  read: () => FrameStats;
+}
+
+/** Rolling FPS and latency over the last `windowMs`. */
+export const createFrameMeter = (windowMs = 1000): FrameMeter => {
+  let frames: { t: number; latency: number }[] = [];
+
+  const tick = (now: number, latency: number) => {
+    frames.push({ t: now, latency });
+    while (frames.length > 1 && now - frames[0].t > windowMs) frames.shift();
+  };
+
+  const read = (): FrameStats => {
+    if (frames.length < 2) return { fps: 0, latency: frames[0]?.latency ?? 0 };
+    const span = (frames[frames.length - 1].t - frames[0].t) / 1000;
+    return {
+      fps: span > 0 ? (frames.length - 1) / span : 0,
+      latency: frames.reduce((sum, f) => sum + f.latency, 0) / frames.length,
+    };
+  };
+
+  return { tick, read };
+};
+
+/**
+ * Draws each hand's 21-point skeleton in image coordinates (the canvas is mirrored by CSS
+ * like the video). Extended fingertips are filled, folded ones hollow, and the pinch
+ * line turns solid while the thumb and index are close enough to count.
+ */
+export const drawHandSkeleton = (ctx: CanvasRenderingContext2D, hands: HandDiagnostics[], thresholds: GestureThresholds, color: string) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  const radius = Math.max(2, width / 160);
+  ctx.lineWidth = Math.max(1, width / 240);
+
+  hands.forEach(hand => {
+    const point = (i: number) => [hand.landmarks[i].x * width, hand.landmarks[i].y * height] as const;
+    ctx.strokeStyle = color;
+    ctx.globalAlpha = hand.isPrimary ? 1 : 0.5;
+
+    ctx.beginPath();
+    HAND_CONNECTIONS.forEach(([a, b]) => {
+      ctx.moveTo(...point(a));
+      ctx.lineTo(...point(b));
+    });
+    ctx.stroke();
+
+    hand.landmarks.forEach((_, i) => {
+      // Fingertips 8, 12, 16, 20 map onto `extended` 0-3
+      const finger = i >= 8 && i % 4 === 0 ? i / 4 - 2 : -1;
+      ctx.beginPath();
+      ctx.arc(...point(i), finger >= 0 ? radius * 1.6 : radius, 0, Math.PI * 2);
+      if (finger >= 0 && !hand.extended[finger]) {
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = color;
+        ctx.fill();
+      }
+    });
+
+    ctx.setLineDash(hand.metrics.pinchDistance < thresholdsFor(thresholds, hand.metrics).pinchEnter ? [] : [radius, radius]);
+    ctx.strokeStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.moveTo(...point(THUMB_TIP));
+    ctx.lineTo(...point(INDEX_TIP));
+    ctx.stroke();
+    ctx.setLineDash([]);
+  });
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, HandGestureData } from '../types';
+import { DEFAULT_BINDINGS } from './bindings';
+import { NEUTRAL_GESTURE } from './gestures';
+import { INITIAL_INTERACTION, InteractionContext, InteractionState, reduceGesture } from './interaction';
+
+const ctx: InteractionContext = {
+  photoIds: ['a', 'b', 'c'],
+  hasMessage: true,
+  now: 1000,
+  random: () => 0.5,
+  bindings: DEFAULT_BINDINGS,
+};
+
+const frame = (gesture: Partial<HandGestureData>): HandGestureData => ({ ...NEUTRAL_GESTURE, ...gesture });
+const inspecting: InteractionState = { appState: AppState.INSPECT, focusId: 'b', held: [] };
+
+describe('reduceGesture', () => {
+  it('follows the default bindings between states', () => {
+    expect(reduceGesture(INITIAL_INTERACTION, frame({ isOpen: true }), ctx).state.appState).toBe(AppState.SCATTER);
+    expect(reduceGesture(INITIAL_INTERACTION, frame({ isPointing: true }), ctx).state).toMatchObject({ appState: AppState.INSPECT, focusId: 'b' });
+    expect(reduceGesture(inspecting, frame({ isFist: true }), ctx).state).toMatchObject({ appState: AppState.TREE, focusId: null });
+    expect(reduceGesture(INITIAL_INTERACTION, frame({ isVictory: true }), ctx).state.appState).toBe(AppState.TEXT);
+    expect(reduceGesture(INITIAL_INTERACTION, frame({ isVictory: true }), { ...ctx, hasMessage: false }).state.appState).toBe(AppState.TREE);
+  });
+
+  it('keeps the photo open while an open hand swipes past it, and closes it once the hand is still', () => {
+    const swiping = reduceGesture(inspecting, frame({ isOpen: true, isStill: false, swipe: 'left' }), ctx);
+    expect(swiping.state).toMatchObject({ appState: AppState.INSPECT, focusId: 'c' });
+    expect(swiping.photoSwipe).toEqual({ fromId: 'b', toId: 'c', direction: 1, startedAt: ctx.now });
+
+    const moving = reduceGesture(swiping.state, frame({ isOpen: true, isStill: false }), ctx);
+    expect(moving.state).toMatchObject({ appState: AppState.INSPECT, focusId: 'c' });
+
+    const still = reduceGesture(moving.state, frame({ isOpen: true, isStill: true }), ctx);
+    expect(still.state).toMatchObject({ appState: AppState.SCATTER, focusId: null });
+  });
+
+  it('wraps swipes around the gallery', () => {
+    const first = { ...inspecting, focusId: 'a' };
+    expect(reduceGesture(first, frame({ swipe: 'right' }), ctx).state.focusId).toBe('c');
+  });
+
+  it('fires one-off actions only on the frame their gesture starts', () => {
+    const first = reduceGesture(INITIAL_INTERACTION, frame({ isThumbsUp: true }), ctx);
+    expect(first.skipTrack).toBe(1);
+    expect(reduceGesture(first.state, frame({ isThumbsUp: true }), ctx).skipTrack).toBeNull();
+  });
+
+  it('picks a new random photo on a fresh point but keeps it while the point is held', () => {
+    const picked = reduceGesture(inspecting, frame({ isPointing: true }), { ...ctx, random: () => 0 });
+    expect(picked.state.focusId).toBe('a');
+    expect(reduceGesture(picked.state, frame({ isPointing: true }), { ...ctx, random: () => 0.9 }).state.focusId).toBe('a');
+  });
+
+  it('lets a later binding have the frame when an action cannot run', () => {
+    const bindings = [
+      { gesture: 'pinch', action: 'inspectPhoto' as const, states: [AppState.TREE], enabled: true },
+      { gesture: 'pinch', action: 'nextTrack' as const, states: [AppState.TREE], enabled: true },
+    ];
+    const result = reduceGesture(INITIAL_INTERACTION, frame({ isPinching: true }), { ...ctx, photoIds: [], bindings });
+    expect(result.state.appState).toBe(AppState.TREE);
+    expect(result.skipTrack).toBe(1);
+  });
+
+  it('runs trained gestures through their bindings', () => {
+    const bindings = [{ gesture: 'wave', action: 'scatter' as const, states: [AppState.TREE], enabled: true }];
+    expect(reduceGesture(INITIAL_INTERACTION, frame({ customGesture: 'wave' }), { ...ctx, bindings }).state.appState).toBe(AppState.SCATTER);
+    expect(reduceGesture(INITIAL_INTERACTION, frame({ customGesture: 'wave' }), { ...ctx, bindings: [{ ...bindings[0], enabled: false }] }).state.appState).toBe(AppState.TREE);
+  });
+});
@@ -0,0 +1,87 @@
+import { AppState, HandGestureData, PhotoSwipe } from '../types';
+import { GestureActionId, GestureBinding, activeGestures, isOnceAction } from './bindings';
+
+// Everything the gesture state machine reads and writes
+export interface InteractionState {
+  appState: AppState;
+  focusId: string | null;
+  held: string[]; // Gestures showing in the previous frame, to spot "fresh" ones
+}
+
+export interface InteractionContext {
+  photoIds: string[]; // Gallery order
+  hasMessage: boolean; // A wish exists that TEXT can spell out
+  now: number;
+  random: () => number; // Injected so replays are deterministic
+  bindings: GestureBinding[]; // See utils/bindings.ts
+}
+
+export interface InteractionResult {
+  state: InteractionState;
+  photoSwipe: PhotoSwipe | null; // Set when a swipe stepped the focus
+  skipTrack: 1 | -1 | null; // Set on the frame a gesture asked for another song
+}
+
+export const INITIAL_INTERACTION: InteractionState = {
+  appState: AppState.TREE,
+  focusId: null,
+  held: [],
+};
+
+/** Gesture State Logic Machine: one HandGestureData frame in, the next state out. */
+export const reduceGesture = (prev: InteractionState, data: HandGestureData, ctx: InteractionContext): InteractionResult => {
+  const { photoIds } = ctx;
+  const held = activeGestures(data);
+  const base = { ...prev, held };
+  const result = (appState: AppState, focusId: string | null, photoSwipe: PhotoSwipe | null = null, skipTrack: 1 | -1 | null = null): InteractionResult =>
+    ({ state: { ...base, appState, focusId }, photoSwipe, skipTrack });
+
+  // Steps through the gallery in order, sliding from the photo being inspected
+  const step = (direction: 1 | -1) => {
+    const currentIdx = prev.focusId ? photoIds.indexOf(prev.focusId) : -1;
+    const nextId = photoIds[(Math.max(currentIdx, 0) + direction + photoIds.length) % photoIds.length];
+    const swipe = prev.focusId
+      ? { fromId: prev.focusId, toId: nextId, direction, startedAt: ctx.now } as PhotoSwipe
+      : null;
+    return result(AppState.INSPECT, nextId, swipe);
+  };
+
+  // null when the action can't run right now, letting a later binding have the frame
+  const perform = (action: GestureActionId, isFresh: boolean): InteractionResult | null => {
+    switch (action) {
+      case 'assemble':
+        return result(AppState.TREE, null);
+      case 'scatter':
+        // An open hand swiping between photos shouldn't close the photo on its way through
+        if (prev.appState === AppState.INSPECT && !data.isStill) return null;
+        return result(AppState.SCATTER, prev.appState === AppState.INSPECT ? null : prev.focusId);
+      case 'randomPhoto':
+        if (photoIds.length === 0) return null;
+        // A held point keeps the photo it picked; a fresh one picks again
+        if (prev.appState !== AppState.INSPECT || isFresh) {
+          return result(AppState.INSPECT, photoIds[Math.floor(ctx.random() * photoIds.length)]);
+        }
+        return result(AppState.INSPECT, prev.focusId);
+      case 'inspectPhoto':
+        return photoIds.length > 0 ? result(AppState.INSPECT, prev.focusId ?? photoIds[0]) : null;
+      case 'nextPhoto':
+      case 'previousPhoto':
+        return photoIds.length > 1 ? step(action === 'nextPhoto' ? 1 : -1) : null;
+      case 'spellWish':
+        return ctx.hasMessage ? result(AppState.TEXT, null) : null;
+      case 'nextTrack':
+      case 'previousTrack':
+        return result(prev.appState, prev.focusId, null, action === 'nextTrack' ? 1 : -1);
+    }
+  };
+
+  for (const binding of ctx.bindings) {
+    if (!binding.enabled || !held.includes(binding.gesture) || !binding.states.includes(prev.appState)) continue;
+    const isFresh = !prev.held.includes(binding.gesture);
+    if (isOnceAction(binding.action) && !isFresh) continue;
+    const next = perform(binding.action, isFresh);
+    if (next) return next;
+  }
+
+  return result(prev.appState, prev.focusId);
+};
@@ -0,0 +1,28 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { AppState } from '../types';
+import { INITIAL_INTERACTION } from './interaction';
+import { parseRecording, simulateSession } from './landmarkRecording';
+
+// Recorded at 20 fps: a fist, then an open hand, then a thumb–index pinch (0.8 s each)
+const recording = parseRecording(readFileSync(new URL('./__fixtures__/fist-open-pinch.json', import.meta.url), 'utf8'));
+const photoIds = ['first', 'second', 'third'];
+
+describe('simulateSession', () => {
+  it('assembles, scatters, then inspects a photo', () => {
+    const transitions = simulateSession(recording, { photoIds, initialState: { ...INITIAL_INTERACTION, appState: AppState.SCATTER } });
+    expect(transitions.map(t => t.appState)).toEqual([AppState.TREE, AppState.SCATTER, AppState.INSPECT]);
+    expect(transitions[2].focusId).toBe('first');
+  });
+
+  it('changes state only once each pose has been held', () => {
+    const [scatter, inspect] = simulateSession(recording, { photoIds });
+    expect(scatter.t).toBeGreaterThanOrEqual(800 + 150);
+    expect(inspect.t).toBeGreaterThanOrEqual(1600 + 150);
+  });
+
+  it('does not inspect without photos', () => {
+    const transitions = simulateSession(recording);
+    expect(transitions.map(t => t.appState)).toEqual([AppState.SCATTER]);
+  });
+});
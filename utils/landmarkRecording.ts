@@ -0,0 +1,149 @@
+import { AppState } from '../types';
+import { createHandTracker, DEFAULT_FILTER_OPTIONS, GestureFilterOptions, HandsResults, Landmark, toTrackedHands } from './gestures';
+import { INITIAL_INTERACTION, InteractionState, reduceGesture } from './interaction';
+import { DEFAULT_BINDINGS, GestureBinding } from './bindings';
+
+// Recorded MediaPipe sessions: the raw landmark stream from `onResults`, replayable
+// through the same tracker and gesture state machine the live camera uses.
+
+export const RECORDING_VERSION = 1;
+
+const LANDMARKS_PER_HAND = 21;
+
+export interface RecordedFrame extends HandsResults {
+  t: number; // ms since recording started
+}
+
+export interface LandmarkRecording {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  frames: RecordedFrame[];
+}
+
+// --- Recording ---
+
+export interface LandmarkRecorder {
+  start: (now: number) => void;
+  push: (results: HandsResults, now: number) => void;
+  stop: () => LandmarkRecording;
+  isRecording: () => boolean;
+}
+
+// 4 decimals is well below MediaPipe's jitter and keeps files small
+const round = (n: number) => Math.round(n * 1e4) / 1e4;
+
+const copyLandmarks = (hand: Landmark[]): Landmark[] =>
+  hand.map(({ x, y, z }) => (z === undefined ? { x: round(x), y: round(y) } : { x: round(x), y: round(y), z: round(z) }));
+
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  let startedAt: number | null = null;
+  let recordedAt = '';
+  let frames: RecordedFrame[] = [];
+
+  return {
+    start: (now) => {
+      startedAt = now;
+      recordedAt = new Date().toISOString();
+      frames = [];
+    },
+    push: (results, now) => {
+      if (startedAt === null) return;
+      frames.push({
+        t: now - startedAt,
+        multiHandLandmarks: (results.multiHandLandmarks ?? []).map(copyLandmarks),
+        multiHandedness: (results.multiHandedness ?? []).map(({ label, score }) => ({ label, score: round(score) })),
+      });
+    },
+    stop: () => {
+      startedAt = null;
+      return { version: RECORDING_VERSION, recordedAt, frames };
+    },
+    isRecording: () => startedAt !== null,
+  };
+};
+
+// --- Loading ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isLandmark = (v: unknown): v is Landmark => isObject(v) && isNumber(v.x) && isNumber(v.y) && (v.z === undefined || isNumber(v.z));
+const isHand = (v: unknown): v is Landmark[] => Array.isArray(v) && v.length === LANDMARKS_PER_HAND && v.every(isLandmark);
+const isHandedness = (v: unknown): v is { label: string; score: number } => isObject(v) && typeof v.label === 'string' && isNumber(v.score);
+
+/** Parses and validates a recording file, throwing an Error with a readable message. */
+export const parseRecording = (text: string): LandmarkRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!isObject(data) || !Array.isArray(data.frames)) {
+    throw new Error('This does not look like a hand recording (no "frames" list).');
+  }
+  if (!isNumber(data.version) || data.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version "${data.version}". This app reads version ${RECORDING_VERSION}.`);
+  }
+
+  const frames: unknown[] = data.frames;
+  return {
+    version: data.version,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    frames: frames.map((frame, i): RecordedFrame => {
+      if (!isObject(frame) || !isNumber(frame.t)) {
+        throw new Error(`Frame ${i + 1} is missing its timestamp.`);
+      }
+      const hands = frame.multiHandLandmarks ?? [];
+      if (!Array.isArray(hands) || !hands.every(isHand)) {
+        throw new Error(`Frame ${i + 1} has malformed hand landmarks (expected ${LANDMARKS_PER_HAND} points per hand).`);
+      }
+      const handedness = frame.multiHandedness ?? [];
+      if (!Array.isArray(handedness) || !handedness.every(isHandedness)) {
+        throw new Error(`Frame ${i + 1} has malformed handedness (expected a "label" and a "score" per hand).`);
+      }
+      return { t: frame.t, multiHandLandmarks: hands, multiHandedness: handedness };
+    }),
+  };
+};
+
+// --- Deterministic Replay ---
+
+export interface SimulatedTransition {
+  t: number;
+  appState: AppState;
+  focusId: string | null;
+}
+
+export interface SimulateOptions {
+  photoIds?: string[];
+  hasMessage?: boolean;
+  random?: () => number; // Defaults to always picking the first photo
+  bindings?: GestureBinding[]; // Defaults to DEFAULT_BINDINGS
+  initialState?: InteractionState;
+  filterOptions?: GestureFilterOptions;
+}
+
+/**
+ * Runs a recording through the hand tracker and the gesture state machine without
+ * a camera or React, returning every change of AppState / focus in order.
+ * Intended for automated checks of gesture behaviour against recorded sessions.
+ */
+export const simulateSession = (recording: LandmarkRecording, options: SimulateOptions = {}): SimulatedTransition[] => {
+  const tracker = createHandTracker(options.filterOptions ?? DEFAULT_FILTER_OPTIONS);
+  const ctx = { photoIds: options.photoIds ?? [], hasMessage: options.hasMessage ?? false, random: options.random ?? (() => 0),
+    bindings: options.bindings ?? DEFAULT_BINDINGS };
+  let state = options.initialState ?? INITIAL_INTERACTION;
+  const transitions: SimulatedTransition[] = [];
+
+  for (const frame of recording.frames) {
+    const data = tracker.update(toTrackedHands(frame), frame.t);
+    const next = reduceGesture(state, data, { ...ctx, now: frame.t }).state;
+    if (next.appState !== state.appState || next.focusId !== state.focusId) {
+      transitions.push({ t: frame.t, appState: next.appState, focusId: next.focusId });
+    }
+    state = next;
+  }
+
+  return transitions;
+};
@@ -0,0 +1,23 @@
+const pending = new Map<string, Promise<void>>();
+
+/** Injects a classic <script> once, rejecting with a readable error if the file is missing. */
+export const loadScript = (src: string): Promise<void> => {
+  const existing = pending.get(src);
+  if (existing) return existing;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      script.remove();
+      pending.delete(src); // Allow a retry
+      reject(new Error(`Missing asset: ${src}`));
+    };
+    document.head.appendChild(script);
+  });
+
+  pending.set(src, promise);
+  return promise;
+};
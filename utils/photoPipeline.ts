@@ -0,0 +1,79 @@
+import { readExifDate } from './exif';
+
+// Uploads are decoded once, turned upright and re-encoded at display sizes, so the
+// scene never uploads full-resolution camera images to the GPU.
+
+// Long edge of the stored photo, used for close-ups
+export const PHOTO_MAX_SIZE = 2048;
+// Long edge of the thumbnail every photo panel in the scene uses
+export const THUMB_MAX_SIZE = 512;
+
+const JPEG_QUALITY = 0.88;
+const MATTE_COLOR = '#fff'; // Behind transparent images, which JPEG can't keep
+
+export interface PreparedPhoto {
+  blob: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+  takenAt?: string; // From the original's EXIF, which re-encoding drops
+}
+
+/** Scales `width` x `height` down (never up) so the long edge fits `maxSize`. */
+export const fitWithin = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// createImageBitmap applies the EXIF orientation; the <img> fallback (older Safari)
+// relies on drawImage honouring it, as current browsers do
+const decode = async (blob: Blob): Promise<CanvasImageSource & { width: number; height: number }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+      // Decoded through an <img> below instead
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return Object.assign(image, { width: image.naturalWidth, height: image.naturalHeight });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const encode = (source: CanvasImageSource, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D is not available'));
+
+  ctx.fillStyle = MATTE_COLOR;
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the photo'))), 'image/jpeg', JPEG_QUALITY)
+  );
+};
+
+/** Decodes an uploaded image and returns an upright, downscaled copy plus its thumbnail. */
+export const preparePhoto = async (file: Blob): Promise<PreparedPhoto> => {
+  const takenAt = (await readExifDate(file)) ?? undefined;
+  const image = await decode(file);
+  try {
+    const full = fitWithin(image.width, image.height, PHOTO_MAX_SIZE);
+    const small = fitWithin(image.width, image.height, THUMB_MAX_SIZE);
+    const blob = await encode(image, full.width, full.height);
+    const thumb = await encode(image, small.width, small.height);
+    return { blob, thumb, width: full.width, height: full.height, takenAt };
+  } finally {
+    if ('close' in image) image.close();
+  }
+};
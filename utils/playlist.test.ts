@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CROSSFADE_RANGE, DEFAULT_PLAYLIST_SETTINGS, normalizePlaylistSettings, shuffleOrder, stepTrack, trackTitle } from './playlist';
+
+describe('shuffleOrder', () => {
+  it('plays every track once, starting with the current one', () => {
+    const order = shuffleOrder(6, 3);
+    expect(order[0]).toBe(3);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('plays every track when nothing is playing yet', () => {
+    expect([...shuffleOrder(4, -1, () => 0)].sort()).toEqual([0, 1, 2, 3]);
+    expect(shuffleOrder(0, 0)).toEqual([]);
+  });
+});
+
+describe('stepTrack', () => {
+  const inOrder = { shuffle: false, repeat: 'all' as const };
+
+  it('steps through the list and wraps when repeating all', () => {
+    expect(stepTrack(1, 3, 1, inOrder, [], true)).toBe(2);
+    expect(stepTrack(2, 3, 1, inOrder, [], true)).toBe(0);
+    expect(stepTrack(0, 3, -1, inOrder, [], false)).toBe(2);
+    expect(stepTrack(0, 0, 1, inOrder, [], true)).toBeNull();
+  });
+
+  it('repeats one track only when it ran out on its own', () => {
+    const one = { shuffle: false, repeat: 'one' as const };
+    expect(stepTrack(1, 3, 1, one, [], true)).toBe(1);
+    expect(stepTrack(1, 3, 1, one, [], false)).toBe(2);
+  });
+
+  it('stops at the end with repeat off, but a skip still wraps', () => {
+    const off = { shuffle: false, repeat: 'off' as const };
+    expect(stepTrack(2, 3, 1, off, [], true)).toBeNull();
+    expect(stepTrack(2, 3, 1, off, [], false)).toBe(0);
+  });
+
+  it('follows the shuffled order, and the list order when it is out of date', () => {
+    const shuffled = { shuffle: true, repeat: 'all' as const };
+    expect(stepTrack(2, 4, 1, shuffled, [2, 0, 3, 1], true)).toBe(0);
+    expect(stepTrack(1, 4, 1, shuffled, [2, 0, 3, 1], true)).toBe(2);
+    expect(stepTrack(2, 4, -1, shuffled, [2, 0, 3, 1], false)).toBe(1);
+    expect(stepTrack(1, 4, 1, shuffled, [2, 0, 1], true)).toBe(2);
+  });
+});
+
+describe('normalizePlaylistSettings', () => {
+  it('clamps numbers and drops unknown choices', () => {
+    expect(normalizePlaylistSettings({ volume: -1, shuffle: 1, repeat: 'never', crossfade: 99 }))
+      .toEqual({ ...DEFAULT_PLAYLIST_SETTINGS, volume: 0, crossfade: CROSSFADE_RANGE[1] });
+    expect(normalizePlaylistSettings(null)).toEqual(DEFAULT_PLAYLIST_SETTINGS);
+  });
+});
+
+describe('trackTitle', () => {
+  it('turns a file name into a title', () => {
+    expect(trackTitle('01_Jingle_Bells.mp3')).toBe('01 Jingle Bells');
+    expect(trackTitle('carol.v2.ogg')).toBe('carol.v2');
+    expect(trackTitle('.mp3')).toBe('.mp3');
+  });
+});
@@ -0,0 +1,73 @@
+// Playlist ordering rules, kept free of audio so they're easy to reason about.
+// Tracks are addressed by their index in the (user-ordered) track list.
+
+import { clampToRange } from './ranges';
+
+export type RepeatMode = 'all' | 'one' | 'off';
+
+// Order the repeat button cycles through
+export const REPEAT_MODES: RepeatMode[] = ['all', 'one', 'off'];
+
+export interface PlaylistSettings {
+  volume: number;    // 0-1
+  shuffle: boolean;
+  repeat: RepeatMode;
+  crossfade: number; // Seconds of overlap between tracks, 0 = hard cut
+}
+
+export const DEFAULT_PLAYLIST_SETTINGS: PlaylistSettings = {
+  volume: 0.5,
+  shuffle: false,
+  repeat: 'all',
+  crossfade: 3,
+};
+
+export const CROSSFADE_RANGE: [number, number] = [0, 10];
+
+/** Fills in settings saved by an older version or read from a card, clamping volume and crossfade. */
+export const normalizePlaylistSettings = (saved: unknown): PlaylistSettings => {
+  const { volume, shuffle, repeat, crossfade } = (saved && typeof saved === 'object' ? saved : {}) as Record<string, unknown>;
+  return {
+    volume: clampToRange(volume, [0, 1], DEFAULT_PLAYLIST_SETTINGS.volume),
+    shuffle: typeof shuffle === 'boolean' ? shuffle : DEFAULT_PLAYLIST_SETTINGS.shuffle,
+    repeat: REPEAT_MODES.find(mode => mode === repeat) ?? DEFAULT_PLAYLIST_SETTINGS.repeat,
+    crossfade: clampToRange(crossfade, CROSSFADE_RANGE, DEFAULT_PLAYLIST_SETTINGS.crossfade),
+  };
+};
+
+/** Random play order over `count` tracks that starts with `first` (so shuffling doesn't skip the current one). */
+export const shuffleOrder = (count: number, first: number, random: () => number = Math.random): number[] => {
+  const rest = Array.from({ length: count }, (_, i) => i).filter(i => i !== first);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return first >= 0 && first < count ? [first, ...rest] : rest;
+};
+
+/**
+ * Track to play after `current`. `auto` is true when the track ran out on its own,
+ * where repeat modes apply; skipping by hand always wraps around.
+ * Returns null when playback should stop.
+ */
+export const stepTrack = (
+  current: number,
+  count: number,
+  direction: 1 | -1,
+  settings: Pick<PlaylistSettings, 'shuffle' | 'repeat'>,
+  order: number[],
+  auto: boolean
+): number | null => {
+  if (count === 0) return null;
+  if (auto && settings.repeat === 'one') return current;
+
+  const sequence = settings.shuffle && order.length === count ? order : Array.from({ length: count }, (_, i) => i);
+  const position = sequence.indexOf(current) + direction;
+  if (position >= 0 && position < count) return sequence[position];
+  if (auto && settings.repeat === 'off') return null;
+  return sequence[(position + count) % count];
+};
+
+/** "01_Jingle_Bells.mp3" -> "01 Jingle Bells" */
+export const trackTitle = (fileName: string): string =>
+  fileName.replace(/\.[^./]+$/, '').replace(/[_]+/g, ' ').trim() || fileName;
@@ -0,0 +1,43 @@
+import { AppState } from '../types';
+import { SceneOverlayContent, drawSceneOverlay } from './sceneOverlay';
+
+// Print-size snapshots of the scene: the 3D view is rendered at the poster's resolution
+// (see SceneCapturer in MagicScene) and the title, wish and caption are painted over it.
+
+export interface PosterSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const POSTER_SIZES: PosterSize[] = [
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+  { id: 'a4-portrait', label: 'A4 Portrait', width: 2480, height: 3508 }, // 300 dpi
+  { id: 'a4-landscape', label: 'A4 Landscape', width: 3508, height: 2480 },
+  { id: 'square', label: 'Square', width: 3000, height: 3000 },
+];
+
+export type PosterFraming = 'tree' | 'scatter' | 'photo';
+
+export const POSTER_FRAMINGS: { id: PosterFraming, label: string, appState: AppState }[] = [
+  { id: 'tree', label: 'Tree', appState: AppState.TREE },
+  { id: 'scatter', label: 'Scatter', appState: AppState.SCATTER },
+  { id: 'photo', label: 'Photo', appState: AppState.INSPECT },
+];
+
+// Time for the decorations and the camera to settle into a new framing
+export const POSTER_SETTLE_MS = 2500;
+
+/** Renders `(width, height)` pixels of the scene into a new 2D canvas, scaled down past the GPU's limit. */
+export type SceneCapture = (width: number, height: number) => HTMLCanvasElement;
+
+/** Paints the overlay (when given) onto a captured frame and encodes it as PNG. */
+export const composePoster = (frame: HTMLCanvasElement, overlay: SceneOverlayContent | null): Promise<Blob> => {
+  const ctx = frame.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D is not available'));
+  if (overlay) drawSceneOverlay(ctx, frame.width, frame.height, overlay);
+  return new Promise((resolve, reject) =>
+    frame.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the poster'))), 'image/png')
+  );
+};
@@ -0,0 +1,3 @@
+/** `value` held to `[min, max]`, or `fallback` when it isn't a finite number (stored or imported settings). */
+export const clampToRange = (value: unknown, [min, max]: [number, number], fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
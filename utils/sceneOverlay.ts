@@ -0,0 +1,106 @@
+import { ThemeDefinition } from './theme';
+import { wrapText } from './textFormation';
+import { PhotoDetails } from '../types';
+
+// The HTML title, wish and photo caption, painted onto a 2D canvas so exported videos and
+// posters carry them too. Sizes follow the output's shorter side, so any resolution looks alike.
+
+export interface SceneOverlayContent {
+  theme: ThemeDefinition;
+  message: string; // Shown in the middle unless empty
+  photo: PhotoDetails | null; // Caption of the inspected photo
+}
+
+const overlayFonts = (theme: ThemeDefinition, unit: number) => ({
+  title: `${Math.round(unit * 0.08)}px ${theme.fonts.title}`,
+  heading: `300 ${Math.round(unit * 0.016)}px ${theme.fonts.heading}`,
+  wish: `${Math.round(unit * 0.075)}px ${theme.fonts.title}`,
+  caption: `${Math.round(unit * 0.035)}px ${theme.fonts.heading}`,
+  note: `${Math.round(unit * 0.02)}px ${theme.fonts.body}`,
+});
+
+const textOf = ({ theme, message, photo }: SceneOverlayContent) =>
+  message + theme.text.title + theme.text.subtitle.toUpperCase() + theme.text.wishHeading.toUpperCase() +
+  (photo ? photo.caption + photo.note : '');
+
+/** Waits for the overlay's (self-hosted, lazily loaded) fonts so the first frame isn't drawn in a fallback. */
+export const loadOverlayFonts = async (content: SceneOverlayContent, width: number, height: number) => {
+  const text = textOf(content);
+  try {
+    await Promise.all(Object.values(overlayFonts(content.theme, Math.min(width, height))).map(font => document.fonts.load(font, text)));
+  } catch {
+    // Drawn in a fallback font instead
+  }
+};
+
+export const drawSceneOverlay = (ctx: CanvasRenderingContext2D, width: number, height: number, { theme, message, photo }: SceneOverlayContent) => {
+  const unit = Math.min(width, height);
+  const fonts = overlayFonts(theme, unit);
+  const { title: titleFont, heading: headingFont, wish: wishFont } = fonts;
+  const margin = unit * 0.05;
+  ctx.save();
+  ctx.textBaseline = 'top';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = unit * 0.01;
+
+  // Title, top left
+  ctx.textAlign = 'left';
+  ctx.font = titleFont;
+  ctx.fillStyle = theme.ui.accent;
+  ctx.fillText(theme.text.title, margin, margin);
+  ctx.font = headingFont;
+  ctx.fillStyle = theme.ui.ink;
+  ctx.globalAlpha = 0.8;
+  ctx.fillText(theme.text.subtitle.toUpperCase(), margin, margin + unit * 0.1);
+  ctx.globalAlpha = 1;
+
+  // Wish, centred
+  if (message) {
+    ctx.textAlign = 'center';
+    ctx.font = wishFont;
+    const lines = wrapText(message, width * 0.85, s => ctx.measureText(s).width);
+    const lineHeight = unit * 0.09;
+    const top = height / 2 - (lines.length * lineHeight) / 2;
+
+    ctx.font = headingFont;
+    ctx.fillStyle = theme.ui.ink;
+    ctx.fillText(theme.text.wishHeading.toUpperCase(), width / 2, top - unit * 0.05);
+
+    ctx.save();
+    ctx.font = wishFont;
+    ctx.fillStyle = theme.ui.accent;
+    ctx.shadowColor = theme.ui.accent;
+    ctx.shadowBlur = unit * 0.025;
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, top + i * lineHeight));
+    ctx.restore();
+  }
+
+  // Photo caption, date and note, bottom centre (bottom-up, so a missing part leaves no gap)
+  if (photo) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    let bottom = height - margin;
+    if (photo.note) {
+      ctx.font = fonts.note;
+      ctx.fillStyle = theme.ui.ink;
+      const lines = wrapText(photo.note, Math.min(width * 0.8, unit * 1.1), s => ctx.measureText(s).width).slice(0, 3);
+      [...lines].reverse().forEach(line => {
+        ctx.fillText(line, width / 2, bottom);
+        bottom -= unit * 0.03;
+      });
+      bottom -= unit * 0.01;
+    }
+    if (photo.takenAt) {
+      ctx.font = headingFont;
+      ctx.fillStyle = theme.ui.accent;
+      ctx.fillText(new Date(`${photo.takenAt}T00:00`).toLocaleDateString(), width / 2, bottom);
+      bottom -= unit * 0.03;
+    }
+    if (photo.caption) {
+      ctx.font = fonts.caption;
+      ctx.fillStyle = theme.ui.ink;
+      ctx.fillText(photo.caption, width / 2, bottom);
+    }
+  }
+  ctx.restore();
+};
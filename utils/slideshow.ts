@@ -0,0 +1,66 @@
+// Hands-free slideshow: which photo comes next, and the slow pan & zoom while it's shown.
+
+import { clampToRange } from './ranges';
+
+export interface SlideshowSettings {
+  interval: number; // Seconds per photo
+  shuffle: boolean;
+  beatSync: boolean; // Wait for the next beat in the music before changing slides
+}
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  interval: 8,
+  shuffle: false,
+  beatSync: false,
+};
+
+export const SLIDE_INTERVAL_RANGE: [number, number] = [3, 30];
+
+/** Fills in settings saved by an older version or read from a card, clamping the interval. */
+export const normalizeSlideshowSettings = (saved: unknown): SlideshowSettings => {
+  const { interval, shuffle, beatSync } = (saved && typeof saved === 'object' ? saved : {}) as Record<string, unknown>;
+  return {
+    interval: clampToRange(interval, SLIDE_INTERVAL_RANGE, DEFAULT_SLIDESHOW_SETTINGS.interval),
+    shuffle: typeof shuffle === 'boolean' ? shuffle : DEFAULT_SLIDESHOW_SETTINGS.shuffle,
+    beatSync: typeof beatSync === 'boolean' ? beatSync : DEFAULT_SLIDESHOW_SETTINGS.beatSync,
+  };
+};
+
+// Longest wait for a beat once a slide's time is up (quiet passages, no analysis)
+export const BEAT_WAIT_MS = 2000;
+
+/** The photo after `current` in gallery order, or a random other one when shuffling. */
+export const nextSlide = (ids: string[], current: string | null, shuffle: boolean, random: () => number = Math.random): string | null => {
+  if (ids.length === 0) return null;
+  const index = current ? ids.indexOf(current) : -1;
+  if (!shuffle || ids.length < 3 || index < 0) return ids[(index + 1) % ids.length];
+  // Any photo but the current one
+  const pick = Math.floor(random() * (ids.length - 1));
+  return ids[pick >= index ? pick + 1 : pick];
+};
+
+export interface KenBurnsPose {
+  zoom: number; // Multiplier on the focused scale
+  x: number; // World-unit offset of the photo
+  y: number;
+}
+
+const KEN_BURNS_ZOOM = 0.15;
+const KEN_BURNS_PAN = 0.8;
+
+/**
+ * Pan & zoom `progress` (0-1) of the way through a slide. `seed` (0-1) picks the
+ * direction, so each photo drifts its own way; half of them zoom out instead of in.
+ */
+export const kenBurnsPose = (seed: number, progress: number): KenBurnsPose => {
+  const t = Math.min(1, Math.max(0, progress));
+  const eased = t * t * (3 - 2 * t);
+  const angle = seed * Math.PI * 2;
+  const zoomIn = seed < 0.5;
+  const pan = (eased - 0.5) * KEN_BURNS_PAN;
+  return {
+    zoom: 1 + KEN_BURNS_ZOOM * (zoomIn ? eased : 1 - eased),
+    x: Math.cos(angle) * pan,
+    y: Math.sin(angle) * pan,
+  };
+};
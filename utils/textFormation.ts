@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import { LayoutKind } from '../types';
+
+// TEXT state: target positions come from sampling the wish rendered onto an
+// offscreen canvas, so any script the browser can draw (Latin, CJK, emoji) works.
+
+// Decorations that fly into the letters; ribbons stay in the background
+export const TEXT_KINDS: LayoutKind[] = ['ornament', 'foil', 'light'];
+
+const FONT_SIZE = 120; // Canvas pixels; only the shape matters, not the resolution
+const LINE_HEIGHT = 1.25;
+const MAX_LINE_WIDTH = FONT_SIZE * 9; // Roughly 9 CJK characters or 15-20 Latin ones
+const SAMPLE_STEP = 4; // Pixel grid the glyphs are sampled on
+
+// Largest size the text block may take in the scene (world units)
+const WORLD_WIDTH = 30;
+const WORLD_HEIGHT = 14;
+const DEPTH_JITTER = 0.6;
+
+// CJK ideographs, kana, hangul and full-width forms can break anywhere;
+// everything else breaks at whitespace
+const CJK = '\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF';
+const TOKENS = new RegExp(`[${CJK}]|[^\\s${CJK}]+|\\s+`, 'g');
+
+/** Greedy line wrapping that mixes word breaks (Latin) and per-character breaks (CJK). */
+export const wrapText = (text: string, maxWidth: number, measure: (s: string) => number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    for (const token of paragraph.match(TOKENS) ?? []) {
+      const candidate = line + token;
+      if (line.trim() && measure(candidate.trimEnd()) > maxWidth && !/^\s+$/.test(token)) {
+        lines.push(line.trimEnd());
+        line = token;
+      } else {
+        line = candidate;
+      }
+      // A single word longer than a line is split by character
+      while (measure(line) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line.trim());
+  });
+  return lines.filter(l => l.length > 0);
+};
+
+/**
+ * Renders `text` with `fontFamily`, samples the inked pixels and returns `count`
+ * positions centred on the origin (one per decoration, reused when text is sparse).
+ */
+export const sampleTextPoints = async (text: string, fontFamily: string, count: number): Promise<THREE.Vector3[]> => {
+  if (!text.trim() || count === 0) return [];
+
+  const font = `700 ${FONT_SIZE}px ${fontFamily}`;
+  // Self-hosted fonts load lazily (CJK subsets per character), so wait for these glyphs
+  try {
+    await document.fonts.load(font, text);
+  } catch {
+    // Sampled from a fallback font instead
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+
+  ctx.font = font;
+  const lines = wrapText(text, MAX_LINE_WIDTH, s => ctx.measureText(s).width);
+  const lineHeight = FONT_SIZE * LINE_HEIGHT;
+  canvas.width = Math.ceil(Math.max(...lines.map(l => ctx.measureText(l).width), 1)) + SAMPLE_STEP * 2;
+  canvas.height = Math.ceil(lines.length * lineHeight);
+
+  // Resizing resets the context state
+  ctx.font = font;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, canvas.width / 2, (i + 0.5) * lineHeight));
+
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const inked: [number, number][] = [];
+  for (let y = 0; y < height; y += SAMPLE_STEP) {
+    for (let x = 0; x < width; x += SAMPLE_STEP) {
+      if (data[(y * width + x) * 4 + 3] > 128) inked.push([x, y]);
+    }
+  }
+  if (inked.length === 0) return [];
+
+  // Shuffle so every decoration kind is spread over the whole message
+  for (let i = inked.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [inked[i], inked[j]] = [inked[j], inked[i]];
+  }
+
+  const scale = Math.min(WORLD_WIDTH / width, WORLD_HEIGHT / height);
+  return Array.from({ length: count }, (_, i) => {
+    const [x, y] = inked[i % inked.length];
+    // Reused pixels get nudged so they don't stack exactly
+    const spread = i >= inked.length ? SAMPLE_STEP * 0.5 : 0;
+    return new THREE.Vector3(
+      (x - width / 2 + (Math.random() - 0.5) * spread) * scale,
+      (height / 2 - y + (Math.random() - 0.5) * spread) * scale,
+      (Math.random() - 0.5) * DEPTH_JITTER
+    );
+  });
+};
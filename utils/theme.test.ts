@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_THEMES, DEFAULT_THEME, ThemeDefinition, parseTheme, pickMaterial } from './theme';
+
+// A built-in pack exported and edited, as a user would
+const edited = (edit: (theme: Record<string, any>) => void) => {
+  const theme = JSON.parse(JSON.stringify(DEFAULT_THEME));
+  edit(theme);
+  return JSON.stringify(theme);
+};
+
+describe('built-in themes', () => {
+  it('all pass validation and have distinct ids', () => {
+    expect(BUILT_IN_THEMES.map(t => t.id)).toEqual(['christmas', 'lunar-new-year', 'hanukkah', 'winter-corporate']);
+    BUILT_IN_THEMES.forEach(theme => expect(parseTheme(JSON.stringify(theme))).toEqual(theme));
+  });
+
+  it('play their own track, except Christmas which uses music.mp3', () => {
+    expect(BUILT_IN_THEMES.map(t => t.music)).toEqual([undefined, 'lunar-new-year.mp3', 'hanukkah.mp3', 'winter-corporate.mp3']);
+  });
+});
+
+describe('parseTheme', () => {
+  it('accepts an exported theme with a custom track', () => {
+    const theme: ThemeDefinition = parseTheme(edited(t => { t.id = 'mine'; t.music = 'https://example.com/song.mp3'; }));
+    expect(theme.id).toBe('mine');
+    expect(theme.music).toBe('https://example.com/song.mp3');
+  });
+
+  it('rejects files that are not themes', () => {
+    expect(() => parseTheme('{')).toThrow('not valid JSON');
+    expect(() => parseTheme('[]')).toThrow('does not look like a theme');
+    expect(() => parseTheme(edited(t => { t.version = 99; }))).toThrow('Unsupported theme version "99"');
+    expect(() => parseTheme(edited(t => { t.name = ''; }))).toThrow('"id" and a "name"');
+  });
+
+  it('names the field that is wrong', () => {
+    expect(() => parseTheme(edited(t => { t.ui.accent = 'gold'; }))).toThrow('"ui.accent" must be a hex colour');
+    expect(() => parseTheme(edited(t => { delete t.fonts; }))).toThrow('"fonts.title" must be a CSS font-family');
+    expect(() => parseTheme(edited(t => { t.scene.fog.far = 'far'; }))).toThrow('"scene.fog"');
+    expect(() => parseTheme(edited(t => { t.scene.star.points = 2; }))).toThrow('"scene.star"');
+    expect(() => parseTheme(edited(t => { t.scene.sparkles = ['#FFFFFF']; }))).toThrow('"scene.sparkles"');
+    expect(() => parseTheme(edited(t => { t.music = 3; }))).toThrow('"music" must be a URL');
+  });
+
+  it('checks materials and what the decorations refer to', () => {
+    const [material] = Object.keys(DEFAULT_THEME.materials);
+    expect(() => parseTheme(edited(t => { t.materials[material].finish = 'glossy'; }))).toThrow(`Material "${material}"`);
+    expect(() => parseTheme(edited(t => { t.decorations.lights = 'neon'; }))).toThrow('unknown material "neon"');
+    expect(() => parseTheme(edited(t => { t.decorations.ornaments = {}; }))).toThrow('"decorations.ornaments" must map');
+    expect(() => parseTheme(edited(t => { t.decorations.foil = { [material]: -1 }; }))).toThrow(`"decorations.foil.${material}"`);
+    expect(() => parseTheme(edited(t => { t.decorations.ribbons = [material]; }))).toThrow('"decorations.ribbons"');
+  });
+});
+
+describe('pickMaterial', () => {
+  it('picks by weight', () => {
+    const weights = { gold: 1, red: 3 };
+    expect(pickMaterial(weights, 0)).toBe('gold');
+    expect(pickMaterial(weights, 0.24)).toBe('gold');
+    expect(pickMaterial(weights, 0.26)).toBe('red');
+    expect(pickMaterial(weights, 0.999)).toBe('red');
+  });
+});
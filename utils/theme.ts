@@ -0,0 +1,186 @@
+import { MaterialFinish } from '../types';
+import christmas from '../themes/christmas.json';
+import lunarNewYear from '../themes/lunar-new-year.json';
+import hanukkah from '../themes/hanukkah.json';
+import winterCorporate from '../themes/winter-corporate.json';
+
+// Theme packs: everything that makes the tree "Christmas" (or not) lives in a JSON
+// file under themes/. Custom packs use the same format and can be loaded at runtime.
+
+export const THEME_VERSION = 1;
+
+export interface ThemeMaterial {
+  color: string;
+  finish: MaterialFinish;
+}
+
+export interface ThemeDefinition {
+  version: number;
+  id: string;
+  name: string;
+  text: {
+    title: string;
+    subtitle: string;
+    wishHeading: string;
+  };
+  fonts: {
+    title: string;   // CSS font-family lists
+    heading: string;
+    body: string;
+  };
+  ui: {
+    accent: string;  // Highlights, active states, the title
+    surface: string; // Panel and page background
+    ink: string;     // Text and outlines
+  };
+  scene: {
+    background: string;
+    fog: { color: string; near: number; far: number };
+    ambientLight: string;
+    keyLight: string;
+    fillLight: string;
+    spotLight: string;
+    star: { color: string; glow: string; points: number };
+    sparkles: [string, string];
+    photoFrame: string;
+    photoHalo: string;
+  };
+  // Named materials, referenced by the decoration lists below
+  materials: Record<string, ThemeMaterial>;
+  decorations: {
+    ornaments: Record<string, number>; // Material name -> relative weight
+    foil: Record<string, number>;
+    ribbons: [string, string];         // Outer and inner braid
+    lights: string;
+  };
+  music?: string; // URL of the default track, relative to the app (files in public/); the bundled music.mp3 when omitted
+}
+
+/** Picks a material name from a weight table, given a random number in [0, 1). */
+export const pickMaterial = (weights: Record<string, number>, random: number): string => {
+  const entries = Object.entries(weights);
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  let remaining = random * total;
+  for (const [name, weight] of entries) {
+    remaining -= weight;
+    if (remaining < 0) return name;
+  }
+  return entries[entries.length - 1][0];
+};
+
+// --- Loading ---
+
+const FINISHES: MaterialFinish[] = ['metallic', 'matte', 'plain'];
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+const isColor = (v: unknown): v is string => typeof v === 'string' && HEX_COLOR.test(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** Validates a theme already read as JSON (a file, a card, a built-in pack), throwing an Error with a readable message. */
+export const validateTheme = (data: unknown): ThemeDefinition => {
+  if (!isObject(data) || !isObject(data.scene) || !isObject(data.materials) || !isObject(data.decorations)) {
+    throw new Error('This does not look like a theme (needs "scene", "materials" and "decorations").');
+  }
+  if (!isNumber(data.version) || data.version > THEME_VERSION) {
+    throw new Error(`Unsupported theme version "${data.version}". This app reads version ${THEME_VERSION}.`);
+  }
+  if (!isString(data.id) || !isString(data.name)) {
+    throw new Error('A theme needs an "id" and a "name".');
+  }
+
+  const requireStrings = (section: string, keys: string[], check: (v: unknown) => boolean, kind: string) => {
+    const values = data[section];
+    keys.forEach(key => {
+      if (!check(isObject(values) ? values[key] : undefined)) throw new Error(`"${section}.${key}" must be ${kind}.`);
+    });
+  };
+  requireStrings('text', ['title', 'subtitle', 'wishHeading'], v => typeof v === 'string', 'text');
+  requireStrings('fonts', ['title', 'heading', 'body'], isString, 'a CSS font-family');
+  requireStrings('ui', ['accent', 'surface', 'ink'], isColor, 'a hex colour like "#FFD700"');
+  requireStrings('scene', ['background', 'ambientLight', 'keyLight', 'fillLight', 'spotLight', 'photoFrame', 'photoHalo'], isColor, 'a hex colour like "#FFD700"');
+
+  const { scene, materials, decorations } = data;
+  const { fog, star, sparkles } = scene;
+  if (!isObject(fog) || !isColor(fog.color) || !isNumber(fog.near) || !isNumber(fog.far)) {
+    throw new Error('"scene.fog" needs a colour plus "near" and "far" distances.');
+  }
+  if (!isObject(star) || !isColor(star.color) || !isColor(star.glow) || !isNumber(star.points) || !Number.isInteger(star.points) || star.points < 3) {
+    throw new Error('"scene.star" needs "color", "glow" and at least 3 "points".');
+  }
+  if (!Array.isArray(sparkles) || sparkles.length !== 2 || !sparkles.every(isColor)) {
+    throw new Error('"scene.sparkles" must list two hex colours.');
+  }
+
+  Object.entries(materials).forEach(([name, material]) => {
+    if (!isObject(material) || !isColor(material.color) || !FINISHES.some(finish => finish === material.finish)) {
+      throw new Error(`Material "${name}" needs a hex "color" and a "finish" of ${FINISHES.join(', ')}.`);
+    }
+  });
+
+  const checkMaterial = (name: unknown, where: string) => {
+    if (typeof name !== 'string' || !materials[name]) {
+      throw new Error(`"decorations.${where}" refers to unknown material "${name}".`);
+    }
+  };
+  const { ornaments, foil, ribbons, lights } = decorations;
+  ([['ornaments', ornaments], ['foil', foil]] as const).forEach(([where, weights]) => {
+    if (!isObject(weights) || Object.keys(weights).length === 0) {
+      throw new Error(`"decorations.${where}" must map material names to weights.`);
+    }
+    Object.entries(weights).forEach(([name, weight]) => {
+      checkMaterial(name, where);
+      if (!isNumber(weight) || weight < 0) throw new Error(`"decorations.${where}.${name}" must be a weight of 0 or more.`);
+    });
+  });
+  if (!Array.isArray(ribbons) || ribbons.length !== 2) {
+    throw new Error('"decorations.ribbons" must name two materials.');
+  }
+  ribbons.forEach(name => checkMaterial(name, 'ribbons'));
+  checkMaterial(lights, 'lights');
+
+  if (data.music !== undefined && !isString(data.music)) {
+    throw new Error('"music" must be a URL.');
+  }
+
+  // Every field has been checked above
+  return data as unknown as ThemeDefinition;
+};
+
+/** Parses and validates a theme file, throwing an Error with a readable message. */
+export const parseTheme = (text: string): ThemeDefinition => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  return validateTheme(data);
+};
+
+// Checked like a loaded file, so a mistake in themes/*.json fails at startup rather than mid-render
+export const BUILT_IN_THEMES: ThemeDefinition[] = [christmas, lunarNewYear, hanukkah, winterCorporate].map(pack => validateTheme(pack));
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+// --- Page Styling ---
+
+// "#FFD700" -> "255 215 0", the form Tailwind's <alpha-value> colours expect
+const toChannels = (hex: string) => {
+  const full = hex.length === 4 ? hex.replace(/[0-9a-f]/gi, c => c + c) : hex;
+  const n = parseInt(full.slice(1), 16);
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+};
+
+/** Points the CSS variables behind the UI colours and fonts (see tailwind.config.js) at `theme`. */
+export const applyThemeToDocument = (theme: ThemeDefinition) => {
+  const root = document.documentElement.style;
+  root.setProperty('--color-accent', toChannels(theme.ui.accent));
+  root.setProperty('--color-surface', toChannels(theme.ui.surface));
+  root.setProperty('--color-ink', toChannels(theme.ui.ink));
+  root.setProperty('--font-title', theme.fonts.title);
+  root.setProperty('--font-heading', theme.fonts.heading);
+  root.setProperty('--font-body', theme.fonts.body);
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', theme.ui.surface);
+};
@@ -1,6 +1,96 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { DEFAULT_CAMERA_SETTINGS } from './utils/cameraSettings';
+
+// --- Self-hosted MediaPipe ---
+// The MediaPipe packages are classic scripts that load their wasm/model files at
+// runtime, so they are served as plain files under /mediapipe/<package>/.
+const MEDIAPIPE_PACKAGES = ['hands'];
+const MEDIAPIPE_SKIP = new Set(['README.md', 'package.json', 'index.d.ts']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'application/javascript',
+  '.wasm': 'application/wasm',
+};
+
+const mediapipeDir = (pkg: string) => path.resolve(__dirname, 'node_modules/@mediapipe', pkg);
+
+const mediapipeAssets = (): Plugin => ({
+  name: 'mediapipe-assets',
+  configureServer(server) {
+    server.middlewares.use('/mediapipe', (req, res, next) => {
+      const [pkg, file] = (req.url ?? '').split('?')[0].replace(/^\//, '').split('/');
+      if (!MEDIAPIPE_PACKAGES.includes(pkg) || !file) return next();
+
+      const filePath = path.join(mediapipeDir(pkg), file);
+      // Answer 404 ourselves; the SPA fallback would serve index.html as "hands.js"
+      if (MEDIAPIPE_SKIP.has(file) || !fs.existsSync(filePath)) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+      fs.createReadStream(filePath).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const pkg of MEDIAPIPE_PACKAGES) {
+      for (const file of fs.readdirSync(mediapipeDir(pkg))) {
+        if (MEDIAPIPE_SKIP.has(file)) continue;
+        this.emitFile({
+          type: 'asset',
+          fileName: `mediapipe/${pkg}/${file}`,
+          source: fs.readFileSync(path.join(mediapipeDir(pkg), file)),
+        });
+      }
+    }
+  },
+});
+
+// --- Service Worker ---
+// Emits sw.js with the list of files to precache. CJK font subsets are left to
+// the runtime cache; precaching every one of them would add tens of megabytes.
+const isFont = (fileName: string) => /\.woff2?$/.test(fileName);
+// Only the hand model the default settings load; the other is cached when first used
+const RUNTIME_HAND_MODEL = `hand_landmark_${DEFAULT_CAMERA_SETTINGS.modelComplexity === 1 ? 'lite' : 'full'}.tflite`;
+const shouldPrecache = (fileName: string) => {
+  if (fileName.endsWith('.map') || fileName.endsWith(RUNTIME_HAND_MODEL)) return false;
+  if (isFont(fileName)) return fileName.endsWith('.woff2') && fileName.includes('-latin-');
+  return true;
+};
+// The other subsets (mostly CJK, ~13 MB) are cached in the background after install
+const isDeferredFont = (fileName: string) => fileName.endsWith('.woff2') && !fileName.includes('-latin-');
+
+const precacheServiceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const publicFiles = fs.readdirSync(publicDir);
+    const files = Array.from(new Set(['index.html', ...Object.keys(bundle), ...publicFiles]))
+      .filter(shouldPrecache)
+      .sort();
+    const fonts = Object.keys(bundle).filter(isDeferredFont).sort();
+
+    // Versioned by content, so any edit (public/ files included) replaces the cache
+    const hash = createHash('sha256');
+    files.forEach(file => {
+      const chunk = bundle[file];
+      hash.update(`${file}\n`);
+      if (chunk) hash.update(chunk.type === 'asset' ? chunk.source : chunk.code);
+      else hash.update(fs.readFileSync(path.join(publicDir, file)));
+    });
+
+    const manifest = { version: hash.digest('hex').slice(0, 12), files, fonts };
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('self.__PRECACHE_MANIFEST', JSON.stringify(manifest));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +99,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets(), precacheServiceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -17,7 +107,10 @@ export default defineConfig(({ mode }) => {
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
-        }
+        },
+        // One copy for both the app and @react-three/postprocessing: the version
+        // pinned in package.json, which supports this three release
+        dedupe: ['postprocessing'],
       }
     };
 });